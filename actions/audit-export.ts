@@ -0,0 +1,49 @@
+/**
+ * Server action for exporting a report as a self-contained HTML audit file.
+ *
+ * Input data sources: Reports and report_citations via db/index.ts, lineage graphs (actions/lineage.ts)
+ * Output destinations: Downloadable HTML file on the report page
+ * Dependencies: db/index.ts (report queries), actions/lineage.ts (getFullLineages), lib/audit-html.ts (rendering)
+ * Key exports: exportReportHtml
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import { getReport as dbGetReport } from "@/db";
+import { getFullLineages } from "./lineage";
+import { renderAuditHtml } from "@/lib/audit-html";
+import { MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import { parseCitationMap } from "@/lib/markdown-utils";
+import type { FileExportResult } from "@/lib/types";
+
+export async function exportReportHtml(
+  reportId: number
+): Promise<FileExportResult> {
+  const report = Number.isInteger(reportId) ? dbGetReport(reportId) : null;
+  if (!report) {
+    return { success: false, errors: [`Report ${reportId} not found`] };
+  }
+
+  // Markers come from the markdown (as InsightReport reads them), so unresolved entries still appear
+  const citationMap = parseCitationMap(report.markdown);
+  const lineages = await getFullLineages(Object.values(citationMap), MAX_DEPTH_LIMIT);
+  const citations = Object.entries(citationMap).map(([marker, chunkId]) => ({
+    marker,
+    chunk_id: chunkId,
+    lineage: lineages[chunkId] ?? null,
+  }));
+
+  const content = await renderAuditHtml({
+    report,
+    citations,
+    generated_at: new Date().toISOString(),
+  });
+
+  return {
+    success: true,
+    filename: `report-${report.id}-audit.html`,
+    mime_type: "text/html",
+    content,
+  };
+}
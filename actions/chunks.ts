@@ -0,0 +1,34 @@
+/**
+ * Server action for paging through chunks by stage, type, author, status, source document and date.
+ *
+ * Input data sources: SQLite content table via db/index.ts
+ * Output destinations: GET /api/v1/chunks
+ * Dependencies: db/index.ts (listChunks), lib/types.ts (ChunkListFilters, ChunkListResponse)
+ * Key exports: listChunks
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import { listChunks as dbListChunks } from "@/db";
+import type { ChunkListFilters, ChunkListResponse } from "@/lib/types";
+
+/**
+ * One page of chunks matching filters, ordered by chunk_id, with the offset of the next page
+ */
+export async function listChunks(
+  filters: ChunkListFilters,
+  limit: number,
+  offset: number
+): Promise<ChunkListResponse> {
+  const { chunks, total } = dbListChunks(filters, limit, offset);
+  return {
+    data: chunks,
+    pagination: {
+      limit,
+      offset,
+      total,
+      next_offset: offset + chunks.length < total ? offset + chunks.length : null,
+    },
+  };
+}
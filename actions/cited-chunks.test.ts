@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getDb, initDb, insertChunksWithCitations, resetDb, type NewChunk, type NewCitation } from "@/db";
+import { computeConfidence } from "@/lib/confidence";
+import { verifyLineageFigures } from "@/lib/claims";
+import { MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import { getCitedChunkData } from "./cited-chunks";
+import { getFullLineage, getFullLineages } from "./lineage";
+
+const INSIGHT_COUNT = 12;
+
+// Every insight cites two of three raw sources; the last two also cite each other
+function seed(): string[] {
+  const raw: NewChunk[] = [
+    { chunk_id: "raw_survey", text: "Adoption reached 78% in Q3.", stage: 0, type: "raw", source_type: "survey" },
+    { chunk_id: "raw_audit", text: "Revenue was $145M.", stage: 0, type: "raw", source_type: "audit" },
+    { chunk_id: "raw_forecast", text: "Churn will fall to 4%.", stage: 0, type: "raw", source_type: "forecast" },
+  ];
+  const insights: NewChunk[] = [];
+  const citations: NewCitation[] = [];
+
+  for (let i = 1; i <= INSIGHT_COUNT; i++) {
+    const chunkId = `ins_${i}`;
+    insights.push({ chunk_id: chunkId, text: `Adoption hit 78%[1] on $${140 + i}M[2].`, stage: 1, type: "insight" });
+    citations.push(
+      { source_chunk_id: chunkId, target_chunk_id: raw[i % 3].chunk_id, citation_marker: "[1]" },
+      {
+        source_chunk_id: chunkId,
+        target_chunk_id: raw[(i + 1) % 3].chunk_id,
+        citation_marker: "[2]",
+        confidence: 0.5,
+        relationship_type: i % 4 === 0 ? "contradicts" : "supports",
+      }
+    );
+  }
+  citations.push(
+    { source_chunk_id: `ins_${INSIGHT_COUNT - 1}`, target_chunk_id: `ins_${INSIGHT_COUNT}`, citation_marker: "[3]" },
+    { source_chunk_id: `ins_${INSIGHT_COUNT}`, target_chunk_id: `ins_${INSIGHT_COUNT - 1}`, citation_marker: "[3]" }
+  );
+
+  insertChunksWithCitations([...raw, ...insights], citations);
+  return [...insights.map((chunk) => chunk.chunk_id), "raw_survey"];
+}
+
+// Statements prepared while fn runs, as a stand-in for round trips to the database
+async function countStatements(fn: () => Promise<unknown>): Promise<number> {
+  const db = getDb();
+  const prepare = db.prepare;
+  let statements = 0;
+  db.prepare = ((source: string) => {
+    statements++;
+    return prepare.call(db, source);
+  }) as typeof db.prepare;
+  try {
+    await fn();
+  } finally {
+    db.prepare = prepare;
+  }
+  return statements;
+}
+
+beforeEach(() => {
+  resetDb();
+  initDb();
+});
+
+describe("getFullLineages", () => {
+  it("returns the same graph for each chunk as getFullLineage", async () => {
+    const chunkIds = seed();
+    const batched = await getFullLineages([...chunkIds, "missing"], MAX_DEPTH_LIMIT);
+
+    expect(Object.keys(batched)).toEqual(chunkIds);
+    for (const chunkId of chunkIds) {
+      expect(batched[chunkId]).toEqual(await getFullLineage(chunkId, MAX_DEPTH_LIMIT));
+    }
+  });
+
+  it("returns nothing for no chunks", async () => {
+    expect(await getFullLineages([])).toEqual({});
+  });
+});
+
+describe("getCitedChunkData", () => {
+  it("matches per-chunk claim checks and confidence", async () => {
+    const chunkIds = seed();
+    const data = await getCitedChunkData([...chunkIds, "missing"], "min-path");
+
+    expect(data.chunks.map((chunk) => chunk.chunk_id)).toEqual(chunkIds);
+    for (const chunkId of chunkIds) {
+      const lineage = await getFullLineage(chunkId, MAX_DEPTH_LIMIT);
+      const checks = verifyLineageFigures(lineage);
+
+      expect(data.claims[chunkId]).toEqual(checks.length > 0 ? checks : undefined);
+      expect(data.confidence[chunkId]).toEqual(computeConfidence(lineage, "min-path"));
+    }
+    // Raw chunks are the ground truth, so they get no claim checks
+    expect(data.claims.raw_survey).toBeUndefined();
+  });
+
+  it("uses the same number of statements however many chunks are cited", async () => {
+    const chunkIds = seed();
+
+    const one = await countStatements(() => getCitedChunkData(chunkIds.slice(0, 1)));
+    const all = await countStatements(() => getCitedChunkData(chunkIds));
+
+    expect(all).toBe(one);
+    expect(all).toBeLessThanOrEqual(3);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Server action loading everything a rendered report shows for its citations in one round trip.
+ *
+ * Input data sources: Lineage graphs (actions/lineage.ts) of every cited chunk
+ * Output destinations: InsightReport (citation links, claim badges, confidence badges) and LineageSheet
+ * Dependencies: actions/lineage.ts (getFullLineages), lib/claims.ts (figure matching),
+ *   lib/confidence.ts (scoring rules)
+ * Key exports: getCitedChunkData
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import { getFullLineages } from "./lineage";
+import { verifyLineageFigures } from "@/lib/claims";
+import { computeConfidence, DEFAULT_CONFIDENCE_RULE } from "@/lib/confidence";
+import { MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import type { CitedChunkData, ConfidenceRule } from "@/lib/types";
+
+/**
+ * Chunks, claim checks and confidence of chunkIds, all from one multi-root lineage
+ * traversal instead of a traversal per chunk for claims and another for confidence
+ */
+export async function getCitedChunkData(
+  chunkIds: string[],
+  rule: ConfidenceRule = DEFAULT_CONFIDENCE_RULE
+): Promise<CitedChunkData> {
+  const lineages = await getFullLineages(chunkIds, MAX_DEPTH_LIMIT);
+  const data: CitedChunkData = { chunks: [], claims: {}, confidence: {} };
+
+  for (const chunkId of new Set(chunkIds)) {
+    const lineage = lineages[chunkId];
+    if (!lineage) continue;
+
+    data.chunks.push(lineage.nodes.find((node) => node.chunk_id === chunkId)!.chunk);
+    const checks = verifyLineageFigures(lineage);
+    if (checks.length > 0) {
+      data.claims[chunkId] = checks;
+    }
+    data.confidence[chunkId] = computeConfidence(lineage, rule);
+  }
+
+  return data;
+}
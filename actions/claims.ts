@@ -0,0 +1,37 @@
+/**
+ * Server action for checking the numeric claims in chunks against the raw sources they trace to.
+ *
+ * Input data sources: Lineage graphs (actions/lineage.ts)
+ * Output destinations: LineageTree and CitationPopover claim badges
+ * Dependencies: actions/lineage.ts (getFullLineages), lib/claims.ts (figure matching)
+ * Key exports: getClaimChecks
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import { getFullLineages } from "./lineage";
+import { verifyLineageFigures } from "@/lib/claims";
+import { MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import type { ClaimCheck } from "@/lib/types";
+
+/**
+ * Claim checks keyed by chunk_id. Raw chunks are the ground truth, so they are
+ * left out, as are chunks that contain no figures.
+ */
+export async function getClaimChecks(
+  chunkIds: string[]
+): Promise<Record<string, ClaimCheck[]>> {
+  const checks: Record<string, ClaimCheck[]> = {};
+
+  // One traversal for all chunks; each graph carries the raw sources below its root
+  const lineages = await getFullLineages(chunkIds, MAX_DEPTH_LIMIT);
+  for (const [chunkId, lineage] of Object.entries(lineages)) {
+    const chunkChecks = verifyLineageFigures(lineage);
+    if (chunkChecks.length > 0) {
+      checks[chunkId] = chunkChecks;
+    }
+  }
+
+  return checks;
+}
@@ -0,0 +1,33 @@
+/**
+ * Server action for scoring chunk confidence from the reliability of the raw sources in their lineage.
+ *
+ * Input data sources: Lineage graphs (actions/lineage.ts) with citation confidences and source ratings
+ * Output destinations: Confidence badges next to citation markers and in the lineage tree, popover breakdowns
+ * Dependencies: actions/lineage.ts (getFullLineages), lib/confidence.ts (scoring rules)
+ * Key exports: getConfidence
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import { getFullLineages } from "./lineage";
+import { computeConfidence, DEFAULT_CONFIDENCE_RULE } from "@/lib/confidence";
+import { MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import type { ConfidenceResult, ConfidenceRule } from "@/lib/types";
+
+/**
+ * Confidence results keyed by chunk_id; unknown chunks are left out
+ */
+export async function getConfidence(
+  chunkIds: string[],
+  rule: ConfidenceRule = DEFAULT_CONFIDENCE_RULE
+): Promise<Record<string, ConfidenceResult>> {
+  const results: Record<string, ConfidenceResult> = {};
+
+  const lineages = await getFullLineages(chunkIds, MAX_DEPTH_LIMIT);
+  for (const [chunkId, lineage] of Object.entries(lineages)) {
+    results[chunkId] = computeConfidence(lineage, rule);
+  }
+
+  return results;
+}
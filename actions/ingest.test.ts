@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  getChunk,
+  getDb,
+  getReportChunkIds,
+  initDb,
+  insertChunksWithCitations,
+  resetDb,
+  supersedeChunk,
+} from "@/db";
+import { ingestReport } from "./ingest";
+
+function report(paragraphs: string[], references = "[1] raw_survey\n[2] raw_financials"): string {
+  return `# Growth Review\n\n${paragraphs.join("\n\n")}\n\n---\n\n## References\n\n${references}\n`;
+}
+
+function count(sql: string): number {
+  return (getDb().prepare(sql).get() as { n: number }).n;
+}
+
+const insightCount = () => count("SELECT COUNT(*) AS n FROM content WHERE type = 'insight'");
+const supersessions = () =>
+  getDb()
+    .prepare("SELECT source_chunk_id, target_chunk_id, reason FROM supersessions ORDER BY id")
+    .all();
+
+async function ingest(markdown: string, reportId?: number) {
+  const result = await ingestReport({ markdown, author: "analyst@consulting.com", reportId });
+  if (!result.success) throw new Error(result.errors.join("; "));
+  return result;
+}
+
+beforeEach(() => {
+  resetDb();
+  initDb();
+  insertChunksWithCitations(
+    [
+      { chunk_id: "raw_survey", text: "Adoption reached 78% in Q3 2024.", stage: 0, type: "raw" },
+      { chunk_id: "raw_financials", text: "Revenue grew 24% to $145M.", stage: 0, type: "raw" },
+    ],
+    []
+  );
+});
+
+describe("ingestReport revisions", () => {
+  it("reuses unchanged paragraphs, supersedes edited ones and adds new ones", async () => {
+    const first = await ingest(report(["Adoption hit 78%[1].", "Revenue grew 24%[2]."]));
+    expect(first.chunks.map((chunk) => [chunk.chunk_id, chunk.status])).toEqual([
+      ["ins_growth_review_chunk_1", "new"],
+      ["ins_growth_review_chunk_2", "new"],
+    ]);
+    expect(insightCount()).toBe(2);
+
+    const second = await ingest(
+      report(["Adoption hit 78%[1].", "Revenue grew 24% to $145M[2].", "Both trends continue[1][2]."]),
+      first.report_id
+    );
+
+    expect(second.revision).toBe(2);
+    expect(second.chunks.map((chunk) => [chunk.chunk_id, chunk.status, chunk.supersedes])).toEqual([
+      ["ins_growth_review_chunk_1", "unchanged", undefined],
+      ["ins_growth_review_chunk_2_v2", "revised", "ins_growth_review_chunk_2"],
+      ["ins_growth_review_chunk_3", "new", undefined],
+    ]);
+    // One replacement and one new paragraph; the unchanged paragraph is not copied
+    expect(insightCount()).toBe(4);
+    expect(supersessions()).toEqual([
+      {
+        source_chunk_id: "ins_growth_review_chunk_2_v2",
+        target_chunk_id: "ins_growth_review_chunk_2",
+        reason: `Revised in report ${first.report_id}, revision 2`,
+      },
+    ]);
+    expect(getChunk("ins_growth_review_chunk_2")).toMatchObject({
+      status: "superseded",
+      superseded_by: "ins_growth_review_chunk_2_v2",
+    });
+    expect(getReportChunkIds(first.report_id)).toEqual(second.chunks.map((chunk) => chunk.chunk_id));
+  });
+
+  it("writes nothing new when a revision changes no paragraph", async () => {
+    const markdown = report(["Adoption hit 78%[1].", "Revenue grew 24%[2]."]);
+    const first = await ingest(markdown);
+    const second = await ingest(markdown, first.report_id);
+
+    expect(second.chunks.map((chunk) => chunk.status)).toEqual(["unchanged", "unchanged"]);
+    expect(insightCount()).toBe(2);
+    expect(supersessions()).toEqual([]);
+  });
+
+  it("supersedes a paragraph whose reference is re-pointed even if its text is the same", async () => {
+    const first = await ingest(report(["Growth is strong[1]."]));
+    const second = await ingest(report(["Growth is strong[1]."], "[1] raw_financials"), first.report_id);
+
+    expect(second.chunks[0]).toMatchObject({ status: "revised", supersedes: "ins_growth_review_chunk_1" });
+    expect(supersessions()).toHaveLength(1);
+  });
+
+  it("keeps the chunks of removed paragraphs published", async () => {
+    const first = await ingest(report(["Adoption hit 78%[1].", "Revenue grew 24%[2]."]));
+    const second = await ingest(report(["Adoption hit 78%[1]."]), first.report_id);
+
+    expect(second.chunks.map((chunk) => chunk.status)).toEqual(["unchanged"]);
+    expect(getChunk("ins_growth_review_chunk_2")?.status).toBe("published");
+    expect(getReportChunkIds(first.report_id)).toEqual(["ins_growth_review_chunk_1"]);
+  });
+
+  it("compares against the latest version of a chunk corrected since the last revision", async () => {
+    const first = await ingest(report(["Adoption hit 78%[1]."]));
+    supersedeChunk(
+      "ins_growth_review_chunk_1",
+      {
+        chunk_id: "ins_growth_review_chunk_1_v2",
+        text: "Adoption reached 78%[1].",
+        stage: 1,
+        type: "insight",
+      },
+      [
+        {
+          source_chunk_id: "ins_growth_review_chunk_1_v2",
+          target_chunk_id: "raw_survey",
+          citation_marker: "[1]",
+        },
+      ]
+    );
+
+    const unchanged = await ingest(report(["Adoption reached 78%[1]."]), first.report_id);
+    expect(unchanged.chunks[0]).toMatchObject({ chunk_id: "ins_growth_review_chunk_1_v2", status: "unchanged" });
+
+    const edited = await ingest(report(["Adoption reached 79%[1]."]), first.report_id);
+    expect(edited.chunks[0]).toMatchObject({
+      chunk_id: "ins_growth_review_chunk_1_v3",
+      status: "revised",
+      supersedes: "ins_growth_review_chunk_1_v2",
+    });
+  });
+});
+
+describe("ingestReport validation", () => {
+  it("rejects a reference to an unknown chunk and writes nothing", async () => {
+    const tables = ["content", "citations", "reports", "report_citations", "report_chunks", "chunk_terms"];
+    const before = tables.map((table) => count(`SELECT COUNT(*) AS n FROM ${table}`));
+
+    const result = await ingestReport({
+      markdown: report(["Adoption hit 78%[1].", "Churn fell to 4%[3]."], "[1] raw_survey\n[3] raw_missing"),
+    });
+
+    expect(result).toEqual({ success: false, errors: ["[3] references unknown chunk raw_missing"] });
+    expect(tables.map((table) => count(`SELECT COUNT(*) AS n FROM ${table}`))).toEqual(before);
+  });
+});
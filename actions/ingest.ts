@@ -0,0 +1,346 @@
+/**
+ * Server action for ingesting a full insight report into paragraph-level chunks and citation edges.
+ *
+ * Input data sources: Report markdown with inline markers and a References section
+ * Output destinations: SQLite content, citations, supersessions, reports, report_revisions and report_chunks
+ *   tables via db/index.ts
+ * Dependencies: db/store.ts (chunk and citation lookups), db/index.ts (transactional insert, supersedeChunk,
+ *   report tables), lib/markdown-utils.ts (parsing),
+ *   lib/quotes.ts (quoted passages must appear in the cited chunk), lib/relationships.ts (marker suffixes),
+ *   lib/similarity.ts (term weights)
+ * Key exports: ingestReport
+ * Side effects: Inserts chunk rows, citation rows and the report itself or a new revision of it, and adds the
+ *   new chunks to the similarity index (all-or-nothing). A revision reuses the chunks of unchanged paragraphs and
+ *   supersedes the chunks of edited ones.
+ */
+
+"use server";
+
+import {
+  getMaxChunkIndex,
+  getNextVersionId,
+  getReport as dbGetReport,
+  getReportChunkIds,
+  insertChunksWithCitations,
+  insertReport,
+  getTermStats,
+  insertChunkTerms,
+  reviseReport,
+  setReportChunks,
+  supersedeChunk as dbSupersedeChunk,
+  transaction,
+} from "@/db";
+import { getLineageStore, type LineageStore } from "@/db/store";
+import type { Chunk, Citation, NewChunk, NewCitation } from "@/db/types";
+import {
+  extractCitationMarkers,
+  extractReportMetadata,
+  parseCitationMap,
+  parseCitationQuotes,
+  splitReportIntoParagraphs,
+  toChunkIdPrefix,
+} from "@/lib/markdown-utils";
+import { checkQuote } from "@/lib/quotes";
+import { buildTermWeights } from "@/lib/similarity";
+import {
+  DEFAULT_RELATIONSHIP_TYPE,
+  parseMarkerRelationships,
+} from "@/lib/relationships";
+import type {
+  IngestedChunk,
+  IngestReportInput,
+  IngestReportResult,
+  RelationshipType,
+} from "@/lib/types";
+
+// A paragraph as it will be stored, before it is given a chunk_id
+interface PlannedParagraph {
+  text: string;
+  stage: number;
+  citations: (Omit<NewCitation, "source_chunk_id" | "relationship_type"> & {
+    relationship_type: RelationshipType;
+  })[];
+}
+
+export async function ingestReport(
+  input: IngestReportInput
+): Promise<IngestReportResult> {
+  const { markdown } = input;
+  const metadata = extractReportMetadata(markdown);
+  const author = input.author?.trim() || metadata.author;
+  const citationMap = parseCitationMap(markdown);
+  const citationQuotes = parseCitationQuotes(markdown);
+  const paragraphs = splitReportIntoParagraphs(markdown);
+  const errors: string[] = [];
+
+  if (paragraphs.length === 0) {
+    return { success: false, errors: ["Report has no paragraphs to ingest"] };
+  }
+  if (input.reportId !== undefined && !dbGetReport(input.reportId)) {
+    return { success: false, errors: [`Report ${input.reportId} not found`] };
+  }
+
+  // Resolve every referenced chunk up front so the whole report is rejected on any miss
+  const store = getLineageStore();
+  const targets = new Map(
+    (await store.getChunks(Object.values(citationMap))).map((chunk) => [
+      chunk.chunk_id,
+      chunk,
+    ])
+  );
+  const targetStages = new Map<string, number>();
+  const quoteSpans = new Map<
+    string,
+    Pick<NewCitation, "quote" | "quote_start" | "quote_end">
+  >();
+  for (const [marker, chunkId] of Object.entries(citationMap)) {
+    const target = targets.get(chunkId);
+    if (!target) {
+      errors.push(`${marker} references unknown chunk ${chunkId}`);
+      continue;
+    }
+    targetStages.set(chunkId, target.stage);
+
+    // Span-level citation: the quote must appear verbatim in the cited chunk
+    const quote = citationQuotes[marker];
+    if (quote === undefined) continue;
+    const check = checkQuote(target.text, { text: quote, start: null, end: null });
+    if (check.status === "missing") {
+      errors.push(`${marker} quotes a passage that is not in ${chunkId}: "${quote}"`);
+    } else {
+      quoteSpans.set(marker, {
+        quote,
+        quote_start: check.start,
+        quote_end: check.end,
+      });
+    }
+  }
+
+  const undefinedMarkers = new Set(
+    paragraphs
+      .flatMap((paragraph) => extractCitationMarkers(paragraph))
+      .filter((marker) => !citationMap[marker])
+  );
+  for (const marker of undefinedMarkers) {
+    errors.push(`${marker} has no entry in the References section`);
+  }
+
+  // "[1:contradicts]" sets the relationship of that paragraph's citation; plain markers cite
+  const paragraphRelationships = paragraphs.map((paragraph) => {
+    const parsed = parseMarkerRelationships(paragraph);
+    errors.push(...parsed.errors);
+    return parsed.relationships;
+  });
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const planned: PlannedParagraph[] = paragraphs.map((text, index) => {
+    const citations = extractCitationMarkers(text).map((marker) => ({
+      target_chunk_id: citationMap[marker],
+      citation_marker: marker,
+      relationship_type:
+        paragraphRelationships[index][marker] ?? DEFAULT_RELATIONSHIP_TYPE,
+      ...quoteSpans.get(marker),
+    }));
+
+    // An insight sits one stage above the highest stage it cites
+    const stage =
+      citations.reduce(
+        (max, { target_chunk_id }) =>
+          Math.max(max, targetStages.get(target_chunk_id) ?? 0),
+        0
+      ) + 1;
+
+    return { text, stage, citations };
+  });
+
+  const prefix =
+    input.chunkIdPrefix?.trim() ||
+    toChunkIdPrefix(metadata.title ?? "report");
+  const createdAt = new Date().toISOString();
+  const report = {
+    title: metadata.title ?? prefix,
+    author,
+    status: "published",
+    markdown,
+    created_at: createdAt,
+  };
+
+  // Matching against the previous revision only reads, so it goes through the store; the writes
+  // below share one SQLite transaction with the report tables and the similarity index
+  const assignments =
+    input.reportId === undefined
+      ? planned.map((): Assignment => ({ status: "new" }))
+      : await assignChunks(store, planned, getReportChunkIds(input.reportId));
+
+  let saved: { reportId: number; revision: number; chunks: IngestedChunk[] };
+  try {
+    saved = transaction(() => {
+      // Revisions keep the report id; earlier versions stay in report_revisions
+      const { reportId, revision } =
+        input.reportId === undefined
+          ? { reportId: insertReport(report, citationMap), revision: 1 }
+          : {
+              reportId: input.reportId,
+              revision: reviseReport(input.reportId, report, citationMap),
+            };
+
+      const newChunks: NewChunk[] = [];
+      const newCitations: NewCitation[] = [];
+      let nextIndex = getMaxChunkIndex(prefix) + 1;
+
+      const chunks = planned.map((paragraph, index): IngestedChunk => {
+        const assignment = assignments[index];
+        const chunkId =
+          assignment.status === "unchanged"
+            ? assignment.chunk_id
+            : assignment.status === "revised"
+              ? getNextVersionId(assignment.supersedes)
+              : `${prefix}_chunk_${nextIndex++}`;
+        const chunk: NewChunk = {
+          chunk_id: chunkId,
+          text: paragraph.text,
+          stage: paragraph.stage,
+          type: "insight",
+          author,
+          created_at: createdAt,
+        };
+        const citations = paragraph.citations.map((citation) => ({
+          ...citation,
+          source_chunk_id: chunkId,
+        }));
+
+        if (assignment.status === "revised") {
+          dbSupersedeChunk(
+            assignment.supersedes,
+            chunk,
+            citations,
+            `Revised in report ${reportId}, revision ${revision}`
+          );
+        } else if (assignment.status === "new") {
+          newChunks.push(chunk);
+          newCitations.push(...citations);
+        }
+
+        return {
+          chunk_id: chunkId,
+          text: paragraph.text,
+          stage: paragraph.stage,
+          status: assignment.status,
+          supersedes: assignment.status === "revised" ? assignment.supersedes : undefined,
+          citations: paragraph.citations.map((citation) => ({
+            marker: citation.citation_marker,
+            target_chunk_id: citation.target_chunk_id,
+            relationship_type: citation.relationship_type,
+          })),
+        };
+      });
+
+      insertChunksWithCitations(newChunks, newCitations);
+      setReportChunks(reportId, chunks.map((chunk) => chunk.chunk_id));
+      // Only this save's chunks are weighted; superseded ones left the index in dbSupersedeChunk
+      insertChunkTerms(
+        buildTermWeights(
+          chunks.filter((chunk) => chunk.status !== "unchanged"),
+          getTermStats
+        )
+      );
+      return { reportId, revision, chunks };
+    });
+  } catch (error) {
+    return {
+      success: false,
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  }
+
+  return {
+    success: true,
+    report_id: saved.reportId,
+    revision: saved.revision,
+    chunks: saved.chunks,
+  };
+}
+
+type Assignment =
+  | { status: "unchanged"; chunk_id: string }
+  | { status: "revised"; supersedes: string }
+  | { status: "new" };
+
+/**
+ * Match a revision's paragraphs to the chunks of the previous revision (each followed to its
+ * latest version, in case it was corrected since).
+ * A paragraph whose text and citations equal an unused previous chunk reuses it; the remaining
+ * paragraphs supersede the remaining previous chunks in order, and any left over get new chunks.
+ * Previous chunks with no paragraph left stay published (they may be cited elsewhere).
+ */
+async function assignChunks(
+  store: LineageStore,
+  paragraphs: PlannedParagraph[],
+  previousIds: string[]
+): Promise<Assignment[]> {
+  const latest = new Map<string, Chunk>();
+  for (const chunk of await store.getChunks(previousIds)) {
+    const current = await latestVersion(store, chunk);
+    latest.set(current.chunk_id, current);
+  }
+  const previous = await Promise.all(
+    [...latest.values()].map(async (chunk) => ({
+      chunk_id: chunk.chunk_id,
+      key: paragraphKey(chunk.text, await store.getDirectCitations(chunk.chunk_id)),
+    }))
+  );
+  const unused = new Set(previous.map((chunk) => chunk.chunk_id));
+
+  const assignments: (Assignment | null)[] = paragraphs.map((paragraph) => {
+    const key = paragraphKey(paragraph.text, paragraph.citations);
+    const match = previous.find(
+      (chunk) => unused.has(chunk.chunk_id) && chunk.key === key
+    );
+    if (!match) return null;
+    unused.delete(match.chunk_id);
+    return { status: "unchanged", chunk_id: match.chunk_id };
+  });
+
+  const replaceable = previous.filter((chunk) => unused.has(chunk.chunk_id));
+  return assignments.map((assignment) => {
+    if (assignment) return assignment;
+    const replaced = replaceable.shift();
+    return replaced
+      ? { status: "revised", supersedes: replaced.chunk_id }
+      : { status: "new" };
+  });
+}
+
+async function latestVersion(store: LineageStore, chunk: Chunk): Promise<Chunk> {
+  let current = chunk;
+  const seen = new Set([chunk.chunk_id]);
+  while (current.superseded_by && !seen.has(current.superseded_by)) {
+    const replacement = await store.getChunk(current.superseded_by);
+    if (!replacement) break;
+    seen.add(replacement.chunk_id);
+    current = replacement;
+  }
+  return current;
+}
+
+// Text plus what each marker points at; chunks with equal keys are interchangeable
+function paragraphKey(
+  text: string,
+  citations: Pick<
+    Citation,
+    "target_chunk_id" | "citation_marker" | "relationship_type" | "quote"
+  >[]
+): string {
+  const edges = citations
+    .map((citation) => [
+      citation.citation_marker ?? "",
+      citation.target_chunk_id,
+      citation.relationship_type,
+      citation.quote ?? null,
+    ])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+  return JSON.stringify([text, edges]);
+}
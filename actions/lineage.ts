@@ -1,88 +1,226 @@
 /**
- * Server actions for fetching chunk data and building citation lineage trees.
+ * Server actions for fetching chunk data and building citation lineage graphs.
  *
- * Input data sources: SQLite database via db/index.ts helper functions
+ * Input data sources: The configured LineageStore (SQLite by default, see db/store.ts)
  * Output destinations: React components (called from client-side code)
- * Dependencies: db/index.ts (database queries), lib/types.ts (type definitions)
- * Key exports: getChunk, getDirectCitations, getFullLineage
+ * Dependencies: db/store.ts (LineageStore), lib/types.ts (type definitions)
+ * Key exports: getChunk, getChunks, getDirectCitations, getResolvedCitations, getFullLineage, getFullLineages,
+ *   getDependents
  * Side effects: Database reads only (no writes)
  */
 
 "use server";
 
-import {
-  getChunk as dbGetChunk,
-  getDirectCitations as dbGetDirectCitations,
-  getFullLineage as dbGetFullLineage,
-} from "@/db";
-import type { Chunk, LineageNode } from "@/lib/types";
+import type { LineageRow, Traversal } from "@/db/types";
+import { getLineageStore } from "@/db/store";
+import { clampDepth } from "@/lib/lineage-graph";
+import type {
+  Chunk,
+  CitationQuote,
+  LineageEdge,
+  LineageGraph,
+  LineageGraphNode,
+  RelationshipType,
+  ResolvedCitation,
+} from "@/lib/types";
 
 export async function getChunk(chunkId: string): Promise<Chunk | null> {
-  return dbGetChunk(chunkId);
+  return getLineageStore().getChunk(chunkId);
 }
 
-export async function getDirectCitations(chunkId: string): Promise<Chunk[]> {
-  const citations = dbGetDirectCitations(chunkId);
-  const chunks: Chunk[] = [];
+/**
+ * Known chunks among chunkIds in one round trip, in the order given (unknown ids are skipped)
+ */
+export async function getChunks(chunkIds: string[]): Promise<Chunk[]> {
+  if (chunkIds.length === 0) return [];
+  return getLineageStore().getChunks(chunkIds);
+}
 
-  for (const citation of citations) {
-    const chunk = dbGetChunk(citation.target_chunk_id);
-    if (chunk) {
-      chunks.push(chunk);
-    }
-  }
+export async function getDirectCitations(chunkId: string): Promise<Chunk[]> {
+  const store = getLineageStore();
+  const citations = await store.getDirectCitations(chunkId);
+  return store.getChunks(citations.map((citation) => citation.target_chunk_id));
+}
 
-  return chunks;
+/**
+ * Outgoing citation edges of chunkId, each with the chunk it cites
+ */
+export async function getResolvedCitations(chunkId: string): Promise<ResolvedCitation[]> {
+  const store = getLineageStore();
+  const citations = await store.getDirectCitations(chunkId);
+  const targets = new Map(
+    (await store.getChunks(citations.map((citation) => citation.target_chunk_id))).map((chunk) => [
+      chunk.chunk_id,
+      chunk,
+    ])
+  );
+  return citations.map((citation) => ({
+    ...citation,
+    relationship_type: citation.relationship_type as RelationshipType,
+    target: targets.get(citation.target_chunk_id) ?? null,
+  }));
 }
 
-export async function getFullLineage(chunkId: string): Promise<LineageNode[]> {
-  const lineageRows = dbGetFullLineage(chunkId);
-  const chunkMap = new Map<string, Chunk>();
+/**
+ * Lineage graph below chunkId, at most maxDepth hops deep (default 10).
+ * Citation loops are returned in `cycles`; `truncated` is set when deeper levels exist.
+ */
+export async function getFullLineage(
+  chunkId: string,
+  maxDepth?: number
+): Promise<LineageGraph> {
+  const store = getLineageStore();
+  const depth = clampDepth(maxDepth);
+  const [root, traversal] = await Promise.all([
+    store.getChunk(chunkId),
+    store.getFullLineage(chunkId, depth),
+  ]);
 
-  // Fetch all chunks in lineage
-  for (const row of lineageRows) {
-    const chunk = dbGetChunk(row.target_chunk_id);
-    if (chunk) {
-      chunkMap.set(row.target_chunk_id, chunk);
-    }
-  }
+  return buildLineageGraph(chunkId, root, depth, traversal);
+}
 
-  // Build tree structure
-  const nodesByChunkId = new Map<string, LineageNode>();
+/**
+ * getFullLineage for several chunks with one traversal query and one chunk lookup,
+ * keyed by chunk_id (unknown chunks are left out)
+ */
+export async function getFullLineages(
+  chunkIds: string[],
+  maxDepth?: number
+): Promise<Record<string, LineageGraph>> {
+  const ids = [...new Set(chunkIds)];
+  if (ids.length === 0) return {};
 
-  // Create nodes
-  for (const row of lineageRows) {
-    const chunk = chunkMap.get(row.target_chunk_id);
-    if (!chunk) continue;
+  const store = getLineageStore();
+  const depth = clampDepth(maxDepth);
+  const [roots, traversals] = await Promise.all([
+    store.getChunks(ids),
+    store.getFullLineages(ids, depth),
+  ]);
 
-    nodesByChunkId.set(row.target_chunk_id, {
+  return Object.fromEntries(
+    roots.map((root) => [
+      root.chunk_id,
+      buildLineageGraph(root.chunk_id, root, depth, traversals[root.chunk_id]),
+    ])
+  );
+}
+
+// Downward traversal rows as graph nodes and edges
+function buildLineageGraph(
+  chunkId: string,
+  root: Chunk | null,
+  depth: number,
+  traversal: Traversal<LineageRow>
+): LineageGraph {
+  return buildGraph(
+    chunkId,
+    root,
+    "citations",
+    depth,
+    traversal,
+    traversal.rows.map((row) => ({
       chunk_id: row.target_chunk_id,
       depth: row.depth,
-      chunk,
-      citation_marker: row.citation_marker,
-      children: [],
-    });
-  }
+      edge: {
+        source_chunk_id: row.parent_id,
+        target_chunk_id: row.target_chunk_id,
+        citation_marker: row.citation_marker,
+        confidence: row.confidence,
+        relationship_type: row.relationship_type as RelationshipType,
+        quote: toQuote(row),
+      },
+    }))
+  );
+}
 
-  // Build parent-child relationships
-  const rootNodes: LineageNode[] = [];
+/**
+ * Reverse lineage: graph of chunks that depend on chunkId, from direct citers
+ * up to report-level insights that nothing else cites (at most maxDepth hops)
+ */
+export async function getDependents(
+  chunkId: string,
+  maxDepth?: number
+): Promise<LineageGraph> {
+  const store = getLineageStore();
+  const depth = clampDepth(maxDepth);
+  const [root, traversal] = await Promise.all([
+    store.getChunk(chunkId),
+    store.getDependents(chunkId, depth),
+  ]);
 
-  for (const row of lineageRows) {
-    const node = nodesByChunkId.get(row.target_chunk_id);
-    if (!node) continue;
+  return buildGraph(
+    chunkId,
+    root,
+    "dependents",
+    depth,
+    traversal,
+    traversal.rows.map((row) => ({
+      chunk_id: row.source_chunk_id,
+      depth: row.depth,
+      edge: {
+        source_chunk_id: row.source_chunk_id,
+        target_chunk_id: row.cited_chunk_id,
+        citation_marker: row.citation_marker,
+        confidence: row.confidence,
+        relationship_type: row.relationship_type as RelationshipType,
+        quote: toQuote(row),
+      },
+    }))
+  );
+}
 
-    if (row.depth === 1) {
-      // Direct citation - this is a root in our tree
-      rootNodes.push(node);
+function toQuote(row: {
+  quote: string | null;
+  quote_start: number | null;
+  quote_end: number | null;
+}): CitationQuote | undefined {
+  return row.quote === null
+    ? undefined
+    : { text: row.quote, start: row.quote_start, end: row.quote_end };
+}
+
+/**
+ * Collapse per-path traversal rows into a graph: one node per chunk (at its
+ * shortest depth) and one edge per distinct citation. Chunks come with the
+ * traversal, so only the root is looked up separately (by the caller).
+ */
+function buildGraph(
+  rootChunkId: string,
+  root: Chunk | null,
+  direction: LineageGraph["direction"],
+  maxDepth: number,
+  traversal: { chunks: Chunk[]; cycles: string[][]; truncated: boolean },
+  rows: { chunk_id: string; depth: number; edge: LineageEdge }[]
+): LineageGraph {
+  const nodes = new Map<string, LineageGraphNode>();
+  const edges = new Map<string, LineageEdge>();
+  const chunks = new Map(traversal.chunks.map((chunk) => [chunk.chunk_id, chunk]));
+
+  if (root) {
+    nodes.set(rootChunkId, { chunk_id: rootChunkId, depth: 0, chunk: root });
+  }
+
+  for (const row of rows) {
+    const existing = nodes.get(row.chunk_id);
+    if (existing) {
+      existing.depth = Math.min(existing.depth, row.depth);
     } else {
-      // Find parent and add as child
-      const parentId = row.parent_id;
-      const parent = nodesByChunkId.get(parentId);
-      if (parent) {
-        parent.children.push(node);
-      }
+      const chunk = chunks.get(row.chunk_id);
+      if (!chunk) continue;
+      nodes.set(row.chunk_id, { chunk_id: row.chunk_id, depth: row.depth, chunk });
     }
+
+    const { source_chunk_id, target_chunk_id, citation_marker } = row.edge;
+    edges.set(`${source_chunk_id}|${target_chunk_id}|${citation_marker ?? ""}`, row.edge);
   }
 
-  return rootNodes;
+  return {
+    root_chunk_id: rootChunkId,
+    direction,
+    nodes: [...nodes.values()],
+    edges: [...edges.values()],
+    max_depth: maxDepth,
+    truncated: traversal.truncated,
+    cycles: traversal.cycles,
+  };
 }
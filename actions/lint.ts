@@ -0,0 +1,89 @@
+/**
+ * Server actions for linting citation markers in stored reports and insight chunks.
+ *
+ * Input data sources: SQLite reports via db/index.ts, chunks and citations from the configured LineageStore
+ * Output destinations: Citation lint panel on /reports/[id], lint-citations CLI
+ * Dependencies: db/index.ts (report queries), db/store.ts (chunk and citation queries), lib/citation-lint.ts (rules)
+ * Key exports: lintReport, lintChunks
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import { getReport as dbGetReport } from "@/db";
+import { getLineageStore } from "@/db/store";
+import {
+  lintChunkText,
+  lintCitationQuotes,
+  lintReportMarkdown,
+} from "@/lib/citation-lint";
+import { parseCitationMap } from "@/lib/markdown-utils";
+import type { LintIssue } from "@/lib/types";
+
+/**
+ * Issues in a report's markdown followed by issues in the text of the chunks it cites
+ * Returns null when the report does not exist
+ */
+export async function lintReport(reportId: number): Promise<LintIssue[] | null> {
+  if (!Number.isInteger(reportId)) return null;
+  const report = dbGetReport(reportId);
+  if (!report) return null;
+
+  const citedChunkIds = Object.values(parseCitationMap(report.markdown));
+  const cited = new Map(
+    (await getLineageStore().getChunks(citedChunkIds)).map((chunk) => [chunk.chunk_id, chunk])
+  );
+  return [
+    ...lintReportMarkdown(report.markdown, (chunkId) => cited.get(chunkId) ?? null),
+    ...(await lintChunks(citedChunkIds)),
+  ];
+}
+
+/**
+ * Markers in chunk text that have no citations row and quoted passages missing from the cited chunk;
+ * lints every insight chunk when no ids are given
+ */
+export async function lintChunks(chunkIds?: string[]): Promise<LintIssue[]> {
+  const store = getLineageStore();
+  const issues: LintIssue[] = [];
+
+  for (const chunkId of new Set(chunkIds ?? (await store.listChunkIds("insight")))) {
+    const chunk = await store.getChunk(chunkId);
+    if (!chunk) continue;
+
+    const citations = await store.getDirectCitations(chunkId);
+    const quoted = new Map(
+      (
+        await store.getChunks(
+          citations.flatMap((citation) => (citation.quote ? [citation.target_chunk_id] : []))
+        )
+      ).map((target) => [target.chunk_id, target])
+    );
+    const citedMarkers = citations.flatMap((citation) =>
+      citation.citation_marker ? [citation.citation_marker] : []
+    );
+    const quotes = citations.flatMap((citation) => {
+      const target = citation.quote ? quoted.get(citation.target_chunk_id) : undefined;
+      return citation.quote && target
+        ? [
+            {
+              citation_marker: citation.citation_marker,
+              target_chunk_id: citation.target_chunk_id,
+              target_text: target.text,
+              quote: {
+                text: citation.quote,
+                start: citation.quote_start ?? null,
+                end: citation.quote_end ?? null,
+              },
+            },
+          ]
+        : [];
+    });
+    issues.push(
+      ...lintChunkText(chunkId, chunk.text, citedMarkers),
+      ...lintCitationQuotes(chunkId, chunk.text, quotes)
+    );
+  }
+
+  return issues;
+}
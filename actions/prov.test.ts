@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { initDb, insertChunksWithCitations, insertReport, resetDb } from "@/db";
+import { exportChunkProv, exportReportProv } from "./prov";
+
+beforeEach(() => {
+  resetDb();
+  initDb();
+  insertChunksWithCitations(
+    [
+      { chunk_id: "raw_survey", text: "Adoption reached 78% in Q3 2024.", stage: 0, type: "raw" },
+      { chunk_id: "raw_financials", text: "Revenue grew 24% to $145M.", stage: 0, type: "raw" },
+      { chunk_id: "ins_adoption", text: "Adoption is high[1].", stage: 1, type: "insight", author: "ana@consulting.com" },
+      { chunk_id: "ins_revenue", text: "Revenue follows adoption[1][2].", stage: 1, type: "insight" },
+    ],
+    [
+      { source_chunk_id: "ins_adoption", target_chunk_id: "raw_survey", citation_marker: "[1]" },
+      { source_chunk_id: "ins_revenue", target_chunk_id: "raw_survey", citation_marker: "[1]" },
+      { source_chunk_id: "ins_revenue", target_chunk_id: "raw_financials", citation_marker: "[2]" },
+    ]
+  );
+});
+
+function parse(result: Awaited<ReturnType<typeof exportChunkProv>>) {
+  if (!result.success) throw new Error(result.errors.join("; "));
+  return JSON.parse(result.content) as Record<string, Record<string, Record<string, string>>>;
+}
+
+describe("exportChunkProv", () => {
+  it("exports the chunk's whole lineage as PROV-JSON", async () => {
+    const result = await exportChunkProv("ins_revenue", "prov-json");
+
+    expect(result).toMatchObject({ success: true, filename: "lineage-ins_revenue.prov.json", mime_type: "application/json" });
+    const json = parse(result);
+    expect(Object.keys(json.entity).sort()).toEqual(["chunk:ins_revenue", "chunk:raw_financials", "chunk:raw_survey"]);
+    expect(Object.values(json.wasDerivedFrom).map((item) => item["prov:usedEntity"]).sort()).toEqual([
+      "chunk:raw_financials",
+      "chunk:raw_survey",
+    ]);
+  });
+
+  it("exports Turtle with the author as an agent", async () => {
+    const result = await exportChunkProv("ins_adoption", "turtle");
+
+    expect(result).toMatchObject({ success: true, filename: "lineage-ins_adoption.prov.ttl", mime_type: "text/turtle" });
+    expect(result.success && result.content).toContain("prov:wasAttributedTo agent:ana%40consulting%2Ecom");
+  });
+
+  it("rejects an unknown chunk", async () => {
+    expect(await exportChunkProv("missing", "prov-json")).toEqual({ success: false, errors: ["Chunk missing not found"] });
+  });
+});
+
+describe("exportReportProv", () => {
+  it("merges the lineages of every References entry under the report entity", async () => {
+    const reportId = insertReport(
+      { title: "Growth Review", status: "published", markdown: "A[1] B[2]" },
+      { "[1]": "ins_adoption", "[2]": "ins_revenue" }
+    );
+
+    const json = parse(await exportReportProv(reportId, "prov-json"));
+
+    expect(Object.keys(json.entity).sort()).toEqual([
+      "chunk:ins_adoption",
+      "chunk:ins_revenue",
+      "chunk:raw_financials",
+      "chunk:raw_survey",
+      `report:${reportId}`,
+    ]);
+    // raw_survey is reached from both chunks but each citation appears once
+    expect(Object.values(json.wasDerivedFrom)).toHaveLength(5);
+  });
+
+  it("rejects an unknown report", async () => {
+    expect(await exportReportProv(404, "turtle")).toEqual({ success: false, errors: ["Report 404 not found"] });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Server actions for exporting chunk or report lineage as W3C PROV.
+ *
+ * Input data sources: Lineage graphs (actions/lineage.ts), reports and report_citations via db/index.ts
+ * Output destinations: Downloadable PROV-JSON or Turtle files in the lineage sheet
+ * Dependencies: actions/lineage.ts (getFullLineage, getFullLineages), db/index.ts (report queries),
+ *   lib/prov.ts (serializers)
+ * Key exports: exportChunkProv, exportReportProv
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import {
+  getReport as dbGetReport,
+  getReportCitations as dbGetReportCitations,
+} from "@/db";
+import { getFullLineage, getFullLineages } from "./lineage";
+import { MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import {
+  buildProvDocument,
+  toProvJson,
+  toProvTurtle,
+  type ProvInput,
+} from "@/lib/prov";
+import type {
+  Chunk,
+  FileExportResult,
+  LineageEdge,
+  ProvFormat,
+} from "@/lib/types";
+
+export async function exportChunkProv(
+  chunkId: string,
+  format: ProvFormat
+): Promise<FileExportResult> {
+  const lineage = await getFullLineage(chunkId, MAX_DEPTH_LIMIT);
+  if (lineage.nodes.length === 0) {
+    return { success: false, errors: [`Chunk ${chunkId} not found`] };
+  }
+
+  return serialize(
+    {
+      chunks: lineage.nodes.map((node) => node.chunk),
+      edges: lineage.edges,
+    },
+    `lineage-${chunkId}`,
+    format
+  );
+}
+
+/**
+ * The report plus the full lineage of every chunk in its References section
+ */
+export async function exportReportProv(
+  reportId: number,
+  format: ProvFormat
+): Promise<FileExportResult> {
+  const report = Number.isInteger(reportId) ? dbGetReport(reportId) : null;
+  if (!report) {
+    return { success: false, errors: [`Report ${reportId} not found`] };
+  }
+
+  const citations = dbGetReportCitations(reportId);
+  const chunks = new Map<string, Chunk>();
+  const edges = new Map<string, LineageEdge>();
+
+  const lineages = await getFullLineages(
+    citations.map(({ chunk_id }) => chunk_id),
+    MAX_DEPTH_LIMIT
+  );
+  for (const lineage of Object.values(lineages)) {
+    for (const node of lineage.nodes) {
+      chunks.set(node.chunk_id, node.chunk);
+    }
+    for (const edge of lineage.edges) {
+      edges.set(
+        `${edge.source_chunk_id}|${edge.target_chunk_id}|${edge.citation_marker ?? ""}`,
+        edge
+      );
+    }
+  }
+
+  return serialize(
+    {
+      chunks: [...chunks.values()],
+      edges: [...edges.values()],
+      report: {
+        id: report.id,
+        title: report.title,
+        author: report.author,
+        created_at: report.created_at,
+        citations: citations.map(({ citation_marker, chunk_id }) => ({
+          marker: citation_marker,
+          chunk_id,
+        })),
+      },
+    },
+    `report-${reportId}`,
+    format
+  );
+}
+
+function serialize(
+  input: ProvInput,
+  basename: string,
+  format: ProvFormat
+): FileExportResult {
+  const doc = buildProvDocument(input);
+
+  return format === "turtle"
+    ? {
+        success: true,
+        filename: `${basename}.prov.ttl`,
+        mime_type: "text/turtle",
+        content: toProvTurtle(doc),
+      }
+    : {
+        success: true,
+        filename: `${basename}.prov.json`,
+        mime_type: "application/json",
+        content: JSON.stringify(toProvJson(doc), null, 2),
+      };
+}
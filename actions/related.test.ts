@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getDb, initDb, insertChunksWithCitations, resetDb } from "@/db";
+import { ingestReport } from "./ingest";
+import { getRelatedChunks } from "./related";
+import { supersedeChunk } from "./supersede";
+
+const indexedChunkIds = () =>
+  (getDb().prepare("SELECT DISTINCT chunk_id FROM chunk_terms ORDER BY chunk_id").all() as { chunk_id: string }[]).map(
+    (row) => row.chunk_id
+  );
+
+async function ingest(title: string, paragraphs: string[], reportId?: number) {
+  const result = await ingestReport({
+    markdown: `# ${title}\n\n${paragraphs.join("\n\n")}\n\n---\n\n## References\n\n[1] raw_survey\n[2] raw_churn\n`,
+    author: "analyst@consulting.com",
+    reportId,
+  });
+  if (!result.success) throw new Error(result.errors.join("; "));
+  return result;
+}
+
+beforeEach(() => {
+  resetDb();
+  initDb();
+  insertChunksWithCitations(
+    [
+      { chunk_id: "raw_survey", text: "Enterprise adoption reached 78% in Q3 2024.", stage: 0, type: "raw" },
+      { chunk_id: "raw_churn", text: "Enterprise churn fell to 5% after onboarding changes.", stage: 0, type: "raw" },
+    ],
+    []
+  );
+});
+
+describe("similarity index maintenance", () => {
+  it("indexes new chunks on ingest without a full rebuild", async () => {
+    await ingest("Adoption", ["Enterprise adoption is accelerating[1]."]);
+
+    // The raw chunks were inserted directly and never indexed; ingest only adds its own chunk
+    expect(indexedChunkIds()).toEqual(["ins_adoption_chunk_1"]);
+  });
+
+  it("moves the index entry from a superseded chunk to its replacement", async () => {
+    await ingest("Adoption", ["Enterprise adoption is accelerating[1]."]);
+    const result = await supersedeChunk({
+      chunkId: "ins_adoption_chunk_1",
+      text: "Enterprise adoption accelerated through Q3[1].",
+    });
+
+    expect(result.success).toBe(true);
+    expect(indexedChunkIds()).toEqual(["ins_adoption_chunk_1_v2"]);
+  });
+});
+
+describe("getRelatedChunks", () => {
+  it("leaves out other chunks with the same text", async () => {
+    const paragraph = "Enterprise churn is falling while adoption grows[1].";
+    const first = await ingest("Retention", [paragraph, "Onboarding changes cut enterprise churn[2]."]);
+    await ingest("Retention Copy", [paragraph]);
+
+    const related = await getRelatedChunks(first.chunks[0].chunk_id);
+
+    expect(related.map((row) => row.chunk.chunk_id)).toEqual(["ins_retention_chunk_2"]);
+  });
+
+  it("leaves out the earlier version of a revised paragraph", async () => {
+    const first = await ingest("Retention", [
+      "Enterprise churn is falling while adoption grows[1].",
+      "Onboarding changes cut enterprise churn[2].",
+    ]);
+    const second = await ingest(
+      "Retention",
+      ["Enterprise churn is falling fast while adoption grows[1].", "Onboarding changes cut enterprise churn[2]."],
+      first.report_id
+    );
+
+    const revised = second.chunks[0];
+    expect(revised.status).toBe("revised");
+
+    const related = await getRelatedChunks(revised.chunk_id);
+    expect(related.map((row) => row.chunk.chunk_id)).toEqual(["ins_retention_chunk_2"]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Server action suggesting chunks that say similar things to a chunk but are not part of its lineage.
+ *
+ * Input data sources: chunk_terms similarity index via db/index.ts, lineage graphs (actions/lineage.ts)
+ * Output destinations: "Related but not cited" sections of CitationPopover and LineageSheet
+ * Dependencies: db/index.ts (getSimilarChunks), actions/lineage.ts (chunks, lineage and dependents),
+ *   lib/similarity.ts (limits), lib/types.ts (RelatedChunk)
+ * Key exports: getRelatedChunks
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import { getSimilarChunks } from "@/db";
+import { getChunks, getDependents, getFullLineage } from "./lineage";
+import { MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import { DEFAULT_RELATED_LIMIT, MIN_RELATED_SCORE } from "@/lib/similarity";
+import type { RelatedChunk } from "@/lib/types";
+
+/**
+ * Most similar chunks by TF-IDF cosine similarity, leaving out the chunk's own lineage and
+ * dependents, superseded chunks, copies of the same text (e.g. an earlier revision's paragraph)
+ * and any excludeChunkIds (e.g. everything a report already cites)
+ */
+export async function getRelatedChunks(
+  chunkId: string,
+  excludeChunkIds: string[] = [],
+  limit: number = DEFAULT_RELATED_LIMIT
+): Promise<RelatedChunk[]> {
+  const [lineage, dependents] = await Promise.all([
+    getFullLineage(chunkId, MAX_DEPTH_LIMIT),
+    getDependents(chunkId, MAX_DEPTH_LIMIT),
+  ]);
+  const excluded = new Set([
+    chunkId,
+    ...excludeChunkIds,
+    ...lineage.nodes.map((node) => node.chunk_id),
+    ...dependents.nodes.map((node) => node.chunk_id),
+  ]);
+
+  const candidates = getSimilarChunks(chunkId, MIN_RELATED_SCORE).filter(
+    (row) => !excluded.has(row.chunk_id)
+  );
+  const chunks = new Map(
+    (await getChunks(candidates.map((row) => row.chunk_id))).map((chunk) => [chunk.chunk_id, chunk])
+  );
+
+  const root = lineage.nodes.find((node) => node.chunk_id === chunkId)?.chunk;
+  const ownText = root ? normalizeText(root.text) : null;
+
+  return candidates
+    .flatMap((row) => {
+      const chunk = chunks.get(row.chunk_id);
+      return chunk &&
+        !chunk.superseded_by &&
+        chunk.status !== "superseded" &&
+        normalizeText(chunk.text) !== ownText
+        ? [{ chunk, score: row.score, shared_terms: row.shared_terms }]
+        : [];
+    })
+    .slice(0, limit);
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
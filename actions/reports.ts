@@ -0,0 +1,114 @@
+/**
+ * Server actions for the persistent report library and its revision history.
+ *
+ * Input data sources: SQLite reports, report_citations and report_revisions tables via db/index.ts,
+ *   lineage graphs (actions/lineage.ts) for the raw sources behind each revision
+ * Output destinations: /reports index, /reports/[id] and /reports/[id]/history pages
+ * Dependencies: db/index.ts (report queries), lib/report-diff.ts (diffs), lib/source-reference.ts,
+ *   lib/types.ts (Report types)
+ * Key exports: listReports, getReport, listReportRevisions, getReportDiff
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import {
+  getReport as dbGetReport,
+  getReportRevision as dbGetReportRevision,
+  listReportRevisions as dbListReportRevisions,
+  listReports as dbListReports,
+} from "@/db";
+import { getFullLineages } from "./lineage";
+import { MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import {
+  citedMarkers,
+  diffCitations,
+  diffLines,
+  diffRawSources,
+} from "@/lib/report-diff";
+import { formatSourceReference } from "@/lib/source-reference";
+import type {
+  Report,
+  ReportDiff,
+  ReportRevision,
+  ReportSummary,
+} from "@/lib/types";
+
+export async function listReports(): Promise<ReportSummary[]> {
+  return dbListReports();
+}
+
+export async function getReport(reportId: number): Promise<Report | null> {
+  if (!Number.isInteger(reportId)) return null;
+  return dbGetReport(reportId);
+}
+
+export async function listReportRevisions(
+  reportId: number
+): Promise<ReportRevision[]> {
+  if (!Number.isInteger(reportId)) return [];
+  return dbListReportRevisions(reportId);
+}
+
+/**
+ * Text, References and raw-source changes from one revision to another;
+ * null when the report or either revision does not exist
+ */
+export async function getReportDiff(
+  reportId: number,
+  fromRevision: number,
+  toRevision: number
+): Promise<ReportDiff | null> {
+  if (![reportId, fromRevision, toRevision].every(Number.isInteger)) return null;
+  const from = dbGetReportRevision(reportId, fromRevision);
+  const to = dbGetReportRevision(reportId, toRevision);
+  if (!from || !to) return null;
+
+  const references = new Map<string, string | null>();
+  const fromSources = await rawSourcesOf(from.markdown, references);
+  const toSources = await rawSourcesOf(to.markdown, references);
+
+  return {
+    report_id: reportId,
+    from: withoutMarkdown(from),
+    to: withoutMarkdown(to),
+    lines: diffLines(from.markdown, to.markdown),
+    citations: diffCitations(from.markdown, to.markdown),
+    raw_sources: diffRawSources(fromSources, toSources, references),
+  };
+}
+
+/**
+ * Raw chunks reached by the full lineage of every chunk the revision references;
+ * records each one's formatted source reference in `references`
+ */
+async function rawSourcesOf(
+  markdown: string,
+  references: Map<string, string | null>
+): Promise<string[]> {
+  const sources = new Set<string>();
+
+  const chunkIds = [...citedMarkers(markdown).values()].filter(
+    (chunkId): chunkId is string => chunkId !== null
+  );
+  const lineages = await getFullLineages(chunkIds, MAX_DEPTH_LIMIT);
+  for (const lineage of Object.values(lineages)) {
+    for (const node of lineage.nodes) {
+      if (node.chunk.type !== "raw") continue;
+      sources.add(node.chunk_id);
+      references.set(node.chunk_id, formatSourceReference(node.chunk));
+    }
+  }
+
+  return [...sources];
+}
+
+function withoutMarkdown(revision: ReportRevision): Omit<ReportRevision, "markdown"> {
+  return {
+    report_id: revision.report_id,
+    revision: revision.revision,
+    title: revision.title,
+    author: revision.author,
+    created_at: revision.created_at,
+  };
+}
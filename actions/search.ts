@@ -0,0 +1,30 @@
+/**
+ * Server action for full-text search over the knowledge base.
+ *
+ * Input data sources: SQLite FTS5 index (content_fts) via db/index.ts
+ * Output destinations: Search page and citation picker
+ * Dependencies: db/index.ts (searchChunks), lib/search-utils.ts (query building)
+ * Key exports: searchChunks
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import { searchChunks as dbSearchChunks } from "@/db";
+import { toFtsQuery } from "@/lib/search-utils";
+import type { SearchFilters, SearchResult } from "@/lib/types";
+
+export async function searchChunks(
+  query: string,
+  filters: SearchFilters = {}
+): Promise<SearchResult[]> {
+  const rows = dbSearchChunks(toFtsQuery(query), {
+    stage: filters.stage,
+    type: filters.type,
+    author: filters.author?.trim() || undefined,
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+  });
+
+  return rows.map(({ snippet, ...chunk }) => ({ chunk, snippet }));
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  getChunk,
+  getDb,
+  getDirectCitations,
+  initDb,
+  insertChunksWithCitations,
+  listChunkTexts,
+  replaceChunkTerms,
+  resetDb,
+} from "@/db";
+import { buildTermWeights } from "@/lib/similarity";
+import { supersedeChunk } from "./supersede";
+
+function indexedChunkIds(): string[] {
+  return (
+    getDb().prepare("SELECT DISTINCT chunk_id FROM chunk_terms ORDER BY chunk_id").all() as {
+      chunk_id: string;
+    }[]
+  ).map((row) => row.chunk_id);
+}
+
+beforeEach(() => {
+  resetDb();
+  initDb();
+  insertChunksWithCitations(
+    [
+      { chunk_id: "raw_survey", text: "Adoption reached 78% in Q3 2024.", stage: 0, type: "raw" },
+      { chunk_id: "raw_financials", text: "Revenue grew 24% to $145M.", stage: 0, type: "raw" },
+      { chunk_id: "ins_growth", text: "Adoption hit 78%[1] and revenue 24%[2].", stage: 1, type: "insight" },
+    ],
+    [
+      {
+        source_chunk_id: "ins_growth",
+        target_chunk_id: "raw_survey",
+        citation_marker: "[1]",
+        relationship_type: "supports",
+        confidence: 0.7,
+        quote: "78%",
+        quote_start: 17,
+        quote_end: 20,
+      },
+      { source_chunk_id: "ins_growth", target_chunk_id: "raw_financials", citation_marker: "[2]", confidence: 0.9 },
+    ]
+  );
+});
+
+describe("supersedeChunk", () => {
+  it("carries each marker's confidence, quote and relationship over to the replacement", async () => {
+    const result = await supersedeChunk({ chunkId: "ins_growth", text: "Adoption is 78%[1], revenue 24%[2]." });
+
+    expect(result).toEqual({ success: true, chunk_id: "ins_growth_v2" });
+    expect(
+      getDirectCitations("ins_growth_v2").map(
+        ({ citation_marker, relationship_type, confidence, quote, quote_start, quote_end }) => ({
+          citation_marker,
+          relationship_type,
+          confidence,
+          quote,
+          quote_start,
+          quote_end,
+        })
+      )
+    ).toEqual([
+      { citation_marker: "[1]", relationship_type: "supports", confidence: 0.7, quote: "78%", quote_start: 17, quote_end: 20 },
+      { citation_marker: "[2]", relationship_type: "cites", confidence: 0.9, quote: null, quote_start: null, quote_end: null },
+    ]);
+  });
+
+  it("does not carry a quote over to a re-pointed marker", async () => {
+    await supersedeChunk({
+      chunkId: "ins_growth",
+      text: "Revenue 24%[1].",
+      citationMap: { "[1]": "raw_financials" },
+    });
+
+    expect(getDirectCitations("ins_growth_v2")).toMatchObject([
+      { target_chunk_id: "raw_financials", relationship_type: "cites", confidence: 1, quote: null },
+    ]);
+  });
+
+  it("moves the similarity index entry to the replacement", async () => {
+    replaceChunkTerms(buildTermWeights(listChunkTexts()));
+    expect(indexedChunkIds()).toContain("ins_growth");
+
+    await supersedeChunk({ chunkId: "ins_growth", text: "Adoption is 78%[1], revenue 24%[2]." });
+
+    expect(getChunk("ins_growth")?.superseded_by).toBe("ins_growth_v2");
+    expect(indexedChunkIds()).toContain("ins_growth_v2");
+    expect(indexedChunkIds()).not.toContain("ins_growth");
+  });
+
+  it("rejects markers without a citation and writes nothing", async () => {
+    const result = await supersedeChunk({ chunkId: "ins_growth", text: "New claim[3]." });
+
+    expect(result).toEqual({ success: false, errors: ["[3] has no matching citation"] });
+    expect(getChunk("ins_growth_v2")).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Server action for correcting a published chunk by superseding it with a new version.
+ *
+ * Input data sources: Corrected chunk text and optional citation map from the caller
+ * Output destinations: Chunks, citations and supersessions in the configured LineageStore
+ * Dependencies: db/store.ts (chunk lookups, supersedeChunk), lib/markdown-utils.ts (marker extraction),
+ *   lib/relationships.ts (marker relationship suffixes)
+ * Key exports: supersedeChunk
+ * Side effects: Inserts the replacement chunk and its citations and marks the original as superseded in one
+ *   transaction (the SQLite store also moves the similarity index entry to the replacement)
+ */
+
+"use server";
+
+import { getLineageStore } from "@/db/store";
+import type { NewCitation } from "@/db/types";
+import { extractCitationMarkers } from "@/lib/markdown-utils";
+import {
+  DEFAULT_RELATIONSHIP_TYPE,
+  parseMarkerRelationships,
+} from "@/lib/relationships";
+import type {
+  CitationMap,
+  SupersedeChunkInput,
+  SupersedeChunkResult,
+} from "@/lib/types";
+
+export async function supersedeChunk(
+  input: SupersedeChunkInput
+): Promise<SupersedeChunkResult> {
+  const store = getLineageStore();
+  const original = await store.getChunk(input.chunkId);
+  if (!original) {
+    return { success: false, errors: [`Chunk ${input.chunkId} does not exist`] };
+  }
+  if (original.status === "superseded") {
+    return {
+      success: false,
+      errors: [
+        `Chunk ${input.chunkId} is already superseded by ${original.superseded_by}`,
+      ],
+    };
+  }
+
+  // Corrections keep the original's sources unless the caller re-points them
+  const originalCitations = new Map(
+    (await store.getDirectCitations(input.chunkId)).flatMap((citation) =>
+      citation.citation_marker ? [[citation.citation_marker, citation] as const] : []
+    )
+  );
+  const citationMap: CitationMap =
+    input.citationMap ??
+    Object.fromEntries(
+      [...originalCitations].map(([marker, citation]) => [marker, citation.target_chunk_id])
+    );
+
+  // Marker suffixes in the corrected text override the original relationships
+  const { relationships, errors } = parseMarkerRelationships(input.text);
+  const markers = extractCitationMarkers(input.text);
+  const knownTargets = new Set(
+    (await store.getChunks(markers.flatMap((marker) => citationMap[marker] ?? []))).map(
+      (chunk) => chunk.chunk_id
+    )
+  );
+  for (const marker of markers) {
+    const targetId = citationMap[marker];
+    if (!targetId) {
+      errors.push(`${marker} has no matching citation`);
+    } else if (!knownTargets.has(targetId)) {
+      errors.push(`${marker} references unknown chunk ${targetId}`);
+    }
+  }
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const replacementId = await store.getNextVersionId(input.chunkId);
+
+  // A marker still pointing at its original target keeps that citation's confidence and quote
+  const citations = markers.map((marker): NewCitation => {
+    const previous = originalCitations.get(marker);
+    const kept =
+      previous && previous.target_chunk_id === citationMap[marker] ? previous : undefined;
+    return {
+      source_chunk_id: replacementId,
+      target_chunk_id: citationMap[marker],
+      citation_marker: marker,
+      relationship_type:
+        relationships[marker] ?? kept?.relationship_type ?? DEFAULT_RELATIONSHIP_TYPE,
+      confidence: kept?.confidence,
+      quote: kept?.quote ?? undefined,
+      quote_start: kept?.quote_start ?? undefined,
+      quote_end: kept?.quote_end ?? undefined,
+    };
+  });
+
+  try {
+    await store.supersedeChunk(
+      input.chunkId,
+      {
+        chunk_id: replacementId,
+        text: input.text,
+        stage: original.stage,
+        type: original.type,
+        author: input.author?.trim() || original.author,
+        created_at: new Date().toISOString(),
+        source_title: original.source_title,
+        source_type: original.source_type ?? undefined,
+        reliability: original.reliability ?? undefined,
+        document_id: original.document_id ?? undefined,
+        locator_page: original.locator_page ?? undefined,
+        locator_section: original.locator_section ?? undefined,
+        locator_question: original.locator_question ?? undefined,
+      },
+      citations,
+      input.reason
+    );
+  } catch (error) {
+    return {
+      success: false,
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  }
+
+  return { success: true, chunk_id: replacementId };
+}
@@ -0,0 +1,32 @@
+/**
+ * Server action for temporal integrity checks on a chunk's full citation lineage.
+ *
+ * Input data sources: Lineage graphs (actions/lineage.ts) with created_at on every chunk
+ * Output destinations: Out-of-order and stale-source warnings in the lineage sheet
+ * Dependencies: actions/lineage.ts (getFullLineage), lib/temporal.ts (checkTemporalIntegrity)
+ * Key exports: getTemporalCheck
+ * Side effects: Database reads only (no writes)
+ */
+
+"use server";
+
+import { getFullLineage } from "./lineage";
+import { MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import {
+  checkTemporalIntegrity,
+  DEFAULT_MAX_SOURCE_AGE_DAYS,
+} from "@/lib/temporal";
+import type { TemporalCheck } from "@/lib/types";
+
+/**
+ * Check the whole lineage below chunkId, not just the levels the sheet has loaded;
+ * null for an unknown chunk
+ */
+export async function getTemporalCheck(
+  chunkId: string,
+  maxSourceAgeDays: number = DEFAULT_MAX_SOURCE_AGE_DAYS
+): Promise<TemporalCheck | null> {
+  const lineage = await getFullLineage(chunkId, MAX_DEPTH_LIMIT);
+  if (lineage.nodes.length === 0) return null;
+  return checkTemporalIntegrity(lineage, maxSourceAgeDays);
+}
@@ -0,0 +1,19 @@
+/**
+ * Catch-all for /api/v1 paths without an endpoint.
+ *
+ * Input data sources: Request path
+ * Output destinations: 404 ApiErrorBody JSON
+ * Dependencies: lib/api.ts (ApiError, apiResponse)
+ * Key exports: GET
+ * Side effects: None
+ */
+
+import type { NextRequest } from "next/server";
+import { ApiError, apiResponse } from "@/lib/api";
+
+// Unknown /api/v1 paths get the same JSON error body as the real endpoints
+export async function GET(request: NextRequest) {
+  return apiResponse(() => {
+    throw new ApiError(404, "not_found", `No endpoint at ${request.nextUrl.pathname}`);
+  });
+}
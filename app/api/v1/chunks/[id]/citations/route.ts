@@ -0,0 +1,27 @@
+/**
+ * REST endpoint for a chunk's outgoing citations, each resolved to the chunk it cites.
+ *
+ * Input data sources: Chunk id path segment
+ * Output destinations: CitationListResponse JSON, or a 404 ApiErrorBody for an unknown chunk
+ * Dependencies: actions/lineage.ts (getChunk, getResolvedCitations), lib/api.ts (error bodies)
+ * Key exports: GET
+ * Side effects: Database reads only (no writes)
+ */
+
+import type { NextRequest } from "next/server";
+import { getChunk, getResolvedCitations } from "@/actions/lineage";
+import { apiResponse, chunkNotFound } from "@/lib/api";
+import type { CitationListResponse } from "@/lib/types";
+
+// GET /api/v1/chunks/:id/citations: the chunk's outgoing citations with the chunks they cite
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return apiResponse(async (): Promise<CitationListResponse> => {
+    if (!(await getChunk(id))) throw chunkNotFound(id);
+
+    return { data: await getResolvedCitations(id) };
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * REST endpoint for the lineage graph below a chunk, or the graph of chunks depending on it.
+ *
+ * Input data sources: Chunk id path segment, depth and direction query parameters
+ * Output destinations: LineageResponse JSON, or an ApiErrorBody for an unknown chunk or invalid parameters
+ * Dependencies: actions/lineage.ts (getChunk, getFullLineage, getDependents), lib/api.ts (query parsing,
+ *   error bodies), lib/lineage-graph.ts (depth limits)
+ * Key exports: GET
+ * Side effects: Database reads only (no writes)
+ */
+
+import type { NextRequest } from "next/server";
+import { getChunk, getDependents, getFullLineage } from "@/actions/lineage";
+import { apiResponse, chunkNotFound, enumParam, integerParam } from "@/lib/api";
+import { DEFAULT_MAX_DEPTH, MAX_DEPTH_LIMIT } from "@/lib/lineage-graph";
+import type { LineageResponse } from "@/lib/types";
+
+// GET /api/v1/chunks/:id/lineage?depth=&direction=citations|dependents
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return apiResponse(async (): Promise<LineageResponse> => {
+    const query = request.nextUrl.searchParams;
+    const depth = integerParam(query, "depth", {
+      min: 1,
+      max: MAX_DEPTH_LIMIT,
+      fallback: DEFAULT_MAX_DEPTH,
+    });
+    const direction = enumParam(
+      query,
+      "direction",
+      ["citations", "dependents"] as const,
+      "citations"
+    );
+    if (!(await getChunk(id))) throw chunkNotFound(id);
+
+    return {
+      data:
+        direction === "dependents"
+          ? await getDependents(id, depth)
+          : await getFullLineage(id, depth),
+    };
+  });
+}
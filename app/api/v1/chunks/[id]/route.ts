@@ -0,0 +1,27 @@
+/**
+ * REST endpoint for a single chunk.
+ *
+ * Input data sources: Chunk id path segment
+ * Output destinations: ChunkResponse JSON, or a 404 ApiErrorBody for an unknown chunk
+ * Dependencies: actions/lineage.ts (getChunk), lib/api.ts (error bodies)
+ * Key exports: GET
+ * Side effects: Database reads only (no writes)
+ */
+
+import type { NextRequest } from "next/server";
+import { getChunk } from "@/actions/lineage";
+import { apiResponse, chunkNotFound } from "@/lib/api";
+import type { ChunkResponse } from "@/lib/types";
+
+// GET /api/v1/chunks/:id
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return apiResponse(async (): Promise<ChunkResponse> => {
+    const chunk = await getChunk(id);
+    if (!chunk) throw chunkNotFound(id);
+    return { data: chunk };
+  });
+}
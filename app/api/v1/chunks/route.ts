@@ -0,0 +1,51 @@
+/**
+ * REST endpoint listing chunks, filtered and paginated.
+ *
+ * Input data sources: Query parameters (stage, type, author, status, document_id, from, to, limit, offset)
+ * Output destinations: ChunkListResponse JSON, or an ApiErrorBody for invalid parameters
+ * Dependencies: actions/chunks.ts (listChunks), lib/api.ts (query parsing, error bodies)
+ * Key exports: GET
+ * Side effects: Database reads only (no writes)
+ */
+
+import type { NextRequest } from "next/server";
+import { listChunks } from "@/actions/chunks";
+import {
+  apiResponse,
+  CHUNK_STATUSES,
+  dateParam,
+  DEFAULT_PAGE_SIZE,
+  enumParam,
+  integerParam,
+  MAX_PAGE_SIZE,
+  stringParam,
+} from "@/lib/api";
+import type { ChunkListFilters, ChunkListResponse } from "@/lib/types";
+
+// GET /api/v1/chunks?stage=&type=&author=&status=&document_id=&from=&to=&limit=&offset=
+export async function GET(request: NextRequest) {
+  return apiResponse(async (): Promise<ChunkListResponse> => {
+    const params = request.nextUrl.searchParams;
+    const filters: ChunkListFilters = {
+      stage: integerParam(params, "stage", { min: 0, max: 3 }),
+      type: enumParam(params, "type", ["raw", "insight"] as const),
+      author: stringParam(params, "author"),
+      status: enumParam(params, "status", CHUNK_STATUSES),
+      document_id: stringParam(params, "document_id"),
+      from: dateParam(params, "from"),
+      to: dateParam(params, "to"),
+    };
+    const limit = integerParam(params, "limit", {
+      min: 1,
+      max: MAX_PAGE_SIZE,
+      fallback: DEFAULT_PAGE_SIZE,
+    });
+    const offset = integerParam(params, "offset", {
+      min: 0,
+      max: Number.MAX_SAFE_INTEGER,
+      fallback: 0,
+    });
+
+    return listChunks(filters, limit, offset);
+  });
+}
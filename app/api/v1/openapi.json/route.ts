@@ -0,0 +1,17 @@
+/**
+ * Serves the OpenAPI document of the /api/v1 endpoints.
+ *
+ * Input data sources: openapi.generated.json (written by scripts/generate-openapi.ts from lib/types.ts)
+ * Output destinations: OpenAPI 3 JSON
+ * Dependencies: next/server (NextResponse)
+ * Key exports: GET
+ * Side effects: None
+ */
+
+import { NextResponse } from "next/server";
+import document from "./openapi.generated.json";
+
+// GET /api/v1/openapi.json: regenerate with `npm run openapi` after changing the API types
+export async function GET() {
+  return NextResponse.json(document);
+}
@@ -0,0 +1,41 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { InsightEditor } from "@/components/insight-editor";
+import { getReport } from "@/actions/reports";
+
+// Reads the database on every request (?report=<id> revises a stored report)
+export const dynamic = "force-dynamic";
+
+export default async function AuthorPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ report?: string }>;
+}) {
+  const { report: reportParam } = await searchParams;
+  const report = reportParam ? await getReport(Number(reportParam)) : null;
+
+  if (reportParam && !report) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto py-8 px-4 max-w-6xl">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">
+            {report ? `Revise: ${report.title}` : "Write an Insight"}
+          </h1>
+          <p className="text-muted-foreground">
+            Search for a source and click &quot;Insert Citation&quot; to add a
+            marker at the cursor and its entry in the References section.{" "}
+            <Link href="/reports" className="underline">
+              Back to reports
+            </Link>
+          </p>
+        </header>
+
+        <InsightEditor report={report ?? undefined} />
+      </main>
+    </div>
+  );
+}
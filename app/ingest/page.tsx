@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ingestReport } from "@/actions/ingest";
+import type { IngestReportResult } from "@/lib/types";
+
+const PLACEHOLDER = `# Survey Analysis Q3 2024
+Author: analyst@consulting.com
+
+Enterprise AI analytics adoption reached 78% in Q3 2024[1].
+
+---
+
+## References
+
+[1] raw_market_survey_chunk_1 - Enterprise AI Adoption Survey Q3 2024`;
+
+export default function IngestPage() {
+  const [markdown, setMarkdown] = useState("");
+  const [author, setAuthor] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<IngestReportResult | null>(null);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      setResult(await ingestReport({ markdown, author }));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto py-8 px-4 max-w-4xl">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Ingest Insight Report</h1>
+          <p className="text-muted-foreground">
+            Paste a report with inline citation markers and a References
+            section. Each paragraph becomes an insight chunk linked to the
+            chunks it cites.{" "}
+            <Link href="/reports" className="underline">
+              Back to reports
+            </Link>
+          </p>
+        </header>
+
+        <div className="space-y-4">
+          <input
+            className="w-full rounded-md border px-3 py-2 text-sm bg-background"
+            placeholder="Author email (optional if the report has an Author: line)"
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+          />
+          <textarea
+            className="w-full min-h-80 rounded-md border px-3 py-2 font-mono text-sm bg-background"
+            placeholder={PLACEHOLDER}
+            value={markdown}
+            onChange={(e) => setMarkdown(e.target.value)}
+          />
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || markdown.trim().length === 0}
+          >
+            {submitting ? "Ingesting..." : "Ingest Report"}
+          </Button>
+        </div>
+
+        {result && !result.success && (
+          <Card className="mt-6 p-4 border-red-300 dark:border-red-800">
+            <p className="text-sm font-medium text-red-600 dark:text-red-400">
+              Report rejected
+            </p>
+            <ul className="list-disc pl-5 text-sm">
+              {result.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        {result && result.success && (
+          <div className="mt-6 space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Created {result.chunks.length} chunk
+              {result.chunks.length !== 1 ? "s" : ""} ·{" "}
+              <Link href={`/reports/${result.report_id}`} className="underline">
+                View report
+              </Link>
+            </p>
+            {result.chunks.map((chunk) => (
+              <Card key={chunk.chunk_id} className="p-4">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge className="bg-blue-500 text-white">
+                    {chunk.chunk_id}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    Stage {chunk.stage}
+                  </span>
+                </div>
+                <p className="text-sm leading-relaxed">{chunk.text}</p>
+                {chunk.citations.map(({ marker, target_chunk_id }) => (
+                  <p key={marker} className="text-xs text-muted-foreground">
+                    {marker} → {target_chunk_id}
+                  </p>
+                ))}
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
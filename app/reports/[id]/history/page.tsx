@@ -0,0 +1,126 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { ReportDiffView } from "@/components/report-diff-view";
+import {
+  getReport,
+  getReportDiff,
+  listReportRevisions,
+} from "@/actions/reports";
+
+// Reads the database on every request
+export const dynamic = "force-dynamic";
+
+export default async function ReportHistoryPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const { id } = await params;
+  const report = await getReport(Number(id));
+
+  if (!report) {
+    notFound();
+  }
+
+  const revisions = await listReportRevisions(report.id);
+  const latest = revisions[revisions.length - 1]?.revision ?? 1;
+  // Default to the latest change: previous revision against the current one
+  const query = await searchParams;
+  const to = query.to ? Number(query.to) : latest;
+  const from = query.from ? Number(query.from) : Math.max(1, to - 1);
+  const diff =
+    revisions.length > 1 ? await getReportDiff(report.id, from, to) : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto py-8 px-4 max-w-4xl">
+        <nav className="mb-6 text-sm">
+          <Link href={`/reports/${report.id}`} className="underline">
+            ← Back to report
+          </Link>
+        </nav>
+
+        <header className="mb-6">
+          <h1 className="text-3xl font-bold mb-2">{report.title}</h1>
+          <p className="text-muted-foreground">
+            {revisions.length} revision{revisions.length !== 1 ? "s" : ""}.
+            Compare any two to see text changes, citations added, removed or
+            re-pointed, and how the underlying raw sources changed.
+          </p>
+        </header>
+
+        <ol className="mb-6 space-y-1 text-sm">
+          {[...revisions].reverse().map((revision) => (
+            <li key={revision.revision} className="flex items-center gap-2">
+              <span className="font-medium">Revision {revision.revision}</span>
+              <span className="text-muted-foreground">
+                {[
+                  revision.created_at &&
+                    new Date(revision.created_at).toLocaleString(),
+                  revision.author?.split("@")[0],
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </span>
+              {revision.revision > 1 && (
+                <Link
+                  href={`/reports/${report.id}/history?from=${revision.revision - 1}&to=${revision.revision}`}
+                  className="underline text-xs"
+                >
+                  Changes
+                </Link>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        {revisions.length > 1 && (
+          <form className="mb-8 flex items-center gap-2 text-sm">
+            Compare revision
+            <select
+              name="from"
+              defaultValue={from}
+              className="rounded-md border px-2 py-1 text-sm bg-background"
+            >
+              {revisions.map((revision) => (
+                <option key={revision.revision} value={revision.revision}>
+                  {revision.revision}
+                </option>
+              ))}
+            </select>
+            with
+            <select
+              name="to"
+              defaultValue={to}
+              className="rounded-md border px-2 py-1 text-sm bg-background"
+            >
+              {revisions.map((revision) => (
+                <option key={revision.revision} value={revision.revision}>
+                  {revision.revision}
+                </option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" type="submit">
+              Compare
+            </Button>
+          </form>
+        )}
+
+        {revisions.length <= 1 ? (
+          <p className="text-muted-foreground">
+            This report has not been revised since it was first saved.
+          </p>
+        ) : diff ? (
+          <ReportDiffView diff={diff} />
+        ) : (
+          <p className="text-muted-foreground">
+            Revision {from} or {to} does not exist.
+          </p>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ReportViewer } from "@/components/report-viewer";
+import { getReport } from "@/actions/reports";
+import { lintReport } from "@/actions/lint";
+
+// Reads the database on every request
+export const dynamic = "force-dynamic";
+
+export default async function ReportPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const report = await getReport(Number(id));
+
+  if (!report) {
+    notFound();
+  }
+
+  const lintIssues = (await lintReport(report.id)) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto py-8 px-4 max-w-4xl">
+        <nav className="mb-6 text-sm">
+          <Link href="/reports" className="underline">
+            ← All reports
+          </Link>
+          {report.author && (
+            <span className="text-muted-foreground ml-4">
+              by {report.author.split("@")[0]}
+            </span>
+          )}
+          <Link href={`/reports/${report.id}/history`} className="underline ml-4">
+            History
+          </Link>
+          <Link href={`/author?report=${report.id}`} className="underline ml-4">
+            Revise
+          </Link>
+        </nav>
+
+        <ReportViewer report={report} lintIssues={lintIssues} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { listReports } from "@/actions/reports";
+
+// Reads the database on every request
+export const dynamic = "force-dynamic";
+
+export default async function ReportsPage() {
+  const reports = await listReports();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto py-8 px-4 max-w-4xl">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Citation Lineage Demo</h1>
+          <p className="text-muted-foreground">
+            Open a report, hover over citations to see source preview, click
+            &quot;View Full&quot; to explore complete lineage
+          </p>
+          <nav className="mt-2 text-sm">
+            <Link href="/search" className="underline mr-4">
+              Search
+            </Link>
+            <Link href="/author" className="underline mr-4">
+              Write an insight
+            </Link>
+            <Link href="/ingest" className="underline">
+              Ingest a report
+            </Link>
+          </nav>
+        </header>
+
+        {reports.length === 0 ? (
+          <p className="text-muted-foreground">
+            No reports yet. Run <code>npx tsx db/seed.ts</code> or ingest one.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {reports.map((report) => (
+              <Link key={report.id} href={`/reports/${report.id}`} className="block">
+                <Card className="p-4 hover:bg-accent/50">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <h2 className="font-semibold">{report.title}</h2>
+                    <Badge
+                      className={
+                        report.status === "published"
+                          ? "bg-green-600 text-white"
+                          : "bg-gray-500 text-white"
+                      }
+                    >
+                      {report.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      report.author?.split("@")[0],
+                      report.updated_at &&
+                        new Date(report.updated_at).toLocaleDateString(),
+                      `${report.citation_count} citation${
+                        report.citation_count !== 1 ? "s" : ""
+                      }`,
+                      report.revision_count > 1 &&
+                        `${report.revision_count} revisions`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { HighlightedSnippet } from "@/components/highlighted-snippet";
+import { LineageSheet } from "@/components/lineage-sheet";
+import { searchChunks } from "@/actions/search";
+import type { SearchFilters, SearchResult } from "@/lib/types";
+
+const STAGE_OPTIONS = [
+  { value: "", label: "Any stage" },
+  { value: "0", label: "Raw (0)" },
+  { value: "1", label: "Insight (1)" },
+  { value: "2", label: "Synthesis (2)" },
+  { value: "3", label: "Executive (3)" },
+];
+
+export default function SearchPage() {
+  const [query, setQuery] = useState("");
+  const [stage, setStage] = useState("");
+  const [type, setType] = useState("");
+  const [author, setAuthor] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [selectedChunk, setSelectedChunk] = useState<string | null>(null);
+  const [sheetOpen, setSheetOpen] = useState(false);
+
+  const handleSearch = async () => {
+    const filters: SearchFilters = {
+      stage: stage === "" ? undefined : parseInt(stage, 10),
+      type: type === "" ? undefined : (type as SearchFilters["type"]),
+      author,
+      from,
+      to,
+    };
+
+    setSearching(true);
+    try {
+      setResults(await searchChunks(query, filters));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleResultClick = (chunkId: string) => {
+    setSelectedChunk(chunkId);
+    setSheetOpen(true);
+  };
+
+  const inputClass = "rounded-md border px-3 py-2 text-sm bg-background";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto py-8 px-4 max-w-4xl">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Search Knowledge Base</h1>
+          <p className="text-muted-foreground">
+            Full-text search over chunk text and source titles. Click a result
+            to explore its lineage.{" "}
+            <Link href="/reports" className="underline">
+              Back to reports
+            </Link>
+          </p>
+        </header>
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSearch();
+          }}
+        >
+          <div className="flex gap-2">
+            <input
+              className={`${inputClass} flex-1`}
+              placeholder="Search text, e.g. cloud adoption"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <Button type="submit" disabled={searching}>
+              {searching ? "Searching..." : "Search"}
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <select
+              className={inputClass}
+              value={stage}
+              onChange={(e) => setStage(e.target.value)}
+            >
+              {STAGE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className={inputClass}
+              value={type}
+              onChange={(e) => setType(e.target.value)}
+            >
+              <option value="">Any type</option>
+              <option value="raw">Raw</option>
+              <option value="insight">Insight</option>
+            </select>
+            <input
+              className={inputClass}
+              placeholder="Author"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+            />
+            <input
+              type="date"
+              className={inputClass}
+              aria-label="Created from"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+            <input
+              type="date"
+              className={inputClass}
+              aria-label="Created to"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </form>
+
+        {results && (
+          <div className="mt-6 space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {results.length} result{results.length !== 1 ? "s" : ""}
+            </p>
+            {results.map(({ chunk, snippet }) => (
+              <Card
+                key={chunk.chunk_id}
+                className="p-4 cursor-pointer hover:bg-accent/50"
+                onClick={() => handleResultClick(chunk.chunk_id)}
+              >
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge
+                    className={
+                      chunk.type === "insight"
+                        ? "bg-blue-500 text-white"
+                        : "bg-gray-500 text-white"
+                    }
+                  >
+                    {chunk.chunk_id}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    Stage {chunk.stage}
+                  </span>
+                  {chunk.superseded_by && (
+                    <Badge className="bg-amber-500 text-white">Superseded</Badge>
+                  )}
+                </div>
+                <HighlightedSnippet
+                  snippet={snippet}
+                  className="text-sm leading-relaxed"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    chunk.source_title,
+                    chunk.author?.split("@")[0],
+                    chunk.created_at &&
+                      new Date(chunk.created_at).toLocaleDateString(),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <LineageSheet
+          open={sheetOpen}
+          onOpenChange={setSheetOpen}
+          chunkId={selectedChunk}
+        />
+      </main>
+    </div>
+  );
+}
@@ -3,7 +3,8 @@
  *
  * Input data sources: Chunk data from parent component
  * Output destinations: Triggers onViewFull callback for lineage sheet
- * Dependencies: CitationPopover component, Chunk type
+ * Dependencies: CitationPopover, ConfidenceBadge, RelationshipBadge, Chunk, ClaimCheck, ConfidenceResult and
+ *   RelationshipType types
  * Key exports: CitationLink component
  * Side effects: None
  */
@@ -12,19 +13,36 @@
 
 import { useState } from "react";
 import { CitationPopover } from "./citation-popover";
-import type { Chunk } from "@/lib/types";
+import { ConfidenceBadge } from "./confidence-badge";
+import { RelationshipBadge } from "./relationship-badge";
+import type {
+  Chunk,
+  ClaimCheck,
+  ConfidenceResult,
+  RelationshipType,
+} from "@/lib/types";
 
 interface CitationLinkProps {
   marker: string; // e.g., "[1]"
+  relationship?: RelationshipType; // From a "[1:contradicts]" marker
   chunkId: string;
   chunk: Chunk | null;
+  claims?: ClaimCheck[];
+  confidence?: ConfidenceResult;
+  quote?: string; // Quoted passage from the References entry
+  citedChunkIds?: string[]; // Every chunk the report cites
   onViewFull: (chunkId: string) => void;
 }
 
 export function CitationLink({
   marker,
+  relationship,
   chunkId,
   chunk,
+  claims,
+  confidence,
+  quote,
+  citedChunkIds,
   onViewFull,
 }: CitationLinkProps) {
   const [open, setOpen] = useState(false);
@@ -35,6 +53,10 @@ export function CitationLink({
       onOpenChange={setOpen}
       marker={marker}
       chunk={chunk}
+      claims={claims}
+      confidence={confidence}
+      quote={quote}
+      citedChunkIds={citedChunkIds}
       onViewFull={() => {
         setOpen(false);
         onViewFull(chunkId);
@@ -47,6 +69,8 @@ export function CitationLink({
         onClick={() => onViewFull(chunkId)}
       >
         {marker}
+        <RelationshipBadge type={relationship} className="ml-0.5" />
+        <ConfidenceBadge result={confidence} className="ml-0.5" />
       </span>
     </CitationPopover>
   );
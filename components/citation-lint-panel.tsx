@@ -0,0 +1,70 @@
+/**
+ * Warnings panel listing citation lint issues for a report and the chunks it cites.
+ *
+ * Input data sources: LintIssue array from lintReport
+ * Output destinations: Panel above the rendered report, triggers onSelectChunk for chunk-level issues
+ * Dependencies: LintIssue type
+ * Key exports: CitationLintPanel component
+ * Side effects: None
+ */
+
+"use client";
+
+import type { LintIssue } from "@/lib/types";
+
+interface CitationLintPanelProps {
+  issues: LintIssue[];
+  onSelectChunk?: (chunkId: string) => void;
+}
+
+export function CitationLintPanel({ issues, onSelectChunk }: CitationLintPanelProps) {
+  if (issues.length === 0) return null;
+
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+  const hasErrors = errorCount > 0;
+
+  return (
+    <div
+      className={`mb-6 rounded-md border p-3 text-sm space-y-2 ${
+        hasErrors
+          ? "border-red-400 bg-red-50 dark:bg-red-950 text-red-800 dark:text-red-300"
+          : "border-amber-400 bg-amber-50 dark:bg-amber-950 text-amber-800 dark:text-amber-300"
+      }`}
+    >
+      <p className="font-medium">
+        Citation lint: {errorCount} error{errorCount !== 1 ? "s" : ""},{" "}
+        {warningCount} warning{warningCount !== 1 ? "s" : ""}
+      </p>
+      <ul className="space-y-1">
+        {issues.map((issue) => {
+          const chunkId = issue.chunk_id;
+          return (
+            <li
+              key={`${chunkId ?? ""}:${issue.line}:${issue.column}:${issue.rule}`}
+              className="text-xs"
+            >
+              <span className="font-mono">
+                {chunkId ? (
+                  <button
+                    type="button"
+                    className="underline"
+                    onClick={() => onSelectChunk?.(chunkId)}
+                  >
+                    {chunkId}
+                  </button>
+                ) : (
+                  "report"
+                )}
+                :{issue.line}:{issue.column}
+              </span>{" "}
+              <span className="uppercase font-semibold">{issue.severity}</span>{" "}
+              {issue.message}{" "}
+              <span className="opacity-70">({issue.rule})</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
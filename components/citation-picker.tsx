@@ -0,0 +1,119 @@
+/**
+ * Source search panel for authors: find a chunk and insert it as a citation.
+ *
+ * Input data sources: Full-text search results from the searchChunks server action
+ * Output destinations: Triggers onInsert callback with the picked chunk and relationship type
+ * Dependencies: shadcn/ui components (Badge, Button, Card), HighlightedSnippet, actions/search,
+ *   lib/relationships (RELATIONSHIP_TYPES)
+ * Key exports: CitationPicker component
+ * Side effects: Queries the search index via server action
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { HighlightedSnippet } from "./highlighted-snippet";
+import { searchChunks } from "@/actions/search";
+import {
+  DEFAULT_RELATIONSHIP_TYPE,
+  RELATIONSHIP_TYPES,
+} from "@/lib/relationships";
+import type { Chunk, RelationshipType, SearchResult } from "@/lib/types";
+
+interface CitationPickerProps {
+  onInsert: (chunk: Chunk, relationship: RelationshipType) => void;
+}
+
+export function CitationPicker({ onInsert }: CitationPickerProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [relationship, setRelationship] = useState<RelationshipType>(
+    DEFAULT_RELATIONSHIP_TYPE
+  );
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setSearching(true);
+    try {
+      setResults(await searchChunks(query));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSearch();
+        }}
+      >
+        <input
+          className="flex-1 rounded-md border px-3 py-2 text-sm bg-background"
+          placeholder="Search sources to cite"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <Button type="submit" size="sm" disabled={searching}>
+          {searching ? "..." : "Search"}
+        </Button>
+      </form>
+
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        Relationship
+        <select
+          className="rounded-md border px-2 py-1 text-xs bg-background"
+          value={relationship}
+          onChange={(e) => setRelationship(e.target.value as RelationshipType)}
+          title={
+            RELATIONSHIP_TYPES.find((type) => type.value === relationship)
+              ?.description
+          }
+        >
+          {RELATIONSHIP_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+        {results.map(({ chunk, snippet }) => (
+          <Card key={chunk.chunk_id} className="p-3 gap-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge
+                className={
+                  chunk.type === "insight"
+                    ? "bg-blue-500 text-white"
+                    : "bg-gray-500 text-white"
+                }
+              >
+                {chunk.chunk_id}
+              </Badge>
+              {chunk.superseded_by && (
+                <Badge className="bg-amber-500 text-white">Superseded</Badge>
+              )}
+            </div>
+            <HighlightedSnippet snippet={snippet} className="text-xs leading-relaxed" />
+            {chunk.source_title && (
+              <p className="text-xs text-muted-foreground">
+                Source: {chunk.source_title}
+              </p>
+            )}
+            <Button size="sm" variant="outline" onClick={() => onInsert(chunk, relationship)}>
+              Insert Citation
+            </Button>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,18 @@
 /**
  * Popover component displaying citation source preview with chunk ID and metadata.
  *
- * Input data sources: Chunk data from parent component
+ * Input data sources: Chunk data from parent component, related chunks from getRelatedChunks
  * Output destinations: Triggers onViewFull callback for full lineage view
- * Dependencies: shadcn/ui components (Popover, Badge, Button, Separator), Chunk type
+ * Dependencies: shadcn/ui components (Popover, Badge, Button, Separator), ClaimText, ConfidenceBreakdown,
+ *   RelatedChunks, actions/related, formatSourceReference, checkQuote, Chunk, ClaimCheck, ConfidenceResult and
+ *   RelatedChunk types
  * Key exports: CitationPopover component
- * Side effects: None
+ * Side effects: Fetches related chunks the first time the popover opens for a chunk
  */
 
 "use client";
 
+import { useEffect, useState } from "react";
 import {
   Popover,
   PopoverContent,
@@ -18,13 +21,28 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import type { Chunk } from "@/lib/types";
+import { ClaimText } from "./claim-text";
+import { ConfidenceBreakdown } from "./confidence-breakdown";
+import { RelatedChunks } from "./related-chunks";
+import { getRelatedChunks } from "@/actions/related";
+import { checkQuote, describeQuoteCheck } from "@/lib/quotes";
+import { formatSourceReference } from "@/lib/source-reference";
+import type {
+  Chunk,
+  ClaimCheck,
+  ConfidenceResult,
+  RelatedChunk,
+} from "@/lib/types";
 
 interface CitationPopoverProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   marker: string;
   chunk: Chunk | null;
+  claims?: ClaimCheck[];
+  confidence?: ConfidenceResult;
+  quote?: string; // Passage of the chunk that backs this citation
+  citedChunkIds?: string[]; // Already cited alongside this chunk, so never suggested as related
   onViewFull: () => void;
   children: React.ReactNode;
 }
@@ -34,9 +52,34 @@ export function CitationPopover({
   onOpenChange,
   marker,
   chunk,
+  claims,
+  confidence,
+  quote,
+  citedChunkIds,
   onViewFull,
   children,
 }: CitationPopoverProps) {
+  const [related, setRelated] = useState<{
+    chunkId: string;
+    chunks: RelatedChunk[];
+  } | null>(null);
+  const chunkId = chunk?.chunk_id;
+
+  // Fetched on first open only: the popover opens on every hover
+  useEffect(() => {
+    if (!open || !chunkId || related?.chunkId === chunkId) return;
+
+    let cancelled = false;
+    getRelatedChunks(chunkId, citedChunkIds)
+      .then((chunks) => {
+        if (!cancelled) setRelated({ chunkId, chunks });
+      })
+      .catch((error) => console.error("Error finding related chunks:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, chunkId, citedChunkIds, related?.chunkId]);
+
   if (!chunk) {
     return <>{children}</>;
   }
@@ -44,6 +87,10 @@ export function CitationPopover({
   const badgeColor = chunk.type === "insight"
     ? "bg-blue-500 text-white"
     : "bg-gray-500 text-white";
+  const sourceReference = formatSourceReference(chunk);
+  const quoteCheck = quote
+    ? checkQuote(chunk.text, { text: quote, start: null, end: null })
+    : null;
 
   return (
     <Popover open={open} onOpenChange={onOpenChange}>
@@ -54,17 +101,58 @@ export function CitationPopover({
             <div className="flex items-center gap-2">
               <Badge className={badgeColor}>{chunk.chunk_id}</Badge>
               <span className="text-sm text-muted-foreground">{marker}</span>
+              {chunk.superseded_by && (
+                <Badge className="bg-amber-500 text-white">Superseded</Badge>
+              )}
             </div>
           </div>
 
           <Separator />
 
           <div className="space-y-2">
-            <p className="text-sm line-clamp-3">{chunk.text}</p>
+            <ClaimText
+              text={chunk.text}
+              checks={claims}
+              highlight={
+                quoteCheck?.start !== undefined && quoteCheck.end !== undefined
+                  ? {
+                      start: quoteCheck.start,
+                      end: quoteCheck.end,
+                      title: describeQuoteCheck(quoteCheck),
+                    }
+                  : undefined
+              }
+              className={`text-sm ${quoteCheck ? "" : "line-clamp-3"}`}
+            />
 
-            {chunk.type === "raw" && chunk.source_title && (
+            {quoteCheck?.status === "missing" && (
+              <p className="text-xs text-red-700 dark:text-red-400">
+                Quoted passage &ldquo;{quote}&rdquo; is not in this chunk&apos;s text
+              </p>
+            )}
+
+            {chunk.superseded_by && (
+              <p className="text-xs text-amber-700 dark:text-amber-400">
+                Corrected by {chunk.superseded_by}
+              </p>
+            )}
+
+            {chunk.type === "raw" && sourceReference && (
               <p className="text-xs text-muted-foreground">
-                Source: {chunk.source_title}
+                Source: {sourceReference}
+                {chunk.document?.url && (
+                  <>
+                    {" "}
+                    <a
+                      href={chunk.document.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="underline"
+                    >
+                      Open
+                    </a>
+                  </>
+                )}
               </p>
             )}
 
@@ -81,6 +169,20 @@ export function CitationPopover({
             )}
           </div>
 
+          {confidence && (
+            <>
+              <Separator />
+              <ConfidenceBreakdown result={confidence} />
+            </>
+          )}
+
+          <Separator />
+
+          <RelatedChunks
+            related={related?.chunkId === chunk.chunk_id ? related.chunks : null}
+            compact
+          />
+
           <Separator />
 
           <Button onClick={onViewFull} className="w-full" size="sm">
@@ -0,0 +1,101 @@
+/**
+ * Renders chunk text with each numeric figure marked by its claim check status
+ * and, for span-level citations, the quoted passage highlighted.
+ *
+ * Input data sources: Chunk text, ClaimCheck array from getClaimChecks, optional quoted span
+ * Output destinations: Lineage tree cards and citation popover
+ * Dependencies: ClaimCheck type
+ * Key exports: ClaimText component
+ * Side effects: None
+ */
+
+import type { ClaimCheck } from "@/lib/types";
+
+const STATUS_STYLES: Record<ClaimCheck["status"], string> = {
+  traced:
+    "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  derived: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  untraced: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+interface HighlightSpan {
+  start: number;
+  end: number;
+  title?: string;
+}
+
+interface ClaimTextProps {
+  text: string;
+  checks?: ClaimCheck[];
+  highlight?: HighlightSpan; // Quoted passage of a span-level citation
+  className?: string;
+}
+
+export function ClaimText({ text, checks = [], highlight, className }: ClaimTextProps) {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const check of checks) {
+    const { start, end, raw } = check.figure;
+    if (start > lastIndex) {
+      parts.push(...highlightRange(text, lastIndex, start, highlight));
+    }
+    const quoted = highlight && highlight.start < end && highlight.end > start;
+    parts.push(
+      <span
+        key={start}
+        className={`rounded-sm px-1 font-medium ${STATUS_STYLES[check.status]}${
+          quoted ? " ring-1 ring-yellow-500" : ""
+        }`}
+        title={describeCheck(check)}
+      >
+        {raw}
+      </span>
+    );
+    lastIndex = end;
+  }
+  if (lastIndex < text.length) {
+    parts.push(...highlightRange(text, lastIndex, text.length, highlight));
+  }
+
+  return <p className={className}>{parts}</p>;
+}
+
+/**
+ * Plain text between figures, with the part inside the highlight wrapped in <mark>
+ */
+function highlightRange(
+  text: string,
+  from: number,
+  to: number,
+  highlight?: HighlightSpan
+): React.ReactNode[] {
+  if (!highlight || highlight.end <= from || highlight.start >= to) {
+    return [text.slice(from, to)];
+  }
+
+  const markStart = Math.max(from, highlight.start);
+  const markEnd = Math.min(to, highlight.end);
+  return [
+    text.slice(from, markStart),
+    <mark
+      key={`quote-${markStart}`}
+      className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-800"
+      title={highlight.title}
+    >
+      {text.slice(markStart, markEnd)}
+    </mark>,
+    text.slice(markEnd, to),
+  ].filter((part) => part !== "");
+}
+
+function describeCheck(check: ClaimCheck): string {
+  switch (check.status) {
+    case "traced":
+      return `Traced to ${check.source_chunk_id}`;
+    case "derived":
+      return `Derived: ${check.explanation} (${check.source_chunk_id})`;
+    case "untraced":
+      return "Untraced: not found in any cited raw source";
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Compact confidence score shown next to citation markers and lineage nodes.
+ *
+ * Input data sources: ConfidenceResult from getConfidence
+ * Output destinations: Inline badge in the report, lineage tree and citation popover
+ * Dependencies: lib/confidence.ts (formatConfidence), ConfidenceResult type
+ * Key exports: ConfidenceBadge component
+ * Side effects: None
+ */
+
+import { formatConfidence } from "@/lib/confidence";
+import type { ConfidenceResult } from "@/lib/types";
+
+interface ConfidenceBadgeProps {
+  result?: ConfidenceResult;
+  className?: string;
+}
+
+export function ConfidenceBadge({ result, className = "" }: ConfidenceBadgeProps) {
+  if (!result || result.score === null) return null;
+
+  const color =
+    result.score >= 0.8
+      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+      : result.score >= 0.6
+        ? "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+        : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+
+  return (
+    <span
+      className={`inline-block rounded-sm px-1 text-[10px] font-semibold leading-4 align-middle ${color} ${className}`}
+      title={`Confidence: ${result.explanation}`}
+    >
+      {formatConfidence(result.score)}
+    </span>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Explains how a chunk's confidence score was computed from its raw sources.
+ *
+ * Input data sources: ConfidenceResult from getConfidence
+ * Output destinations: Citation popover
+ * Dependencies: ConfidenceBadge, lib/confidence.ts (rule labels, formatting), ConfidenceResult type
+ * Key exports: ConfidenceBreakdown component
+ * Side effects: None
+ */
+
+import { ConfidenceBadge } from "./confidence-badge";
+import {
+  CONFIDENCE_RULES,
+  describeReliabilityBasis,
+  formatConfidence,
+} from "@/lib/confidence";
+import type { ConfidenceResult } from "@/lib/types";
+
+interface ConfidenceBreakdownProps {
+  result: ConfidenceResult;
+}
+
+export function ConfidenceBreakdown({ result }: ConfidenceBreakdownProps) {
+  const rule = CONFIDENCE_RULES.find((option) => option.value === result.rule);
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">Confidence</span>
+        <ConfidenceBadge result={result} />
+        <span className="text-muted-foreground">{rule?.label}</span>
+      </div>
+      <p className="text-muted-foreground">{result.explanation}</p>
+      {result.sources.length > 0 && (
+        <ul className="space-y-0.5">
+          {result.sources.map((source) => (
+            <li key={source.chunk_id} className="text-muted-foreground">
+              <span className="font-mono">{source.chunk_id}</span>: reliability{" "}
+              {formatConfidence(source.reliability)} (
+              {describeReliabilityBasis(source.reliability_basis, source)}), path{" "}
+              {formatConfidence(source.path_confidence)}
+              {source.path.length > 2 && ` via ${source.path.slice(1, -1).join(" → ")}`}
+            </li>
+          ))}
+        </ul>
+      )}
+      {result.contradicting_sources.length > 0 && (
+        <p className="text-muted-foreground">
+          Not scored (contradicting):{" "}
+          <span className="font-mono">{result.contradicting_sources.join(", ")}</span>
+        </p>
+      )}
+    </div>
+  );
+}
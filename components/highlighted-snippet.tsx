@@ -0,0 +1,35 @@
+/**
+ * Renders a search snippet with matched terms highlighted.
+ *
+ * Input data sources: Snippet string from searchChunks (terms wrapped in highlight sentinels)
+ * Output destinations: Search results and citation picker
+ * Dependencies: lib/search-utils.ts (splitHighlights)
+ * Key exports: HighlightedSnippet component
+ * Side effects: None
+ */
+
+import { splitHighlights } from "@/lib/search-utils";
+
+interface HighlightedSnippetProps {
+  snippet: string;
+  className?: string;
+}
+
+export function HighlightedSnippet({ snippet, className }: HighlightedSnippetProps) {
+  return (
+    <p className={className}>
+      {splitHighlights(snippet).map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm px-0.5"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
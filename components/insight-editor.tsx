@@ -0,0 +1,185 @@
+/**
+ * Authoring editor for insight reports with a citation picker and ingestion on submit.
+ *
+ * Input data sources: Author-typed markdown, chunks picked in CitationPicker, optional stored report to revise
+ * Output destinations: Saves the report (or a new revision of it) through the ingestReport server action
+ * Dependencies: CitationPicker, shadcn/ui components, lib/markdown-utils (insertCitation), actions/ingest
+ * Key exports: InsightEditor component
+ * Side effects: Inserts chunks and citations into the database on submit (a revision reuses unchanged
+ *   paragraphs' chunks and supersedes edited ones)
+ */
+
+"use client";
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { CitationPicker } from "./citation-picker";
+import { insertCitation } from "@/lib/markdown-utils";
+import { ingestReport } from "@/actions/ingest";
+import type {
+  Chunk,
+  IngestedChunk,
+  IngestReportResult,
+  RelationshipType,
+  Report,
+} from "@/lib/types";
+
+const INITIAL_MARKDOWN = `# Untitled Insight
+
+`;
+
+// Unchanged paragraphs keep the previous revision's chunk; revised ones supersede it
+const CHUNK_STATUS_CLASSES: Record<IngestedChunk["status"], string | undefined> = {
+  new: "bg-blue-500 text-white",
+  revised: "bg-amber-500 text-white",
+  unchanged: undefined,
+};
+
+interface InsightEditorProps {
+  report?: Report; // Start from this report and save edits as its next revision
+}
+
+export function InsightEditor({ report }: InsightEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [markdown, setMarkdown] = useState(report?.markdown ?? INITIAL_MARKDOWN);
+  const [author, setAuthor] = useState(report?.author ?? "");
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<IngestReportResult | null>(null);
+
+  const handleInsert = (chunk: Chunk, relationship: RelationshipType) => {
+    const textarea = textareaRef.current;
+    const position = textarea ? textarea.selectionStart : markdown.length;
+    const description =
+      chunk.source_title ??
+      (chunk.author ? `Insight by ${chunk.author.split("@")[0]}` : undefined);
+
+    const inserted = insertCitation(
+      markdown,
+      position,
+      chunk.chunk_id,
+      description,
+      relationship
+    );
+    setMarkdown(inserted.markdown);
+
+    // Put the caret right after the new marker once React has re-rendered
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(inserted.position, inserted.position);
+    });
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const ingested = await ingestReport({
+        markdown,
+        author,
+        reportId: report?.id,
+      });
+      setResult(ingested);
+      // A revised report stays in the editor for further revisions
+      if (ingested.success && !report) {
+        setMarkdown(INITIAL_MARKDOWN);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const savedCount = result?.success
+    ? result.chunks.filter((chunk) => chunk.status !== "unchanged").length
+    : 0;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[1fr_20rem]">
+      <div className="space-y-4">
+        <input
+          className="w-full rounded-md border px-3 py-2 text-sm bg-background"
+          placeholder="Author email"
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+        />
+        <textarea
+          ref={textareaRef}
+          className="w-full min-h-96 rounded-md border px-3 py-2 font-mono text-sm bg-background"
+          value={markdown}
+          onChange={(e) => setMarkdown(e.target.value)}
+        />
+        <Button
+          onClick={handleSubmit}
+          disabled={submitting || markdown.trim().length === 0}
+        >
+          {submitting ? "Saving..." : report ? "Save Revision" : "Save Insight"}
+        </Button>
+
+        {result && !result.success && (
+          <Card className="p-4 border-red-300 dark:border-red-800">
+            <p className="text-sm font-medium text-red-600 dark:text-red-400">
+              Insight rejected
+            </p>
+            <ul className="list-disc pl-5 text-sm">
+              {result.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        {result && result.success && (
+          <Card className="p-4">
+            <p className="text-sm font-medium">
+              {result.revision > 1 && `Revision ${result.revision}: `}
+              Saved {savedCount} chunk
+              {savedCount !== 1 ? "s" : ""}
+              {savedCount < result.chunks.length &&
+                ` (${result.chunks.length - savedCount} unchanged)`}{" "}
+              ·{" "}
+              <Link href={`/reports/${result.report_id}`} className="underline">
+                View report
+              </Link>
+              {result.revision > 1 && (
+                <>
+                  {" "}
+                  ·{" "}
+                  <Link
+                    href={`/reports/${result.report_id}/history`}
+                    className="underline"
+                  >
+                    View changes
+                  </Link>
+                </>
+              )}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {result.chunks.map((chunk) => (
+                <Badge
+                  key={chunk.chunk_id}
+                  variant={chunk.status === "unchanged" ? "outline" : "default"}
+                  className={CHUNK_STATUS_CLASSES[chunk.status]}
+                  title={
+                    chunk.supersedes
+                      ? `Supersedes ${chunk.supersedes}`
+                      : chunk.status === "unchanged"
+                        ? "Unchanged since the previous revision"
+                        : undefined
+                  }
+                >
+                  {chunk.chunk_id}
+                </Badge>
+              ))}
+            </div>
+          </Card>
+        )}
+      </div>
+
+      <aside>
+        <h2 className="text-sm font-medium mb-2">Cite a source</h2>
+        <CitationPicker onInsert={handleInsert} />
+      </aside>
+    </div>
+  );
+}
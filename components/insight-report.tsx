@@ -3,7 +3,8 @@
  *
  * Input data sources: Markdown string with citation references, chunk data from server actions
  * Output destinations: Rendered report with interactive citations, triggers citation click callbacks
- * Dependencies: react-markdown, remark-gfm, CitationLink, lib/markdown-utils, actions/lineage
+ * Dependencies: react-markdown, remark-gfm, CitationLink, lib/markdown-utils, lib/relationships,
+ *   actions/cited-chunks
  * Key exports: InsightReport component
  * Side effects: Fetches chunk data from database via server actions
  */
@@ -14,40 +15,73 @@ import { useEffect, useMemo, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { CitationLink } from "./citation-link";
-import { parseCitationMap, extractCitationMarkers } from "@/lib/markdown-utils";
-import { getChunk } from "@/actions/lineage";
-import type { Chunk, CitationMap } from "@/lib/types";
+import {
+  parseCitationMap,
+  parseCitationQuotes,
+  parseCitationMarkers,
+} from "@/lib/markdown-utils";
+import { isRelationshipType } from "@/lib/relationships";
+import { getCitedChunkData } from "@/actions/cited-chunks";
+import type {
+  Chunk,
+  CitationMap,
+  ClaimCheck,
+  ConfidenceResult,
+  ConfidenceRule,
+} from "@/lib/types";
 
 interface InsightReportProps {
   markdown: string;
   onCitationClick: (chunkId: string) => void;
+  confidenceRule?: ConfidenceRule;
 }
 
 export function InsightReport({
   markdown,
   onCitationClick,
+  confidenceRule,
 }: InsightReportProps) {
   // Parse citation map from markdown (memoized computation)
   const citationMap = useMemo(() => parseCitationMap(markdown), [markdown]);
+  const citationQuotes = useMemo(() => parseCitationQuotes(markdown), [markdown]);
+  const citedChunkIds = useMemo(() => Object.values(citationMap), [citationMap]);
   const [chunks, setChunks] = useState<Record<string, Chunk | null>>({});
+  const [claims, setClaims] = useState<Record<string, ClaimCheck[]>>({});
+  const [confidence, setConfidence] = useState<
+    Record<string, ConfidenceResult>
+  >({});
 
-  // Fetch chunks for all citations
+  // Fetch every cited chunk with its claim checks and confidence in one round trip;
+  // scores depend on the selected rule, so a rule change refetches
   useEffect(() => {
     async function fetchChunks() {
-      const chunkData: Record<string, Chunk | null> = {};
+      const data = await getCitedChunkData(citedChunkIds, confidenceRule);
+      const byId = new Map(data.chunks.map((chunk) => [chunk.chunk_id, chunk]));
 
+      const chunkData: Record<string, Chunk | null> = {};
       for (const [marker, chunkId] of Object.entries(citationMap)) {
-        const chunk = await getChunk(chunkId);
-        chunkData[marker] = chunk;
+        chunkData[marker] = byId.get(chunkId) ?? null;
       }
 
       setChunks(chunkData);
+      setClaims(data.claims);
+      setConfidence(data.confidence);
     }
 
-    if (Object.keys(citationMap).length > 0) {
+    if (citedChunkIds.length > 0) {
       fetchChunks();
     }
-  }, [citationMap]);
+  }, [citationMap, citedChunkIds, confidenceRule]);
+
+  const citationContext: CitationContext = {
+    citationMap,
+    chunks,
+    claims,
+    confidence,
+    citationQuotes,
+    citedChunkIds,
+    onCitationClick,
+  };
 
   // Remove references section from display
   const contentWithoutReferences = markdown.split(/##\s+References/)[0];
@@ -60,62 +94,32 @@ export function InsightReport({
           // Custom renderers for all text-containing elements to process citations
           p: ({ children, ...props }) => (
             <p {...props}>
-              {processTextWithCitations(
-                children,
-                citationMap,
-                chunks,
-                onCitationClick
-              )}
+              {processTextWithCitations(children, citationContext)}
             </p>
           ),
           h1: ({ children, ...props }) => (
             <h1 {...props}>
-              {processTextWithCitations(
-                children,
-                citationMap,
-                chunks,
-                onCitationClick
-              )}
+              {processTextWithCitations(children, citationContext)}
             </h1>
           ),
           h2: ({ children, ...props }) => (
             <h2 {...props}>
-              {processTextWithCitations(
-                children,
-                citationMap,
-                chunks,
-                onCitationClick
-              )}
+              {processTextWithCitations(children, citationContext)}
             </h2>
           ),
           h3: ({ children, ...props }) => (
             <h3 {...props}>
-              {processTextWithCitations(
-                children,
-                citationMap,
-                chunks,
-                onCitationClick
-              )}
+              {processTextWithCitations(children, citationContext)}
             </h3>
           ),
           h4: ({ children, ...props }) => (
             <h4 {...props}>
-              {processTextWithCitations(
-                children,
-                citationMap,
-                chunks,
-                onCitationClick
-              )}
+              {processTextWithCitations(children, citationContext)}
             </h4>
           ),
           li: ({ children, ...props }) => (
             <li {...props}>
-              {processTextWithCitations(
-                children,
-                citationMap,
-                chunks,
-                onCitationClick
-              )}
+              {processTextWithCitations(children, citationContext)}
             </li>
           ),
         }}
@@ -129,11 +133,28 @@ export function InsightReport({
 /**
  * Process text content and replace citation markers with CitationLink components
  */
+// Everything a CitationLink needs besides its marker, shared by every text renderer
+interface CitationContext {
+  citationMap: CitationMap;
+  chunks: Record<string, Chunk | null>; // Keyed by marker
+  claims: Record<string, ClaimCheck[]>; // Keyed by chunk_id
+  confidence: Record<string, ConfidenceResult>; // Keyed by chunk_id
+  citationQuotes: Record<string, string>;
+  citedChunkIds: string[];
+  onCitationClick: (chunkId: string) => void;
+}
+
 function processTextWithCitations(
   children: React.ReactNode,
-  citationMap: CitationMap,
-  chunks: Record<string, Chunk | null>,
-  onCitationClick: (chunkId: string) => void
+  {
+    citationMap,
+    chunks,
+    claims,
+    confidence,
+    citationQuotes,
+    citedChunkIds,
+    onCitationClick,
+  }: CitationContext
 ): React.ReactNode {
   // Convert children to array
   const childArray = Array.isArray(children) ? children : [children];
@@ -143,9 +164,9 @@ function processTextWithCitations(
       return child;
     }
 
-    // Find all citation markers in this text
-    const markers = extractCitationMarkers(child);
-    if (markers.length === 0) {
+    // Find all citation markers in this text ("[1]" or "[1:contradicts]")
+    const occurrences = parseCitationMarkers(child);
+    if (occurrences.length === 0) {
       return child;
     }
 
@@ -153,10 +174,7 @@ function processTextWithCitations(
     const parts: React.ReactNode[] = [];
     let lastIndex = 0;
 
-    markers.forEach((marker) => {
-      const markerIndex = child.indexOf(marker, lastIndex);
-      if (markerIndex === -1) return;
-
+    occurrences.forEach(({ raw, marker, relationship, index: markerIndex }) => {
       // Add text before marker
       if (markerIndex > lastIndex) {
         parts.push(child.substring(lastIndex, markerIndex));
@@ -168,15 +186,22 @@ function processTextWithCitations(
 
       parts.push(
         <CitationLink
-          key={`${marker}-${index}`}
+          key={`${marker}-${index}-${markerIndex}`}
           marker={marker}
+          relationship={
+            relationship && isRelationshipType(relationship) ? relationship : undefined
+          }
           chunkId={chunkId}
           chunk={chunk}
+          claims={claims[chunkId]}
+          confidence={confidence[chunkId]}
+          quote={citationQuotes[marker]}
+          citedChunkIds={citedChunkIds}
           onViewFull={onCitationClick}
         />
       );
 
-      lastIndex = markerIndex + marker.length;
+      lastIndex = markerIndex + raw.length;
     });
 
     // Add remaining text
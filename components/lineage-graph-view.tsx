@@ -0,0 +1,329 @@
+/**
+ * Layered SVG graph of a citation lineage with pan/zoom and hover path highlighting.
+ *
+ * Input data sources: LineageGraph from server actions
+ * Output destinations: Graph display in lineage sheet, triggers onSelectChunk on node click
+ * Dependencies: shadcn/ui Button, LineageGraph and RelationshipType types
+ * Key exports: LineageGraphView component
+ * Side effects: Registers a non-passive wheel listener for zooming
+ */
+
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type {
+  LineageGraph,
+  LineageGraphNode,
+  RelationshipType,
+} from "@/lib/types";
+
+const STAGE_LABELS = ["Raw", "Insight", "Synthesis", "Executive"];
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 90;
+const ROW_GAP = 24;
+const PADDING = 40;
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 3;
+
+// Edge color by relationship type; contradicting citations are also dashed
+const EDGE_STYLES: Record<RelationshipType, string> = {
+  cites: "text-gray-400 dark:text-gray-600",
+  supports: "text-green-500",
+  contradicts: "text-red-500",
+  extends: "text-purple-500",
+  quotes: "text-sky-500",
+};
+
+interface LineageGraphViewProps {
+  graph: LineageGraph;
+  onSelectChunk?: (chunkId: string) => void;
+}
+
+interface PositionedNode {
+  node: LineageGraphNode;
+  x: number;
+  y: number;
+}
+
+export function LineageGraphView({ graph, onSelectChunk }: LineageGraphViewProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const layout = useMemo(() => layoutByStage(graph), [graph]);
+  const highlighted = useMemo(
+    () => (hoveredId ? pathToRoot(graph, hoveredId) : null),
+    [graph, hoveredId]
+  );
+
+  // React registers wheel listeners as passive, so zoom needs a native listener
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const cursorX = event.clientX - rect.left;
+      const cursorY = event.clientY - rect.top;
+
+      setView((current) => {
+        const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+        const scale = clamp(current.scale * factor, MIN_SCALE, MAX_SCALE);
+        const ratio = scale / current.scale;
+        // Keep the point under the cursor fixed while zooming
+        return {
+          scale,
+          x: cursorX - (cursorX - current.x) * ratio,
+          y: cursorY - (cursorY - current.y) * ratio,
+        };
+      });
+    };
+
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const zoomBy = (factor: number) =>
+    setView((current) => ({
+      ...current,
+      scale: clamp(current.scale * factor, MIN_SCALE, MAX_SCALE),
+    }));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => zoomBy(1.2)}>
+          +
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => zoomBy(1 / 1.2)}>
+          −
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setView({ x: 0, y: 0, scale: 1 })}
+        >
+          Reset view
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Drag to pan, scroll to zoom
+        </span>
+      </div>
+
+      <svg
+        ref={svgRef}
+        className="w-full h-[28rem] rounded-md border bg-muted/20 cursor-grab active:cursor-grabbing select-none"
+        onPointerDown={(event) => {
+          dragRef.current = { x: event.clientX, y: event.clientY };
+          event.currentTarget.setPointerCapture(event.pointerId);
+        }}
+        onPointerMove={(event) => {
+          const start = dragRef.current;
+          if (!start) return;
+          dragRef.current = { x: event.clientX, y: event.clientY };
+          setView((current) => ({
+            ...current,
+            x: current.x + event.clientX - start.x,
+            y: current.y + event.clientY - start.y,
+          }));
+        }}
+        onPointerUp={() => {
+          dragRef.current = null;
+        }}
+      >
+        <defs>
+          <marker
+            id="lineage-arrow"
+            viewBox="0 0 10 10"
+            refX="10"
+            refY="5"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+          </marker>
+        </defs>
+
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {layout.stages.map((stage, column) => (
+            <text
+              key={stage}
+              x={PADDING + column * (NODE_WIDTH + COLUMN_GAP) + NODE_WIDTH / 2}
+              y={PADDING / 2}
+              textAnchor="middle"
+              className="fill-muted-foreground text-xs"
+            >
+              {STAGE_LABELS[stage] ?? `Stage ${stage}`}
+            </text>
+          ))}
+
+          {graph.edges.map((edge) => {
+            const source = layout.positions.get(edge.source_chunk_id);
+            const target = layout.positions.get(edge.target_chunk_id);
+            if (!source || !target) return null;
+
+            const isHighlighted =
+              highlighted?.has(edge.source_chunk_id) &&
+              highlighted.has(edge.target_chunk_id);
+            const dimmed = highlighted && !isHighlighted;
+
+            // Citing chunk sits right of what it cites: draw from its left edge to the target's right edge
+            const x1 = source.x;
+            const y1 = source.y + NODE_HEIGHT / 2;
+            const x2 = target.x + NODE_WIDTH;
+            const y2 = target.y + NODE_HEIGHT / 2;
+            const bend = Math.max(Math.abs(x1 - x2) / 2, 40);
+            const path = `M ${x1} ${y1} C ${x1 - bend} ${y1}, ${x2 + bend} ${y2}, ${x2} ${y2}`;
+
+            return (
+              <g
+                key={`${edge.source_chunk_id}|${edge.target_chunk_id}|${edge.citation_marker ?? ""}`}
+                className={
+                  isHighlighted
+                    ? "text-blue-600 dark:text-blue-400"
+                    : EDGE_STYLES[edge.relationship_type ?? "cites"]
+                }
+                opacity={dimmed ? 0.25 : 1}
+              >
+                <path
+                  d={path}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={isHighlighted ? 2.5 : 1.5}
+                  strokeDasharray={
+                    edge.relationship_type === "contradicts" ? "5 3" : undefined
+                  }
+                  markerEnd="url(#lineage-arrow)"
+                />
+                {edge.citation_marker && (
+                  <text
+                    x={(x1 + x2) / 2}
+                    y={(y1 + y2) / 2 - 4}
+                    textAnchor="middle"
+                    className="fill-current text-[10px] font-medium"
+                  >
+                    {edge.citation_marker}
+                    {edge.relationship_type && edge.relationship_type !== "cites"
+                      ? ` ${edge.relationship_type}`
+                      : ""}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {[...layout.positions.values()].map(({ node, x, y }) => {
+            const isRoot = node.chunk_id === graph.root_chunk_id;
+            const dimmed = highlighted && !highlighted.has(node.chunk_id);
+            const fill =
+              node.chunk.type === "insight"
+                ? "fill-blue-500"
+                : "fill-gray-500";
+
+            return (
+              <g
+                key={node.chunk_id}
+                transform={`translate(${x} ${y})`}
+                opacity={dimmed ? 0.35 : 1}
+                className="cursor-pointer"
+                onPointerEnter={() => setHoveredId(node.chunk_id)}
+                onPointerLeave={() => setHoveredId(null)}
+                onPointerDown={(event) => event.stopPropagation()}
+                onClick={() => onSelectChunk?.(node.chunk_id)}
+              >
+                <title>{node.chunk.text}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={8}
+                  className={fill}
+                  stroke={isRoot ? "currentColor" : "none"}
+                  strokeWidth={isRoot ? 3 : 0}
+                />
+                <text x={10} y={22} className="fill-white text-[11px] font-medium">
+                  {truncate(node.chunk.chunk_id, 28)}
+                </text>
+                <text x={10} y={40} className="fill-white/80 text-[10px]">
+                  {node.chunk.superseded_by
+                    ? "Superseded"
+                    : node.chunk.source_title
+                      ? truncate(node.chunk.source_title, 30)
+                      : node.chunk.author?.split("@")[0] ?? ""}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+    </div>
+  );
+}
+
+/**
+ * Place nodes in columns by stage (raw on the left) and rows by depth then chunk_id
+ */
+function layoutByStage(graph: LineageGraph): {
+  stages: number[];
+  positions: Map<string, PositionedNode>;
+} {
+  const maxStage = Math.max(3, ...graph.nodes.map((node) => node.chunk.stage));
+  const stages = Array.from({ length: maxStage + 1 }, (_, stage) => stage);
+  const positions = new Map<string, PositionedNode>();
+
+  for (const stage of stages) {
+    const column = graph.nodes
+      .filter((node) => node.chunk.stage === stage)
+      .sort((a, b) => a.depth - b.depth || a.chunk_id.localeCompare(b.chunk_id));
+
+    column.forEach((node, row) => {
+      positions.set(node.chunk_id, {
+        node,
+        x: PADDING + stage * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  }
+
+  return { stages, positions };
+}
+
+/**
+ * Chunks on any path between the root and chunkId (both included)
+ */
+function pathToRoot(graph: LineageGraph, chunkId: string): Set<string> {
+  const towardRoot = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    // Citations graph: the root cites downward, so step back along incoming edges
+    const [from, to] =
+      graph.direction === "citations"
+        ? [edge.target_chunk_id, edge.source_chunk_id]
+        : [edge.source_chunk_id, edge.target_chunk_id];
+    towardRoot.set(from, [...(towardRoot.get(from) ?? []), to]);
+  }
+
+  const visited = new Set<string>([chunkId]);
+  const queue = [chunkId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of towardRoot.get(current) ?? []) {
+      if (!visited.has(next)) {
+        visited.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return visited;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
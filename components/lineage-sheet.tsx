@@ -1,16 +1,20 @@
 /**
- * Side sheet component that fetches and displays complete citation lineage tree.
+ * Side sheet component that fetches and displays complete citation lineage and its dependents.
  *
- * Input data sources: Chunk ID from parent, chunk data and lineage from server actions
- * Output destinations: Visual lineage tree display in side panel
- * Dependencies: shadcn/ui Sheet components, LineageTree, server actions (getChunk, getFullLineage)
+ * Input data sources: Chunk ID (and optional report ID) from parent, chunk data, lineage and dependents from server actions
+ * Output destinations: Visual lineage tree, graph and timeline in side panel, supersession and temporal warnings,
+ *   claim badges, related-but-not-cited suggestions, PROV downloads
+ * Dependencies: shadcn/ui Sheet components, LineageTree, LineageGraphView, LineageTimeline, ClaimText, RelatedChunks,
+ *   lib/lineage-graph, lib/download, lib/relationships (evidence filter), lib/temporal (staleness thresholds),
+ *   server actions (getFullLineage, getDependents, getCitedChunkData, getTemporalCheck,
+ *   getRelatedChunks, exportChunkProv, exportReportProv)
  * Key exports: LineageSheet component
  * Side effects: Fetches data from database via server actions when opened
  */
 
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   Sheet,
   SheetContent,
@@ -19,53 +23,125 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { LineageTree } from "./lineage-tree";
-import { getChunk, getFullLineage } from "@/actions/lineage";
-import type { Chunk, LineageNode } from "@/lib/types";
+import { LineageGraphView } from "./lineage-graph-view";
+import { LineageTimeline } from "./lineage-timeline";
+import { ClaimText } from "./claim-text";
+import { ConfidenceBadge } from "./confidence-badge";
+import { RelatedChunks } from "./related-chunks";
+import { getDependents, getFullLineage } from "@/actions/lineage";
+import { getCitedChunkData } from "@/actions/cited-chunks";
+import { getTemporalCheck } from "@/actions/temporal";
+import { getRelatedChunks } from "@/actions/related";
+import { exportChunkProv, exportReportProv } from "@/actions/prov";
+import { downloadFile } from "@/lib/download";
+import {
+  buildLineageTree,
+  DEFAULT_MAX_DEPTH,
+  getTopLevelDependents,
+  MAX_DEPTH_LIMIT,
+} from "@/lib/lineage-graph";
+import {
+  EVIDENCE_FILTERS,
+  filterLineageGraph,
+  type EvidenceFilter,
+} from "@/lib/relationships";
+import {
+  DEFAULT_MAX_SOURCE_AGE_DAYS,
+  formatAge,
+  STALENESS_THRESHOLDS,
+} from "@/lib/temporal";
+import type {
+  Chunk,
+  ClaimCheck,
+  ConfidenceResult,
+  ConfidenceRule,
+  FileExportResult,
+  LineageGraph,
+  ProvFormat,
+  RelatedChunk,
+  TemporalCheck,
+} from "@/lib/types";
 
 interface LineageSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   chunkId: string | null;
+  reportId?: number; // Enables exporting the whole report's provenance
+  confidenceRule?: ConfidenceRule;
 }
 
 export function LineageSheet({
   open,
   onOpenChange,
   chunkId,
+  reportId,
+  confidenceRule,
 }: LineageSheetProps) {
   const [rootChunk, setRootChunk] = useState<Chunk | null>(null);
-  const [lineage, setLineage] = useState<LineageNode[]>([]);
+  const [lineage, setLineage] = useState<LineageGraph | null>(null);
+  const [dependents, setDependents] = useState<LineageGraph | null>(null);
+  const [claims, setClaims] = useState<Record<string, ClaimCheck[]>>({});
+  const [confidence, setConfidence] = useState<
+    Record<string, ConfidenceResult>
+  >({});
+  const [tab, setTab] = useState<"cites" | "impacted">("cites");
+  const [layout, setLayout] = useState<"tree" | "graph" | "timeline">("tree");
+  const [evidenceFilter, setEvidenceFilter] = useState<EvidenceFilter>("all");
+  const [temporal, setTemporal] = useState<TemporalCheck | null>(null);
+  const [related, setRelated] = useState<{
+    chunkId: string;
+    chunks: RelatedChunk[];
+  } | null>(null);
+  const [maxSourceAgeDays, setMaxSourceAgeDays] = useState(
+    DEFAULT_MAX_SOURCE_AGE_DAYS
+  );
   const [loading, setLoading] = useState(false);
+  const [exportErrors, setExportErrors] = useState<string[]>([]);
+  // Following a "corrected by" link swaps the displayed chunk until the parent selects another one
+  const [redirect, setRedirect] = useState<{ from: string; to: string } | null>(
+    null
+  );
+  const activeChunkId =
+    redirect && redirect.from === chunkId ? redirect.to : chunkId;
+  // Depth expansions apply to the chunk they were requested for only
+  const [depthRequest, setDepthRequest] = useState<{
+    chunkId: string;
+    maxDepth: number;
+  } | null>(null);
+  const maxDepth =
+    depthRequest && depthRequest.chunkId === activeChunkId
+      ? depthRequest.maxDepth
+      : DEFAULT_MAX_DEPTH;
 
   useEffect(() => {
     async function fetchLineage() {
-      if (!chunkId) return;
+      if (!activeChunkId) return;
 
       setLoading(true);
       try {
-        // Fetch root chunk
-        const chunk = await getChunk(chunkId);
-        setRootChunk(chunk);
-
-        // Fetch full lineage
-        const lineageNodes = await getFullLineage(chunkId);
-
-        // Sort root-level nodes by citation marker number
-        const sortedLineage = lineageNodes.sort((a, b) => {
-          const aMarker = a.citation_marker;
-          const bMarker = b.citation_marker;
+        // Full lineage and reverse lineage (what depends on this chunk); the root is the
+        // lineage's depth-0 node
+        const [lineageGraph, dependentsGraph] = await Promise.all([
+          getFullLineage(activeChunkId, maxDepth),
+          getDependents(activeChunkId, maxDepth),
+        ]);
+        setRootChunk(
+          lineageGraph.nodes.find((node) => node.chunk_id === activeChunkId)
+            ?.chunk ?? null
+        );
+        setLineage(lineageGraph);
+        setDependents(dependentsGraph);
 
-          if (!aMarker || !bMarker) return 0;
-
-          // Extract number from citation marker like "[1]" or "[2]"
-          const aNum = parseInt(aMarker.replace(/\D/g, ""), 10);
-          const bNum = parseInt(bMarker.replace(/\D/g, ""), 10);
-
-          return aNum - bNum;
-        });
-
-        setLineage(sortedLineage);
+        // Check figures and score every chunk shown in one round trip
+        const shownIds = [
+          ...lineageGraph.nodes.map((node) => node.chunk_id),
+          ...dependentsGraph.nodes.map((node) => node.chunk_id),
+        ];
+        const shown = await getCitedChunkData(shownIds, confidenceRule);
+        setClaims(shown.claims);
+        setConfidence(shown.confidence);
       } catch (error) {
         console.error("Error fetching lineage:", error);
       } finally {
@@ -73,10 +149,112 @@ export function LineageSheet({
       }
     }
 
-    if (open && chunkId) {
+    if (open && activeChunkId) {
       fetchLineage();
     }
-  }, [open, chunkId]);
+  }, [open, activeChunkId, maxDepth, confidenceRule]);
+
+  // Checked over the full lineage, so it does not depend on the levels shown
+  useEffect(() => {
+    if (!open || !activeChunkId) return;
+
+    let cancelled = false;
+    getTemporalCheck(activeChunkId, maxSourceAgeDays)
+      .then((check) => {
+        if (!cancelled) setTemporal(check);
+      })
+      .catch((error) => console.error("Error checking lineage dates:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, activeChunkId, maxSourceAgeDays]);
+
+  // Similarity ignores depth, so suggestions are fetched once per chunk
+  useEffect(() => {
+    if (!open || !activeChunkId) return;
+
+    let cancelled = false;
+    getRelatedChunks(activeChunkId)
+      .then((chunks) => {
+        if (!cancelled) setRelated({ chunkId: activeChunkId, chunks });
+      })
+      .catch((error) => console.error("Error finding related chunks:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, activeChunkId]);
+
+  const handleShowMoreLevels = () => {
+    if (activeChunkId) {
+      setDepthRequest({
+        chunkId: activeChunkId,
+        maxDepth: Math.min(maxDepth + DEFAULT_MAX_DEPTH, MAX_DEPTH_LIMIT),
+      });
+    }
+  };
+
+  const handleExport = async (
+    scope: "chunk" | "report",
+    format: ProvFormat
+  ) => {
+    let result: FileExportResult;
+    if (scope === "report" && reportId !== undefined) {
+      result = await exportReportProv(reportId, format);
+    } else if (activeChunkId) {
+      result = await exportChunkProv(activeChunkId, format);
+    } else {
+      return;
+    }
+
+    if (result.success) {
+      setExportErrors([]);
+      downloadFile(result.filename, result.content, result.mime_type);
+    } else {
+      setExportErrors(result.errors);
+    }
+  };
+
+  const handleSelectChunk = (targetId: string) => {
+    if (chunkId) {
+      setRedirect({ from: chunkId, to: targetId });
+    }
+  };
+
+  // Trees sort siblings by marker and render shared nodes once
+  const lineageTree = useMemo(
+    () => (lineage ? buildLineageTree(lineage) : []),
+    [lineage]
+  );
+  // Filter the graph, not the tree, so repeats never point at a dropped expansion
+  const filteredLineageTree = useMemo(
+    () =>
+      lineage ? buildLineageTree(filterLineageGraph(lineage, evidenceFilter)) : [],
+    [lineage, evidenceFilter]
+  );
+  const dependentsTree = useMemo(
+    () => (dependents ? buildLineageTree(dependents) : []),
+    [dependents]
+  );
+
+  const activeGraph = tab === "cites" ? lineage : dependents;
+  // Ignore a check still left over from the previously shown chunk
+  const temporalCheck =
+    temporal?.chunk_id === activeChunkId ? temporal : null;
+  const relatedChunks =
+    related?.chunkId === activeChunkId ? related.chunks : null;
+
+  const sourceCount = lineage ? lineage.nodes.length - 1 : 0;
+  const supersededCount = lineage
+    ? lineage.nodes.filter(
+        (node) =>
+          node.chunk_id !== lineage.root_chunk_id && node.chunk.superseded_by
+      ).length
+    : 0;
+  const dependentCount = dependents ? dependents.nodes.length - 1 : 0;
+  const reportLevelCount = dependents
+    ? getTopLevelDependents(dependents).length
+    : 0;
+  const rootReplacementId = rootChunk?.superseded_by;
 
   const badgeColor = rootChunk?.type === "insight"
     ? "bg-blue-500 text-white"
@@ -91,10 +269,39 @@ export function LineageSheet({
 
         {rootChunk && (
           <div className="mt-4 p-4">
+            {activeChunkId !== chunkId && (
+              <button
+                type="button"
+                className="text-xs underline text-muted-foreground mb-2"
+                onClick={() => setRedirect(null)}
+              >
+                ← Back to {chunkId}
+              </button>
+            )}
             <div className="flex items-center gap-2 mb-2">
               <Badge className={badgeColor}>{rootChunk.chunk_id}</Badge>
+              <ConfidenceBadge result={confidence[rootChunk.chunk_id]} />
+              {rootReplacementId && (
+                <Badge className="bg-amber-500 text-white">Superseded</Badge>
+              )}
             </div>
-            <p className="text-sm leading-relaxed">{rootChunk.text}</p>
+            {rootReplacementId && (
+              <p className="text-xs text-amber-700 dark:text-amber-400 mb-2">
+                This chunk has been corrected by{" "}
+                <button
+                  type="button"
+                  className="underline font-medium"
+                  onClick={() => handleSelectChunk(rootReplacementId)}
+                >
+                  {rootReplacementId}
+                </button>
+              </p>
+            )}
+            <ClaimText
+              text={rootChunk.text}
+              checks={claims[rootChunk.chunk_id]}
+              className="text-sm leading-relaxed"
+            />
             {rootChunk.author && (
               <p className="text-xs text-muted-foreground mt-2">
                 by {rootChunk.author.split("@")[0]}
@@ -105,25 +312,272 @@ export function LineageSheet({
                 {new Date(rootChunk.created_at).toLocaleDateString()}
               </p>
             )}
+            <div className="flex items-center gap-2 flex-wrap mt-3 text-xs text-muted-foreground">
+              <span>Export PROV:</span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleExport("chunk", "prov-json")}
+              >
+                PROV-JSON
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleExport("chunk", "turtle")}
+              >
+                Turtle
+              </Button>
+              {reportId !== undefined && (
+                <>
+                  <span className="ml-2">Whole report:</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleExport("report", "prov-json")}
+                  >
+                    PROV-JSON
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleExport("report", "turtle")}
+                  >
+                    Turtle
+                  </Button>
+                </>
+              )}
+            </div>
+            {exportErrors.map((error) => (
+              <p key={error} className="text-xs text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            ))}
           </div>
         )}
 
         <div className="mt-6 space-y-4 px-4">
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant={tab === "cites" ? "default" : "outline"}
+              onClick={() => setTab("cites")}
+            >
+              Cites
+            </Button>
+            <Button
+              size="sm"
+              variant={tab === "impacted" ? "default" : "outline"}
+              onClick={() => setTab("impacted")}
+            >
+              Impacted by
+            </Button>
+            <div className="ml-auto flex gap-2">
+              <Button
+                size="sm"
+                variant={layout === "tree" ? "secondary" : "ghost"}
+                onClick={() => setLayout("tree")}
+              >
+                Tree
+              </Button>
+              <Button
+                size="sm"
+                variant={layout === "graph" ? "secondary" : "ghost"}
+                onClick={() => setLayout("graph")}
+              >
+                Graph
+              </Button>
+              <Button
+                size="sm"
+                variant={layout === "timeline" ? "secondary" : "ghost"}
+                onClick={() => setLayout("timeline")}
+              >
+                Timeline
+              </Button>
+            </div>
+          </div>
+
+          {!loading && activeGraph && activeGraph.cycles.length > 0 && (
+            <div className="rounded-md border border-red-400 bg-red-50 dark:bg-red-950 p-3 text-sm text-red-800 dark:text-red-300 space-y-1">
+              <p className="font-medium">
+                Integrity error: citation cycle
+                {activeGraph.cycles.length !== 1 ? "s" : ""} detected
+              </p>
+              {activeGraph.cycles.map((cycle) => (
+                <p key={cycle.join("/")} className="text-xs font-mono break-all">
+                  {cycle.join(" → ")}
+                </p>
+              ))}
+            </div>
+          )}
+
           {loading ? (
             <p className="text-sm text-muted-foreground">Loading lineage...</p>
-          ) : lineage.length === 0 ? (
+          ) : tab === "impacted" ? (
+            dependentsTree.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nothing depends on this chunk. No other chunk cites it.
+              </p>
+            ) : (
+              <>
+                <div className="text-sm text-muted-foreground">
+                  {dependentCount} chunk{dependentCount !== 1 ? "s" : ""}{" "}
+                  depend on this, reaching {reportLevelCount} report-level
+                  insight{reportLevelCount !== 1 ? "s" : ""}
+                </div>
+                {layout === "graph" && dependents ? (
+                  <LineageGraphView
+                    graph={dependents}
+                    onSelectChunk={handleSelectChunk}
+                  />
+                ) : layout === "timeline" && dependents ? (
+                  <LineageTimeline
+                    graph={dependents}
+                    onSelectChunk={handleSelectChunk}
+                  />
+                ) : (
+                  <LineageTree
+                    nodes={dependentsTree}
+                    onSelectChunk={handleSelectChunk}
+                    claims={claims}
+                    confidence={confidence}
+                  />
+                )}
+              </>
+            )
+          ) : lineageTree.length === 0 ? (
             <p className="text-sm text-muted-foreground">
               No citations found. This chunk does not cite any sources.
             </p>
           ) : (
             <>
               <div className="text-sm text-muted-foreground">
-                Found {lineage.length} citation{lineage.length !== 1 ? "s" : ""}{" "}
-                in lineage
+                Found {sourceCount} source{sourceCount !== 1 ? "s" : ""} in
+                lineage ({lineageTree.length} direct citation
+                {lineageTree.length !== 1 ? "s" : ""})
+              </div>
+              {supersededCount > 0 && (
+                <div className="rounded-md border border-amber-400 bg-amber-50 dark:bg-amber-950 p-3 text-sm text-amber-800 dark:text-amber-300">
+                  This lineage rests on {supersededCount} superseded chunk
+                  {supersededCount !== 1 ? "s" : ""}. Review the corrected
+                  versions before relying on these figures.
+                </div>
+              )}
+              {temporalCheck && temporalCheck.out_of_order.length > 0 && (
+                <div className="rounded-md border border-red-400 bg-red-50 dark:bg-red-950 p-3 text-sm text-red-800 dark:text-red-300 space-y-1">
+                  <p className="font-medium">
+                    {temporalCheck.out_of_order.length} citation
+                    {temporalCheck.out_of_order.length !== 1 ? "s" : ""} point to
+                    chunks created after the chunk citing them
+                  </p>
+                  {temporalCheck.out_of_order.map((edge) => (
+                    <p
+                      key={`${edge.source_chunk_id}|${edge.target_chunk_id}|${edge.citation_marker ?? ""}`}
+                      className="text-xs font-mono break-all"
+                    >
+                      {edge.source_chunk_id} {edge.citation_marker ?? ""} (
+                      {new Date(edge.source_created_at).toLocaleDateString()}) →{" "}
+                      {edge.target_chunk_id} ({new Date(edge.target_created_at).toLocaleDateString()})
+                    </p>
+                  ))}
+                </div>
+              )}
+              {temporalCheck?.stale && temporalCheck.newest_source && (
+                <div className="rounded-md border border-amber-400 bg-amber-50 dark:bg-amber-950 p-3 text-sm text-amber-800 dark:text-amber-300">
+                  Stale data: the newest raw source in this lineage,{" "}
+                  {temporalCheck.newest_source.chunk_id}, is{" "}
+                  {formatAge(temporalCheck.newest_source_age_days ?? 0)} old (
+                  {temporalCheck.newest_source.date_basis === "published_at" ? "published" : "entered"}{" "}
+                  {new Date(temporalCheck.newest_source.date).toLocaleDateString()}).
+                </div>
+              )}
+              <div className="flex items-center gap-4 flex-wrap text-xs text-muted-foreground">
+                {layout === "tree" && (
+                  <label className="flex items-center gap-2">
+                    Show
+                    <select
+                      className="rounded-md border px-2 py-1 text-xs bg-background"
+                      value={evidenceFilter}
+                      onChange={(e) =>
+                        setEvidenceFilter(e.target.value as EvidenceFilter)
+                      }
+                    >
+                      {EVIDENCE_FILTERS.map((filter) => (
+                        <option key={filter.value} value={filter.value}>
+                          {filter.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <label className="flex items-center gap-2">
+                  Sources stale after
+                  <select
+                    className="rounded-md border px-2 py-1 text-xs bg-background"
+                    value={maxSourceAgeDays}
+                    onChange={(e) => setMaxSourceAgeDays(Number(e.target.value))}
+                  >
+                    {STALENESS_THRESHOLDS.map((threshold) => (
+                      <option key={threshold.value} value={threshold.value}>
+                        {threshold.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
               </div>
-              <LineageTree nodes={lineage} />
+              {layout === "graph" && lineage ? (
+                <LineageGraphView
+                  graph={lineage}
+                  onSelectChunk={handleSelectChunk}
+                />
+              ) : layout === "timeline" && lineage ? (
+                <LineageTimeline
+                  graph={lineage}
+                  onSelectChunk={handleSelectChunk}
+                />
+              ) : filteredLineageTree.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No {evidenceFilter} citations in this lineage.
+                </p>
+              ) : (
+                <LineageTree
+                  nodes={filteredLineageTree}
+                  onSelectChunk={handleSelectChunk}
+                  claims={claims}
+                  confidence={confidence}
+                />
+              )}
             </>
           )}
+
+          {!loading && activeGraph?.truncated && (
+            <div className="flex items-center justify-between rounded-md border p-3 text-sm">
+              {activeGraph.max_depth >= MAX_DEPTH_LIMIT ? (
+                // The server clamps deeper requests, so another click would return the same graph
+                <span className="text-muted-foreground">
+                  Depth limit of {MAX_DEPTH_LIMIT} hops reached; deeper levels are not shown
+                </span>
+              ) : (
+                <>
+                  <span className="text-muted-foreground">
+                    More levels available beyond {activeGraph.max_depth} hops
+                  </span>
+                  <Button size="sm" variant="outline" onClick={handleShowMoreLevels}>
+                    Show more levels
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {rootChunk && (
+            <div className="rounded-md border p-3">
+              <RelatedChunks
+                related={relatedChunks}
+                onSelectChunk={handleSelectChunk}
+              />
+            </div>
+          )}
         </div>
       </SheetContent>
     </Sheet>
@@ -0,0 +1,260 @@
+/**
+ * SVG timeline of a citation lineage: nodes plotted by created_at, one lane per stage.
+ *
+ * Input data sources: LineageGraph from server actions
+ * Output destinations: Timeline display in lineage sheet, triggers onSelectChunk on node click
+ * Dependencies: lib/temporal.ts (parseTimestamp, findOutOfOrderCitations), LineageGraph types
+ * Key exports: LineageTimeline component
+ * Side effects: None
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { findOutOfOrderCitations, parseTimestamp } from "@/lib/temporal";
+import type { LineageGraph, LineageGraphNode } from "@/lib/types";
+
+const STAGE_LABELS = ["Raw", "Insight", "Synthesis", "Executive"];
+const WIDTH = 640;
+const LABEL_WIDTH = 72;
+const AXIS_HEIGHT = 36;
+const LANE_HEIGHT = 64;
+const PADDING = 28;
+const TICK_COUNT = 5;
+const NODE_RADIUS = 7;
+
+interface LineageTimelineProps {
+  graph: LineageGraph;
+  onSelectChunk?: (chunkId: string) => void;
+}
+
+interface PlottedNode {
+  node: LineageGraphNode;
+  x: number;
+  y: number;
+  labelAbove: boolean;
+}
+
+export function LineageTimeline({ graph, onSelectChunk }: LineageTimelineProps) {
+  const layout = useMemo(() => layoutByDate(graph), [graph]);
+  // Citations whose target postdates the citing chunk, and the chunks at either end of one
+  const { lateEdges, lateChunks } = useMemo(() => {
+    const late = findOutOfOrderCitations(graph);
+    return {
+      lateEdges: new Set(
+        late.map((edge) => `${edge.source_chunk_id}|${edge.target_chunk_id}`)
+      ),
+      lateChunks: new Set(
+        late.flatMap((edge) => [edge.source_chunk_id, edge.target_chunk_id])
+      ),
+    };
+  }, [graph]);
+
+  const height = AXIS_HEIGHT + layout.stages.length * LANE_HEIGHT + PADDING / 2;
+
+  return (
+    <div className="space-y-2">
+      {layout.positions.size === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No chunk in this lineage has a creation date to plot.
+        </p>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${height}`}
+          className="w-full rounded-md border bg-muted/20 select-none"
+        >
+          <defs>
+            <marker
+              id="timeline-arrow"
+              viewBox="0 0 10 10"
+              refX="10"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+            </marker>
+          </defs>
+
+          {layout.ticks.map((tick) => (
+            <g key={tick.time} className="text-muted-foreground">
+              <line
+                x1={tick.x}
+                x2={tick.x}
+                y1={AXIS_HEIGHT - 6}
+                y2={height - PADDING / 2}
+                stroke="currentColor"
+                strokeOpacity={0.2}
+              />
+              <text
+                x={tick.x}
+                y={AXIS_HEIGHT - 12}
+                textAnchor="middle"
+                className="fill-current text-[10px]"
+              >
+                {formatTick(tick.time)}
+              </text>
+            </g>
+          ))}
+
+          {layout.stages.map((stage, lane) => (
+            <text
+              key={stage}
+              x={8}
+              y={AXIS_HEIGHT + lane * LANE_HEIGHT + LANE_HEIGHT / 2 + 4}
+              className="fill-muted-foreground text-xs"
+            >
+              {STAGE_LABELS[stage] ?? `Stage ${stage}`}
+            </text>
+          ))}
+
+          {graph.edges.map((edge) => {
+            const source = layout.positions.get(edge.source_chunk_id);
+            const target = layout.positions.get(edge.target_chunk_id);
+            if (!source || !target) return null;
+
+            const late = lateEdges.has(`${edge.source_chunk_id}|${edge.target_chunk_id}`);
+            // Shorten the line so the arrowhead stops at the cited node's edge
+            const dx = target.x - source.x;
+            const dy = target.y - source.y;
+            const length = Math.hypot(dx, dy) || 1;
+            const inset = NODE_RADIUS + 2;
+
+            return (
+              <line
+                key={`${edge.source_chunk_id}|${edge.target_chunk_id}|${edge.citation_marker ?? ""}`}
+                x1={source.x + (dx / length) * inset}
+                y1={source.y + (dy / length) * inset}
+                x2={target.x - (dx / length) * inset}
+                y2={target.y - (dy / length) * inset}
+                stroke="currentColor"
+                strokeWidth={late ? 2 : 1.25}
+                strokeDasharray={late ? "4 3" : undefined}
+                className={late ? "text-red-500" : "text-gray-400 dark:text-gray-600"}
+                markerEnd="url(#timeline-arrow)"
+              >
+                {late && (
+                  <title>
+                    {edge.source_chunk_id} cites {edge.target_chunk_id}, which was
+                    created later
+                  </title>
+                )}
+              </line>
+            );
+          })}
+
+          {[...layout.positions.values()].map(({ node, x, y, labelAbove }) => {
+            const isRoot = node.chunk_id === graph.root_chunk_id;
+            const late = lateChunks.has(node.chunk_id);
+
+            return (
+              <g
+                key={node.chunk_id}
+                className="cursor-pointer"
+                onClick={() => onSelectChunk?.(node.chunk_id)}
+              >
+                <title>
+                  {node.chunk_id} · {node.chunk.created_at}
+                </title>
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={NODE_RADIUS}
+                  className={`${node.chunk.type === "insight" ? "fill-blue-500" : "fill-gray-500"} ${late ? "stroke-red-500" : ""}`}
+                  stroke={isRoot ? "currentColor" : "none"}
+                  strokeWidth={late || isRoot ? 2.5 : 0}
+                />
+                <text
+                  x={x}
+                  y={labelAbove ? y - NODE_RADIUS - 5 : y + NODE_RADIUS + 12}
+                  textAnchor="middle"
+                  className={`text-[9px] ${isRoot ? "fill-foreground font-semibold" : "fill-muted-foreground"}`}
+                >
+                  {truncate(node.chunk_id, 24)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      {layout.undated.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not plotted (no creation date): {layout.undated.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * x from created_at across the lineage's date range, one lane per stage (raw at the bottom);
+ * labels alternate above and below within a lane so neighbors overlap less
+ */
+function layoutByDate(graph: LineageGraph): {
+  stages: number[];
+  positions: Map<string, PlottedNode>;
+  ticks: { time: number; x: number }[];
+  undated: string[];
+} {
+  const dated = graph.nodes
+    .map((node) => ({ node, time: parseTimestamp(node.chunk.created_at) }))
+    .filter((entry): entry is { node: LineageGraphNode; time: number } => entry.time !== null)
+    .sort((a, b) => a.time - b.time || a.node.chunk_id.localeCompare(b.node.chunk_id));
+  const undated = graph.nodes
+    .filter((node) => parseTimestamp(node.chunk.created_at) === null)
+    .map((node) => node.chunk_id)
+    .sort();
+
+  const stages = [...new Set(dated.map(({ node }) => node.chunk.stage))].sort(
+    (a, b) => b - a
+  );
+  const positions = new Map<string, PlottedNode>();
+  if (dated.length === 0) {
+    return { stages, positions, ticks: [], undated };
+  }
+
+  const min = dated[0].time;
+  const max = dated[dated.length - 1].time;
+  const left = LABEL_WIDTH + PADDING;
+  const span = WIDTH - PADDING - left;
+  const xFor = (time: number) =>
+    max === min ? left + span / 2 : left + ((time - min) / (max - min)) * span;
+
+  const laneCounts = new Map<number, number>();
+  for (const { node, time } of dated) {
+    const lane = stages.indexOf(node.chunk.stage);
+    const count = laneCounts.get(lane) ?? 0;
+    laneCounts.set(lane, count + 1);
+    positions.set(node.chunk_id, {
+      node,
+      x: xFor(time),
+      y: AXIS_HEIGHT + lane * LANE_HEIGHT + LANE_HEIGHT / 2,
+      labelAbove: count % 2 === 1,
+    });
+  }
+
+  const ticks =
+    max === min
+      ? [{ time: min, x: xFor(min) }]
+      : Array.from({ length: TICK_COUNT }, (_, index) => {
+          const time = min + ((max - min) * index) / (TICK_COUNT - 1);
+          return { time, x: xFor(time) };
+        });
+
+  return { stages, positions, ticks, undated };
+}
+
+function formatTick(time: number): string {
+  return new Date(time).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
@@ -1,9 +1,10 @@
 /**
  * Recursive tree component for visualizing citation lineage with indentation and metadata.
  *
- * Input data sources: LineageNode array from server actions
- * Output destinations: Visual tree display in lineage sheet
- * Dependencies: shadcn/ui components (Badge, Card), LineageNode type
+ * Input data sources: LineageNode array built from a lineage graph (lib/lineage-graph.ts)
+ * Output destinations: Visual tree display in lineage sheet, triggers onSelectChunk for replacements
+ * Dependencies: shadcn/ui components (Badge, Card), ClaimText, ConfidenceBadge, RelationshipBadge,
+ *   formatSourceReference, checkQuote, LineageNode, ClaimCheck and ConfidenceResult types
  * Key exports: LineageTree component
  * Side effects: None
  */
@@ -12,23 +13,43 @@
 
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
-import type { LineageNode } from "@/lib/types";
+import { ClaimText } from "./claim-text";
+import { ConfidenceBadge } from "./confidence-badge";
+import {
+  RelationshipBadge,
+  RELATIONSHIP_BORDER_STYLES,
+} from "./relationship-badge";
+import { checkQuote, describeQuoteCheck } from "@/lib/quotes";
+import { formatSourceReference } from "@/lib/source-reference";
+import type { ClaimCheck, ConfidenceResult, LineageNode } from "@/lib/types";
 
 interface LineageTreeProps {
   nodes: LineageNode[];
   level?: number;
+  onSelectChunk?: (chunkId: string) => void;
+  claims?: Record<string, ClaimCheck[]>; // Keyed by chunk_id
+  confidence?: Record<string, ConfidenceResult>; // Keyed by chunk_id
 }
 
-export function LineageTree({ nodes, level = 0 }: LineageTreeProps) {
+export function LineageTree({
+  nodes,
+  level = 0,
+  onSelectChunk,
+  claims,
+  confidence,
+}: LineageTreeProps) {
   if (nodes.length === 0) return null;
 
   return (
     <div className="space-y-3">
       {nodes.map((node) => (
         <TreeNode
-          key={node.chunk_id}
+          key={`${node.citation_marker ?? ""}-${node.chunk_id}`}
           node={node}
           level={level}
+          onSelectChunk={onSelectChunk}
+          claims={claims}
+          confidence={confidence}
         />
       ))}
     </div>
@@ -38,36 +59,138 @@ export function LineageTree({ nodes, level = 0 }: LineageTreeProps) {
 interface TreeNodeProps {
   node: LineageNode;
   level: number;
+  onSelectChunk?: (chunkId: string) => void;
+  claims?: Record<string, ClaimCheck[]>;
+  confidence?: Record<string, ConfidenceResult>;
 }
 
-function TreeNode({ node, level }: TreeNodeProps) {
+function TreeNode({
+  node,
+  level,
+  onSelectChunk,
+  claims,
+  confidence,
+}: TreeNodeProps) {
   const { chunk, children, citation_marker } = node;
+  const replacementId = chunk.superseded_by;
+  const checks = claims?.[chunk.chunk_id];
+  const sourceReference = formatSourceReference(chunk);
+  const quoteCheck = node.quote ? checkQuote(chunk.text, node.quote) : null;
+  const untracedCount =
+    checks?.filter((check) => check.status === "untraced").length ?? 0;
 
   const badgeColor = chunk.type === "insight"
     ? "bg-blue-500 text-white"
     : "bg-gray-500 text-white";
+  // Edges are drawn as the card's left border, colored by relationship type
+  const edgeStyle = node.relationship_type
+    ? `border-l-4 ${RELATIONSHIP_BORDER_STYLES[node.relationship_type]}`
+    : "";
+
+  // Shared node already expanded elsewhere in the tree
+  if (node.is_repeat) {
+    return (
+      <Card
+        className={`px-4 py-2 ${
+          level > 0 ? "ml-8" : ""
+        } border-dashed border-gray-200 dark:border-gray-700 ${edgeStyle}`}
+      >
+        <div className="flex items-center gap-2 flex-wrap">
+          {citation_marker && (
+            <span className="text-sm text-muted-foreground">{citation_marker}</span>
+          )}
+          <RelationshipBadge type={node.relationship_type} />
+          <Badge className={badgeColor}>{chunk.chunk_id}</Badge>
+          <span className="text-xs text-muted-foreground italic">
+            also cited above
+            {node.quote && <> · quoting &ldquo;{node.quote.text}&rdquo;</>}
+          </span>
+        </div>
+      </Card>
+    );
+  }
 
   return (
     <div className="relative">
       {/* Node content */}
       <Card
-        className={`p-4 ${
-          level > 0 ? "ml-8" : ""
-        } border-gray-200 dark:border-gray-700`}
+        className={`p-4 ${level > 0 ? "ml-8" : ""} ${
+          replacementId
+            ? "border-amber-400 dark:border-amber-600"
+            : "border-gray-200 dark:border-gray-700"
+        } ${edgeStyle}`}
       >
         <div className="space-y-2">
           <div className="flex items-center gap-2 flex-wrap">
             {citation_marker && (
               <span className="text-sm text-muted-foreground">{citation_marker}</span>
             )}
+            <RelationshipBadge type={node.relationship_type} />
             <Badge className={badgeColor}>{chunk.chunk_id}</Badge>
+            <ConfidenceBadge result={confidence?.[chunk.chunk_id]} />
+            {quoteCheck?.status === "missing" && (
+              <Badge className="bg-red-500 text-white">Quote not found</Badge>
+            )}
+            {replacementId && (
+              <Badge className="bg-amber-500 text-white">Superseded</Badge>
+            )}
+            {untracedCount > 0 && (
+              <Badge className="bg-red-500 text-white">
+                {untracedCount} untraced figure{untracedCount !== 1 ? "s" : ""}
+              </Badge>
+            )}
           </div>
 
-          <p className="text-sm leading-relaxed">{chunk.text}</p>
+          {replacementId && (
+            <p className="text-xs text-amber-700 dark:text-amber-400">
+              Corrected by{" "}
+              <button
+                type="button"
+                className="underline font-medium"
+                onClick={() => onSelectChunk?.(replacementId)}
+              >
+                {replacementId}
+              </button>
+            </p>
+          )}
+
+          <ClaimText
+            text={chunk.text}
+            checks={checks}
+            highlight={
+              quoteCheck?.start !== undefined && quoteCheck.end !== undefined
+                ? {
+                    start: quoteCheck.start,
+                    end: quoteCheck.end,
+                    title: `${describeQuoteCheck(quoteCheck)} cited as ${citation_marker ?? "a citation"}`,
+                  }
+                : undefined
+            }
+            className="text-sm leading-relaxed"
+          />
+
+          {quoteCheck?.status === "missing" && node.quote && (
+            <p className="text-xs text-red-700 dark:text-red-400">
+              Quoted passage &ldquo;{node.quote.text}&rdquo; is not in this chunk&apos;s text
+            </p>
+          )}
 
-          {chunk.type === "raw" && chunk.source_title && (
+          {chunk.type === "raw" && sourceReference && (
             <p className="text-xs text-muted-foreground italic">
-              Source: {chunk.source_title}
+              Source: {sourceReference}
+              {chunk.document?.url && (
+                <>
+                  {" "}
+                  <a
+                    href={chunk.document.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="underline"
+                  >
+                    Open
+                  </a>
+                </>
+              )}
             </p>
           )}
 
@@ -87,7 +210,13 @@ function TreeNode({ node, level }: TreeNodeProps) {
       {/* Recursive render of children */}
       {children.length > 0 && (
         <div className="mt-3">
-          <LineageTree nodes={children} level={level + 1} />
+          <LineageTree
+            nodes={children}
+            level={level + 1}
+            onSelectChunk={onSelectChunk}
+            claims={claims}
+            confidence={confidence}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,69 @@
+/**
+ * "Related but not cited" list: chunks with similar text that are outside the citation lineage.
+ *
+ * Input data sources: RelatedChunk[] from getRelatedChunks
+ * Output destinations: CitationPopover and LineageSheet; optional onSelectChunk callback
+ * Dependencies: shadcn/ui Badge, RelatedChunk type
+ * Key exports: RelatedChunks component
+ * Side effects: None
+ */
+
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import type { RelatedChunk } from "@/lib/types";
+
+interface RelatedChunksProps {
+  related: RelatedChunk[] | null; // null while loading
+  onSelectChunk?: (chunkId: string) => void;
+  compact?: boolean; // One-line previews for the popover
+}
+
+export function RelatedChunks({ related, onSelectChunk, compact }: RelatedChunksProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium">Related but not cited</p>
+      {related === null ? (
+        <p className="text-xs text-muted-foreground">Finding similar chunks...</p>
+      ) : related.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No similar chunks outside this lineage.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {related.map(({ chunk, score, shared_terms }) => (
+            <li key={chunk.chunk_id} className="text-xs space-y-0.5">
+              <div className="flex items-center gap-2 flex-wrap">
+                {onSelectChunk ? (
+                  <button
+                    type="button"
+                    className="font-mono underline break-all text-left"
+                    onClick={() => onSelectChunk(chunk.chunk_id)}
+                  >
+                    {chunk.chunk_id}
+                  </button>
+                ) : (
+                  <span className="font-mono break-all">{chunk.chunk_id}</span>
+                )}
+                <Badge variant="outline" className="text-[10px]">
+                  {chunk.type === "raw" ? "raw" : `stage ${chunk.stage}`}
+                </Badge>
+                <span className="text-muted-foreground">
+                  {Math.round(score * 100)}% similar
+                </span>
+              </div>
+              <p className={`text-muted-foreground ${compact ? "line-clamp-1" : "line-clamp-2"}`}>
+                {chunk.text}
+              </p>
+              {shared_terms.length > 0 && (
+                <p className="text-muted-foreground italic">
+                  Shared: {shared_terms.join(", ")}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Compact label for a typed citation (supports, contradicts, extends, quotes).
+ *
+ * Input data sources: relationship_type of a citation edge
+ * Output destinations: Inline label next to citation markers and lineage nodes
+ * Dependencies: lib/relationships.ts (RELATIONSHIP_TYPES), RelationshipType type
+ * Key exports: RelationshipBadge component, RELATIONSHIP_BORDER_STYLES
+ * Side effects: None
+ */
+
+import { RELATIONSHIP_TYPES } from "@/lib/relationships";
+import type { RelationshipType } from "@/lib/types";
+
+const BADGE_STYLES: Record<RelationshipType, string> = {
+  cites: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  supports: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  contradicts: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  extends: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  quotes: "bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200",
+};
+
+// Left edge of a lineage card, colored by the citation that leads to it
+export const RELATIONSHIP_BORDER_STYLES: Record<RelationshipType, string> = {
+  cites: "border-l-gray-300 dark:border-l-gray-600",
+  supports: "border-l-green-500",
+  contradicts: "border-l-red-500",
+  extends: "border-l-purple-500",
+  quotes: "border-l-sky-500",
+};
+
+interface RelationshipBadgeProps {
+  type?: RelationshipType;
+  className?: string;
+}
+
+// Plain "cites" edges carry no label
+export function RelationshipBadge({ type, className = "" }: RelationshipBadgeProps) {
+  if (!type || type === "cites") return null;
+
+  const entry = RELATIONSHIP_TYPES.find((candidate) => candidate.value === type);
+  return (
+    <span
+      className={`inline-block rounded-sm px-1 text-[10px] font-semibold leading-4 align-middle ${BADGE_STYLES[type]} ${className}`}
+      title={entry?.description}
+    >
+      {entry?.label.toLowerCase() ?? type}
+    </span>
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * Diff between two report revisions: References changes, raw-source changes and a line diff of the text.
+ *
+ * Input data sources: ReportDiff from getReportDiff
+ * Output destinations: /reports/[id]/history page
+ * Dependencies: shadcn/ui Badge, ReportDiff types
+ * Key exports: ReportDiffView component
+ * Side effects: None
+ */
+
+import { Badge } from "@/components/ui/badge";
+import type {
+  CitationChange,
+  RawSourceChange,
+  ReportDiff,
+  ReportDiffLine,
+} from "@/lib/types";
+
+// Unchanged lines kept around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 2;
+
+const CHANGE_STYLES: Record<CitationChange["kind"] | RawSourceChange["kind"], string> = {
+  added: "bg-green-600 text-white",
+  removed: "bg-red-600 text-white",
+  repointed: "bg-amber-500 text-white",
+  unchanged: "bg-gray-500 text-white",
+};
+
+const LINE_STYLES: Record<ReportDiffLine["kind"], string> = {
+  added: "bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-200",
+  removed: "bg-red-50 text-red-900 dark:bg-red-950 dark:text-red-200",
+  unchanged: "text-muted-foreground",
+};
+
+const LINE_PREFIX: Record<ReportDiffLine["kind"], string> = {
+  added: "+",
+  removed: "-",
+  unchanged: " ",
+};
+
+interface ReportDiffViewProps {
+  diff: ReportDiff;
+}
+
+export function ReportDiffView({ diff }: ReportDiffViewProps) {
+  const changedSources = diff.raw_sources.filter((source) => source.kind !== "unchanged");
+  const unchangedSources = diff.raw_sources.filter((source) => source.kind === "unchanged");
+  const hasTextChanges = diff.lines.some((line) => line.kind !== "unchanged");
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Citations</h2>
+        {diff.citations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Same markers, each pointing to the same chunk.
+          </p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {diff.citations.map((change) => (
+              <li key={change.marker} className="flex items-center gap-2 flex-wrap">
+                <Badge className={CHANGE_STYLES[change.kind]}>{change.kind}</Badge>
+                <span className="font-mono">{change.marker}</span>
+                <span className="font-mono text-xs break-all">
+                  {change.kind === "added"
+                    ? change.to_chunk_id ?? "(no References entry)"
+                    : change.kind === "removed"
+                      ? change.from_chunk_id ?? "(no References entry)"
+                      : `${change.from_chunk_id ?? "?"} → ${change.to_chunk_id ?? "?"}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Raw sources</h2>
+        <p className="text-sm text-muted-foreground">
+          {countOf(diff.raw_sources, "added")} added,{" "}
+          {countOf(diff.raw_sources, "removed")} removed,{" "}
+          {unchangedSources.length} unchanged across the lineage of every cited chunk
+        </p>
+        {changedSources.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {changedSources.map((source) => (
+              <RawSourceItem key={source.chunk_id} source={source} />
+            ))}
+          </ul>
+        )}
+        {unchangedSources.length > 0 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-muted-foreground">
+              Unchanged sources
+            </summary>
+            <ul className="mt-2 space-y-1">
+              {unchangedSources.map((source) => (
+                <RawSourceItem key={source.chunk_id} source={source} />
+              ))}
+            </ul>
+          </details>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Text</h2>
+        {!hasTextChanges ? (
+          <p className="text-sm text-muted-foreground">The text is identical.</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto font-mono text-xs">
+            {foldUnchanged(diff.lines).map((entry, index) =>
+              "folded" in entry ? (
+                <div
+                  key={`fold-${index}`}
+                  className="px-3 py-1 bg-muted/40 text-muted-foreground italic"
+                >
+                  … {entry.folded} unchanged line{entry.folded !== 1 ? "s" : ""}
+                </div>
+              ) : (
+                <div
+                  key={`${entry.from_line ?? ""}-${entry.to_line ?? ""}`}
+                  className={`flex gap-3 px-3 whitespace-pre-wrap ${LINE_STYLES[entry.kind]}`}
+                >
+                  <span className="w-8 shrink-0 text-right opacity-60 select-none">
+                    {entry.to_line ?? entry.from_line}
+                  </span>
+                  <span className="select-none">{LINE_PREFIX[entry.kind]}</span>
+                  <span className="min-w-0">{entry.text || " "}</span>
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function RawSourceItem({ source }: { source: RawSourceChange }) {
+  return (
+    <li className="flex items-start gap-2">
+      <Badge className={CHANGE_STYLES[source.kind]}>{source.kind}</Badge>
+      <span>
+        <span className="font-mono text-xs">{source.chunk_id}</span>
+        {source.reference && (
+          <span className="block text-xs text-muted-foreground">{source.reference}</span>
+        )}
+      </span>
+    </li>
+  );
+}
+
+function countOf(sources: RawSourceChange[], kind: RawSourceChange["kind"]): number {
+  return sources.filter((source) => source.kind === kind).length;
+}
+
+/**
+ * Keep CONTEXT_LINES unchanged lines on either side of each change and fold the rest
+ */
+function foldUnchanged(lines: ReportDiffLine[]): (ReportDiffLine | { folded: number })[] {
+  const near = lines.map((_, index) =>
+    lines
+      .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+      .some((line) => line.kind !== "unchanged")
+  );
+
+  const entries: (ReportDiffLine | { folded: number })[] = [];
+  lines.forEach((line, index) => {
+    if (near[index]) {
+      entries.push(line);
+      return;
+    }
+    const last = entries[entries.length - 1];
+    if (last && "folded" in last) {
+      last.folded++;
+    } else {
+      entries.push({ folded: 1 });
+    }
+  });
+  return entries;
+}
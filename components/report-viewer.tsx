@@ -0,0 +1,114 @@
+/**
+ * Stored report view: rendered markdown with interactive citations and the lineage sheet.
+ *
+ * Input data sources: Report and its citation lint issues loaded by the /reports/[id] page
+ * Output destinations: Lint warnings panel, rendered report, lineage side sheet, HTML audit download
+ * Dependencies: shadcn/ui Button, CitationLintPanel, InsightReport, LineageSheet, actions/audit-export,
+ *   lib/download, lib/confidence (rule options), Report, LintIssue and ConfidenceRule types
+ * Key exports: ReportViewer component
+ * Side effects: Triggers a file download on export (child components fetch chunk and lineage data)
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { CitationLintPanel } from "./citation-lint-panel";
+import { InsightReport } from "./insight-report";
+import { LineageSheet } from "./lineage-sheet";
+import { exportReportHtml } from "@/actions/audit-export";
+import { downloadFile } from "@/lib/download";
+import { CONFIDENCE_RULES, DEFAULT_CONFIDENCE_RULE } from "@/lib/confidence";
+import type { ConfidenceRule, LintIssue, Report } from "@/lib/types";
+
+interface ReportViewerProps {
+  report: Report;
+  lintIssues?: LintIssue[];
+}
+
+export function ReportViewer({ report, lintIssues = [] }: ReportViewerProps) {
+  const [selectedChunk, setSelectedChunk] = useState<string | null>(null);
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [confidenceRule, setConfidenceRule] = useState<ConfidenceRule>(
+    DEFAULT_CONFIDENCE_RULE
+  );
+
+  const handleCitationClick = (chunkId: string) => {
+    setSelectedChunk(chunkId);
+    setSheetOpen(true);
+  };
+
+  const handleExportHtml = async () => {
+    setExporting(true);
+    try {
+      const result = await exportReportHtml(report.id);
+      if (result.success) {
+        setExportError(null);
+        downloadFile(result.filename, result.content, result.mime_type);
+      } else {
+        setExportError(result.errors.join("; "));
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-4 flex items-center justify-end gap-3">
+        <label className="mr-auto flex items-center gap-2 text-xs text-muted-foreground">
+          Confidence rule
+          <select
+            className="rounded-md border px-2 py-1 text-xs bg-background"
+            value={confidenceRule}
+            onChange={(e) => setConfidenceRule(e.target.value as ConfidenceRule)}
+            title={
+              CONFIDENCE_RULES.find((rule) => rule.value === confidenceRule)
+                ?.description
+            }
+          >
+            {CONFIDENCE_RULES.map((rule) => (
+              <option key={rule.value} value={rule.value}>
+                {rule.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {exportError && (
+          <span className="text-xs text-red-600 dark:text-red-400">
+            {exportError}
+          </span>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleExportHtml}
+          disabled={exporting}
+        >
+          {exporting ? "Exporting..." : "Download audit HTML"}
+        </Button>
+      </div>
+
+      <CitationLintPanel
+        issues={lintIssues}
+        onSelectChunk={handleCitationClick}
+      />
+
+      <InsightReport
+        markdown={report.markdown}
+        onCitationClick={handleCitationClick}
+        confidenceRule={confidenceRule}
+      />
+
+      <LineageSheet
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        chunkId={selectedChunk}
+        reportId={report.id}
+        confidenceRule={confidenceRule}
+      />
+    </>
+  );
+}
@@ -0,0 +1,462 @@
+/**
+ * Command-line lineage explorer: inspect chunks, citation lineage and integrity without the Next.js app.
+ *
+ * Input data sources: SQLite database at data/trace-demo.db, command-line arguments
+ * Output destinations: Human-readable text (ASCII lineage trees) or, with --json, JSON on stdout
+ * Dependencies: ./store (chunk, citation and cycle queries), ./index (search, report and similarity index
+ *   queries), actions/lineage.ts (lineage graphs),
+ *   actions/lint.ts (citation lint), actions/supersede.ts (corrections), lib/lineage-graph.ts (trees), lib/search-utils.ts, lib/temporal.ts,
+ *   lib/source-reference.ts, lib/similarity.ts (reindex)
+ * Key exports: None (script)
+ * Side effects: supersede inserts a replacement chunk and retires the original; reindex rebuilds the
+ *   chunk_terms similarity index; sets exit code 1 when
+ *   validate finds errors or a supersede is rejected, 2 on usage errors or unknown chunks
+ */
+
+import {
+  listChunkTexts,
+  listReports,
+  replaceChunkTerms,
+  searchChunks,
+} from "./index";
+import { getLineageStore } from "./store";
+import { getDependents, getFullLineage } from "../actions/lineage";
+import { lintChunks, lintReport } from "../actions/lint";
+import { supersedeChunk } from "../actions/supersede";
+import {
+  buildLineageTree,
+  getTopLevelDependents,
+  MAX_DEPTH_LIMIT,
+} from "../lib/lineage-graph";
+import { splitHighlights, toFtsQuery } from "../lib/search-utils";
+import { formatSourceReference } from "../lib/source-reference";
+import { buildTermWeights } from "../lib/similarity";
+import { parseTimestamp } from "../lib/temporal";
+import type { Chunk, LineageGraph, LineageNode } from "../lib/types";
+
+const USAGE = `Usage: npx tsx db/cli.ts <command> [options]
+
+Commands:
+  show <chunk_id>                 Chunk text, metadata, citations and direct citers
+  lineage <chunk_id> [--depth N]  Everything the chunk cites, as a tree
+  dependents <chunk_id> [--depth N]
+                                  Everything that cites the chunk, as a tree
+  search <text> [--limit N]       Full-text search over chunk text and source titles
+  validate                        Integrity checks across the whole knowledge base
+  supersede <chunk_id> --text <corrected text> [--reason <why>] [--author <email>]
+                                  Publish a correction that replaces the chunk; markers
+                                  keep the original's citations
+  reindex                         Rebuild the related-sources similarity index
+
+Options:
+  --json                          Print JSON instead of text`;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const PREVIEW_LENGTH = 80;
+const VALUE_OPTIONS = ["depth", "limit", "text", "reason", "author"];
+
+interface ValidationIssue {
+  check: "citation-cycle" | "out-of-order-citation" | "cites-superseded" | "citation-lint";
+  severity: "error" | "warning";
+  target: string; // chunk_id, or "report N"
+  message: string;
+}
+
+class UsageError extends Error {}
+
+async function main(): Promise<void> {
+  const { command, positional, json, options } = parseArgs(process.argv.slice(2));
+
+  switch (command) {
+    case "show":
+      return show(requireArg(positional, "chunk_id"), json);
+    case "lineage":
+    case "dependents":
+      return lineage(command, requireArg(positional, "chunk_id"), numberOption(options, "depth"), json);
+    case "search":
+      return search(
+        requireArg(positional, "text"),
+        numberOption(options, "limit") ?? DEFAULT_SEARCH_LIMIT,
+        json
+      );
+    case "validate":
+      return validate(json);
+    case "supersede":
+      return supersede(requireArg(positional, "chunk_id"), options, json);
+    case "reindex":
+      return reindex(json);
+    case undefined:
+    case "help":
+      console.log(USAGE);
+      return;
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+async function show(chunkId: string, json: boolean): Promise<void> {
+  const store = getLineageStore();
+  const chunk = await requireChunk(chunkId);
+  const [citations, dependents] = await Promise.all([
+    store.getDirectCitations(chunkId),
+    store.getDependents(chunkId, 1),
+  ]);
+  const citedBy = [...new Set(dependents.rows.map((row) => row.source_chunk_id))];
+
+  if (json) {
+    printJson({ chunk, citations, cited_by: citedBy });
+    return;
+  }
+
+  console.log(chunk.chunk_id);
+  printField("Stage", `${chunk.stage} (${chunk.type})`);
+  printField("Status", chunk.superseded_by ? `superseded by ${chunk.superseded_by}` : chunk.status);
+  printField("Author", chunk.author);
+  printField("Created", chunk.created_at);
+  printField("Source", formatSourceReference(chunk));
+  console.log("");
+  console.log(chunk.text);
+
+  console.log("");
+  console.log(`Cites (${citations.length}):`);
+  for (const citation of citations) {
+    console.log(`  ${formatMarker(citation.citation_marker, citation.relationship_type)} ${citation.target_chunk_id}`);
+  }
+  console.log(`Cited by (${citedBy.length}):`);
+  for (const sourceId of citedBy) {
+    console.log(`  ${sourceId}`);
+  }
+}
+
+async function lineage(
+  direction: "lineage" | "dependents",
+  chunkId: string,
+  depth: number | undefined,
+  json: boolean
+): Promise<void> {
+  const root = await requireChunk(chunkId);
+  const graph =
+    direction === "lineage"
+      ? await getFullLineage(chunkId, depth)
+      : await getDependents(chunkId, depth);
+
+  if (json) {
+    printJson(graph);
+    return;
+  }
+
+  console.log(`${root.chunk_id}  ${describeChunk(root)}`);
+  printTree(buildLineageTree(graph), "");
+
+  console.log("");
+  console.log(summarizeGraph(graph));
+  if (direction === "dependents") {
+    const topLevel = getTopLevelDependents(graph);
+    console.log(`Top-level dependents: ${topLevel.length > 0 ? topLevel.join(", ") : "none"}`);
+  }
+  for (const cycle of graph.cycles) {
+    console.log(`Integrity error: citation cycle ${cycle.join(" → ")}`);
+  }
+  if (graph.truncated) {
+    console.log(`Truncated at depth ${graph.max_depth}; pass --depth to see more`);
+  }
+}
+
+function search(text: string, limit: number, json: boolean): void {
+  const rows = searchChunks(toFtsQuery(text), {}, limit);
+
+  if (json) {
+    printJson(
+      rows.map(({ snippet, ...chunk }) => ({
+        chunk,
+        snippet: splitHighlights(snippet).map((segment) => segment.text).join(""),
+      }))
+    );
+    return;
+  }
+
+  if (rows.length === 0) {
+    console.log(`No chunks match "${text}"`);
+    return;
+  }
+  for (const { snippet, ...chunk } of rows) {
+    console.log(`${chunk.chunk_id}  ${describeChunk(chunk)}`);
+    const highlighted = splitHighlights(snippet)
+      .map((segment) => (segment.highlighted ? `**${segment.text}**` : segment.text))
+      .join("");
+    console.log(`  ${collapseWhitespace(highlighted)}`);
+  }
+}
+
+/**
+ * Citation cycles, citations of newer or superseded chunks, and citation lint across every
+ * chunk and report; any error-level issue sets exit code 1
+ */
+async function validate(json: boolean): Promise<void> {
+  const store = getLineageStore();
+  const issues: ValidationIssue[] = [];
+  const chunks = new Map(
+    (await store.getChunks(await store.listChunkIds())).map((chunk) => [chunk.chunk_id, chunk])
+  );
+  const lineages = await store.getFullLineages([...chunks.keys()], MAX_DEPTH_LIMIT);
+  const seenCycles = new Set<string>();
+
+  for (const [chunkId, chunk] of chunks) {
+    for (const cycle of lineages[chunkId]?.cycles ?? []) {
+      const key = normalizeCycle(cycle).join("/");
+      if (seenCycles.has(key)) continue;
+      seenCycles.add(key);
+      issues.push({
+        check: "citation-cycle",
+        severity: "error",
+        target: cycle[0],
+        message: `Citation cycle ${cycle.join(" → ")}`,
+      });
+    }
+
+    for (const citation of await store.getDirectCitations(chunkId)) {
+      const target = chunks.get(citation.target_chunk_id);
+      if (!target) continue;
+      const marker = citation.citation_marker ? `${citation.citation_marker} ` : "";
+
+      const sourceTime = parseTimestamp(chunk.created_at);
+      const targetTime = parseTimestamp(target.created_at);
+      if (sourceTime !== null && targetTime !== null && targetTime > sourceTime) {
+        issues.push({
+          check: "out-of-order-citation",
+          severity: "error",
+          target: chunkId,
+          message: `${marker}cites ${target.chunk_id} (created ${target.created_at}), which is newer than the citing chunk (created ${chunk.created_at})`,
+        });
+      }
+      if (target.superseded_by) {
+        issues.push({
+          check: "cites-superseded",
+          severity: "warning",
+          target: chunkId,
+          message: `${marker}cites ${target.chunk_id}, which is superseded by ${target.superseded_by}`,
+        });
+      }
+    }
+  }
+
+  for (const report of listReports()) {
+    for (const issue of (await lintReport(report.id)) ?? []) {
+      // Cited-chunk issues are reported once by lintChunks below
+      if (issue.chunk_id) continue;
+      issues.push({
+        check: "citation-lint",
+        severity: issue.severity,
+        target: `report ${report.id}`,
+        message: `${issue.line}:${issue.column} ${issue.rule} ${issue.message}`,
+      });
+    }
+  }
+  for (const issue of await lintChunks()) {
+    issues.push({
+      check: "citation-lint",
+      severity: issue.severity,
+      target: issue.chunk_id ?? "",
+      message: `${issue.line}:${issue.column} ${issue.rule} ${issue.message}`,
+    });
+  }
+
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+
+  if (json) {
+    printJson({ chunks_checked: chunks.size, errors: errorCount, warnings: warningCount, issues });
+  } else {
+    for (const issue of issues) {
+      console.log(`${issue.target} ${issue.severity} ${issue.check} ${issue.message}`);
+    }
+    console.log(
+      `${chunks.size} chunks checked: ${errorCount} error${errorCount !== 1 ? "s" : ""}, ${warningCount} warning${warningCount !== 1 ? "s" : ""}`
+    );
+  }
+  if (errorCount > 0) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Correct a published chunk: the replacement gets the next _vN id and the original is marked superseded
+ */
+async function supersede(
+  chunkId: string,
+  options: Map<string, string>,
+  json: boolean
+): Promise<void> {
+  await requireChunk(chunkId);
+  const text = options.get("text")?.trim();
+  if (!text) {
+    throw new UsageError("supersede needs --text");
+  }
+
+  const result = await supersedeChunk({
+    chunkId,
+    text,
+    reason: options.get("reason"),
+    author: options.get("author"),
+  });
+
+  if (json) {
+    printJson(result);
+  } else if (result.success) {
+    console.log(`${chunkId} superseded by ${result.chunk_id}`);
+  } else {
+    for (const error of result.errors) {
+      console.error(error);
+    }
+  }
+  if (!result.success) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Ingest and supersession only weight the chunks they add, so older weights keep the idf of
+ * a smaller corpus; a full rebuild brings every chunk up to date
+ */
+function reindex(json: boolean): void {
+  const chunks = listChunkTexts();
+  const weights = buildTermWeights(chunks);
+  replaceChunkTerms(weights);
+
+  if (json) {
+    printJson({ chunks: chunks.length, terms: weights.length });
+  } else {
+    console.log(`Indexed ${weights.length} terms across ${chunks.length} chunks`);
+  }
+}
+
+function printTree(nodes: LineageNode[], indent: string): void {
+  nodes.forEach((node, index) => {
+    const last = index === nodes.length - 1;
+    const label = [
+      formatMarker(node.citation_marker, node.relationship_type),
+      node.chunk_id,
+      node.is_repeat ? "(repeat, expanded above)" : describeChunk(node.chunk),
+    ].join(" ");
+
+    console.log(`${indent}${last ? "└── " : "├── "}${label}`);
+    printTree(node.children, `${indent}${last ? "    " : "│   "}`);
+  });
+}
+
+function summarizeGraph(graph: LineageGraph): string {
+  const others = graph.nodes.filter((node) => node.chunk_id !== graph.root_chunk_id);
+  const raw = others.filter((node) => node.chunk.type === "raw").length;
+  const depth = Math.max(0, ...others.map((node) => node.depth));
+  return `${others.length} chunk${others.length !== 1 ? "s" : ""} (${raw} raw, ${others.length - raw} insight), ${graph.edges.length} citation${graph.edges.length !== 1 ? "s" : ""}, ${depth} level${depth !== 1 ? "s" : ""} deep`;
+}
+
+/**
+ * "stage 2 insight, superseded · "First words of the text…""
+ */
+function describeChunk(chunk: Chunk): string {
+  const status = chunk.superseded_by ? ", superseded" : "";
+  const text = collapseWhitespace(chunk.text);
+  const preview = text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+  return `stage ${chunk.stage} ${chunk.type}${status} · "${preview}"`;
+}
+
+function formatMarker(marker: string | undefined, relationshipType?: string): string {
+  const relationship =
+    relationshipType && relationshipType !== "cites" ? `:${relationshipType}` : "";
+  return marker ? `${marker.replace(/\]$/, "")}${relationship}]` : `[-${relationship}]`;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Rotate a closed loop ([a, b, a]) to start at its smallest chunk_id so each cycle is reported once
+ */
+function normalizeCycle(cycle: string[]): string[] {
+  const loop = cycle.slice(0, -1);
+  const start = loop.indexOf([...loop].sort()[0]);
+  return [...loop.slice(start), ...loop.slice(0, start)];
+}
+
+function printField(label: string, value: string | null | undefined): void {
+  if (value) {
+    console.log(`  ${label}: ${value}`);
+  }
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+async function requireChunk(chunkId: string): Promise<Chunk> {
+  const chunk = await getLineageStore().getChunk(chunkId);
+  if (!chunk) {
+    console.error(`Chunk ${chunkId} not found`);
+    process.exit(2);
+  }
+  return chunk;
+}
+
+function requireArg(positional: string[], name: string): string {
+  const value = positional.join(" ").trim();
+  if (!value) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+function numberOption(options: Map<string, string>, name: string): number | undefined {
+  const raw = options.get(name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new UsageError(`--${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+function parseArgs(args: string[]): {
+  command: string | undefined;
+  positional: string[];
+  json: boolean;
+  options: Map<string, string>;
+} {
+  const positional: string[] = [];
+  const options = new Map<string, string>();
+  let json = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--json") {
+      json = true;
+    } else if (arg === "--help" || arg === "-h") {
+      positional.unshift("help");
+    } else if (arg.startsWith("--")) {
+      if (!VALUE_OPTIONS.includes(arg.slice(2))) {
+        throw new UsageError(`Unknown option ${arg}`);
+      }
+      const value = args[i + 1];
+      if (value === undefined) {
+        throw new UsageError(`${arg} needs a value`);
+      }
+      options.set(arg.slice(2), value);
+      i++;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command, ...rest] = positional;
+  return { command, positional: rest, json, options };
+}
+
+main().catch((error) => {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  throw error;
+});
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  addCitation,
+  deleteChunk,
+  deleteCitation,
+  getChunk,
+  getDb,
+  getDirectCitations,
+  getImmutabilityAudit,
+  ImmutableChunkError,
+  initDb,
+  insertChunksWithCitations,
+  resetDb,
+  updateChunk,
+} from "./index";
+
+function insertDraft(chunkId: string, text: string): void {
+  getDb()
+    .prepare("INSERT INTO content (chunk_id, text, stage, type, status) VALUES (?, ?, 1, 'insight', 'draft')")
+    .run(chunkId, text);
+}
+
+beforeEach(() => {
+  resetDb();
+  initDb();
+  insertChunksWithCitations(
+    [
+      { chunk_id: "raw_survey", text: "Adoption reached 78% in Q3 2024.", stage: 0, type: "raw" },
+      { chunk_id: "raw_financials", text: "Revenue grew 24% to $145M.", stage: 0, type: "raw" },
+      { chunk_id: "ins_adoption", text: "Adoption is high[1].", stage: 1, type: "insight" },
+    ],
+    [{ source_chunk_id: "ins_adoption", target_chunk_id: "raw_survey", citation_marker: "[1]" }]
+  );
+});
+
+describe("content status", () => {
+  it("only accepts draft, published or superseded", () => {
+    expect(() =>
+      getDb()
+        .prepare("INSERT INTO content (chunk_id, text, stage, type, status) VALUES ('x', 'x', 1, 'insight', 'archived')")
+        .run()
+    ).toThrow(/CHECK constraint failed/);
+    insertDraft("ins_draft", "Draft.");
+    expect(() => updateChunk("ins_draft", { status: "archived" })).toThrow(/CHECK constraint failed/);
+  });
+});
+
+describe("immutability triggers", () => {
+  it("reject text changes on a published chunk and audit the attempt", () => {
+    expect(() => updateChunk("ins_adoption", { text: "Adoption is low[1]." })).toThrow(ImmutableChunkError);
+
+    expect(getChunk("ins_adoption")?.text).toBe("Adoption is high[1].");
+    expect(getImmutabilityAudit("ins_adoption")).toMatchObject([{ operation: "update_chunk" }]);
+  });
+
+  it("reject every status change out of published except to superseded", () => {
+    for (const status of ["draft", "archived"]) {
+      expect(() => updateChunk("ins_adoption", { status })).toThrow(ImmutableChunkError);
+    }
+
+    updateChunk("ins_adoption", { status: "superseded" });
+    expect(getChunk("ins_adoption")?.status).toBe("superseded");
+  });
+
+  it("never let a superseded chunk change status again", () => {
+    updateChunk("ins_adoption", { status: "superseded" });
+
+    for (const status of ["published", "draft", "archived"]) {
+      expect(() => updateChunk("ins_adoption", { status })).toThrow(ImmutableChunkError);
+    }
+    expect(() => updateChunk("ins_adoption", { text: "Rewritten[1]." })).toThrow(ImmutableChunkError);
+  });
+
+  it("also hold for writes that bypass the guarded helpers", () => {
+    const db = getDb();
+
+    expect(() =>
+      db.prepare("UPDATE content SET status = 'draft', text = 'Rewritten' WHERE chunk_id = 'ins_adoption'").run()
+    ).toThrow(/^immutable:/);
+    expect(() =>
+      db.prepare("UPDATE citations SET target_chunk_id = 'raw_financials' WHERE source_chunk_id = 'ins_adoption'").run()
+    ).toThrow(/^immutable:/);
+    expect(() => db.prepare("DELETE FROM content WHERE chunk_id = 'raw_survey'").run()).toThrow(/^immutable:/);
+  });
+
+  it("let a reliability rating be revised after publication", () => {
+    updateChunk("raw_survey", { reliability: 0.6 });
+
+    expect(getChunk("raw_survey")?.reliability).toBe(0.6);
+  });
+
+  it("lock the citations of published and superseded chunks", () => {
+    const citation = { source_chunk_id: "ins_adoption", target_chunk_id: "raw_financials", citation_marker: "[2]" };
+
+    expect(() => addCitation(citation)).toThrow(ImmutableChunkError);
+    expect(() => deleteCitation("ins_adoption", "[1]")).toThrow(ImmutableChunkError);
+    updateChunk("ins_adoption", { status: "superseded" });
+    expect(() => addCitation(citation)).toThrow(ImmutableChunkError);
+    expect(getDirectCitations("ins_adoption").map((row) => row.citation_marker)).toEqual(["[1]"]);
+  });
+
+  it("leave drafts editable until they are published", () => {
+    insertDraft("ins_draft", "Draft[1].");
+    addCitation({ source_chunk_id: "ins_draft", target_chunk_id: "raw_survey", citation_marker: "[1]" });
+    updateChunk("ins_draft", { text: "Edited draft[1]." });
+    deleteCitation("ins_draft", "[1]");
+    deleteChunk("ins_draft");
+
+    expect(getChunk("ins_draft")).toBeNull();
+    expect(() => deleteChunk("raw_survey")).toThrow(ImmutableChunkError);
+  });
+});
@@ -1,22 +1,52 @@
 /**
  * Database connection utilities and query helpers for citation lineage tracking.
  *
- * Input data sources: SQLite database at data/trace-demo.db
+ * Input data sources: SQLite database at data/trace-demo.db (or LINEAGE_DB_PATH)
  * Output destinations: Returns chunks, citations, and lineage data structures
- * Dependencies: better-sqlite3, fs, path
- * Key exports: getDb, initDb, getChunk, getDirectCitations, getFullLineage
- * Side effects: Creates database connection singleton, creates tables via schema.sql
+ * Dependencies: better-sqlite3, fs, path, ./types (row and input types, re-exported here)
+ * Key exports: getDb, initDb, resetDb, getChunk, getChunks, getDocument, insertDocument, getDirectCitations, listChunkIds, getFullLineage,
+ *   getFullLineages, getDependents, listChunks, getMaxChunkIndex, insertChunksWithCitations, getNextVersionId, supersedeChunk,
+ *   ImmutableChunkError, updateChunk, deleteChunk, addCitation, deleteCitation, getImmutabilityAudit,
+ *   searchChunks, listChunkTexts, getTermStats, insertChunkTerms, replaceChunkTerms, getSimilarChunks, transaction, insertReport, reviseReport,
+ *   listReports, getReport, getReportCitations, getReportChunkIds, setReportChunks, listReportRevisions,
+ *   getReportRevision
+ * Side effects: Creates database connection singleton, creates tables and immutability triggers
+ *   via schema.sql, inserts chunks, citation edges, reports, report revisions and report chunk lists, maintains the chunk_terms
+ *   similarity index, records rejected writes in immutability_audit
  */
 
 import Database from "better-sqlite3";
 import { readFileSync } from "fs";
 import { join } from "path";
+import {
+  ImmutableChunkError,
+  type Chunk,
+  type Citation,
+  type DependentRow,
+  type LineageRow,
+  type NewChunk,
+  type NewCitation,
+  type SourceDocument,
+  type Traversal,
+} from "./types";
+
+export {
+  ImmutableChunkError,
+  type Chunk,
+  type Citation,
+  type DependentRow,
+  type LineageRow,
+  type NewChunk,
+  type NewCitation,
+  type SourceDocument,
+  type Traversal,
+};
 
 let db: Database.Database | null = null;
 
 export function getDb(): Database.Database {
   if (!db) {
-    const dbPath = join(process.cwd(), "data", "trace-demo.db");
+    const dbPath = process.env.LINEAGE_DB_PATH || join(process.cwd(), "data", "trace-demo.db");
     db = new Database(dbPath);
     db.pragma("journal_mode = WAL");
   }
@@ -30,73 +60,1143 @@ export function initDb(): void {
   db.exec(schema);
 }
 
-export interface Chunk {
-  chunk_id: string;
-  text: string;
-  stage: number;
-  type: "raw" | "insight";
-  author?: string;
-  created_at?: string;
-  source_title?: string;
-  status?: string;
-}
+/**
+ * Drop every table (and with them the immutability triggers) so seeding starts clean
+ */
+export function resetDb(): void {
+  const db = getDb();
+  const tables = db
+    .prepare(
+      "SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+    )
+    .all() as { name: string; sql: string }[];
 
-export interface Citation {
-  source_chunk_id: string;
-  target_chunk_id: string;
-  citation_marker?: string;
-  relationship_type: string;
+  // Virtual tables own their shadow tables, so drop them first
+  tables.sort(
+    (a, b) =>
+      Number(b.sql.startsWith("CREATE VIRTUAL")) -
+      Number(a.sql.startsWith("CREATE VIRTUAL"))
+  );
+  db.pragma("foreign_keys = OFF");
+  try {
+    for (const { name } of tables) {
+      db.exec(`DROP TABLE IF EXISTS "${name}"`);
+    }
+  } finally {
+    db.pragma("foreign_keys = ON");
+  }
 }
 
 export function getChunk(chunkId: string): Chunk | null {
   const db = getDb();
-  const stmt = db.prepare("SELECT * FROM content WHERE chunk_id = ?");
-  return stmt.get(chunkId) as Chunk | null;
+  const stmt = db.prepare(`
+    SELECT c.*, s.source_chunk_id AS superseded_by
+    FROM content c
+    LEFT JOIN supersessions s ON s.target_chunk_id = c.chunk_id
+    WHERE c.chunk_id = ?
+  `);
+  const chunk = stmt.get(chunkId) as Chunk | undefined;
+  if (!chunk) return null;
+
+  return chunk.document_id
+    ? { ...chunk, document: getDocument(chunk.document_id) }
+    : chunk;
+}
+
+/**
+ * Chunks for many ids in one query (plus one for their documents), in the order given;
+ * unknown ids are skipped
+ */
+export function getChunks(chunkIds: string[]): Chunk[] {
+  const db = getDb();
+  const rows = db
+    .prepare(`
+      SELECT c.*, s.source_chunk_id AS superseded_by
+      FROM content c
+      LEFT JOIN supersessions s ON s.target_chunk_id = c.chunk_id
+      WHERE c.chunk_id IN (SELECT value FROM json_each(?))
+    `)
+    .all(JSON.stringify(chunkIds)) as Chunk[];
+
+  const byId = new Map(attachDocuments(rows).map((chunk) => [chunk.chunk_id, chunk]));
+  return [...new Set(chunkIds)].flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Join each chunk's source document, fetching all of them in one query
+ */
+function attachDocuments(chunks: Chunk[]): Chunk[] {
+  const documentIds = [
+    ...new Set(chunks.flatMap((chunk) => (chunk.document_id ? [chunk.document_id] : []))),
+  ];
+  if (documentIds.length === 0) return chunks;
+
+  const documents = getDb()
+    .prepare("SELECT * FROM documents WHERE document_id IN (SELECT value FROM json_each(?))")
+    .all(JSON.stringify(documentIds)) as SourceDocument[];
+  const byId = new Map(documents.map((document) => [document.document_id, document]));
+
+  return chunks.map((chunk) =>
+    chunk.document_id ? { ...chunk, document: byId.get(chunk.document_id) ?? null } : chunk
+  );
+}
+
+export function getDocument(documentId: string): SourceDocument | null {
+  const db = getDb();
+  const stmt = db.prepare("SELECT * FROM documents WHERE document_id = ?");
+  return (stmt.get(documentId) as SourceDocument | undefined) ?? null;
+}
+
+export function insertDocument(document: SourceDocument): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO documents (document_id, title, publisher, url, published_at, file_hash, document_type)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    document.document_id,
+    document.title,
+    document.publisher ?? null,
+    document.url ?? null,
+    document.published_at ?? null,
+    document.file_hash ?? null,
+    document.document_type ?? null
+  );
 }
 
 export function getDirectCitations(chunkId: string): Citation[] {
   const db = getDb();
   const stmt = db.prepare(`
-    SELECT source_chunk_id, target_chunk_id, citation_marker, relationship_type
+    SELECT
+      source_chunk_id, target_chunk_id, citation_marker, relationship_type, confidence,
+      quote, quote_start, quote_end
     FROM citations
     WHERE source_chunk_id = ?
   `);
   return stmt.all(chunkId) as Citation[];
 }
 
-export interface LineageRow {
-  target_chunk_id: string;
-  depth: number;
-  parent_id: string;
-  citation_marker?: string;
+export function listChunkIds(type?: "raw" | "insight"): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      "SELECT chunk_id FROM content WHERE (@type IS NULL OR type = @type) ORDER BY chunk_id"
+    )
+    .all({ type: type ?? null }) as { chunk_id: string }[];
+  return rows.map((row) => row.chunk_id);
 }
 
-export function getFullLineage(chunkId: string): LineageRow[] {
+export interface ChunkListParams {
+  stage?: number;
+  type?: string;
+  author?: string; // Substring match
+  status?: string;
+  document_id?: string;
+  from?: string; // Inclusive YYYY-MM-DD on created_at
+  to?: string;
+}
+
+/**
+ * One page of chunks matching every given filter, ordered by chunk_id, plus the total match count
+ */
+export function listChunks(
+  filters: ChunkListParams,
+  limit: number,
+  offset: number
+): { chunks: Chunk[]; total: number } {
+  const db = getDb();
+  const where = `
+    (@stage IS NULL OR c.stage = @stage)
+    AND (@type IS NULL OR c.type = @type)
+    AND (@author IS NULL OR c.author LIKE '%' || @author || '%')
+    AND (@status IS NULL OR c.status = @status)
+    AND (@document_id IS NULL OR c.document_id = @document_id)
+    AND (@from IS NULL OR substr(c.created_at, 1, 10) >= @from)
+    AND (@to IS NULL OR substr(c.created_at, 1, 10) <= @to)
+  `;
+  const params = {
+    stage: filters.stage ?? null,
+    type: filters.type ?? null,
+    author: filters.author ?? null,
+    status: filters.status ?? null,
+    document_id: filters.document_id ?? null,
+    from: filters.from ?? null,
+    to: filters.to ?? null,
+  };
+
+  const { total } = db
+    .prepare(`SELECT COUNT(*) AS total FROM content c WHERE ${where}`)
+    .get(params) as { total: number };
+  const rows = db
+    .prepare(`
+      SELECT c.*, s.source_chunk_id AS superseded_by
+      FROM content c
+      LEFT JOIN supersessions s ON s.target_chunk_id = c.chunk_id
+      WHERE ${where}
+      ORDER BY c.chunk_id
+      LIMIT @limit OFFSET @offset
+    `)
+    .all({ ...params, limit, offset }) as Chunk[];
+
+  return { chunks: attachDocuments(rows), total };
+}
+
+interface PathRow {
+  path: string; // "/root/a/b/" - chunk_ids visited on the way to this row
+  is_cycle: number; // 1 when this edge returns to a chunk already on the path
+  has_more: number; // 1 when the row sits at maxDepth and has further edges
+  chunk_json: string | null; // The reached chunk as CHUNK_JSON_SQL
+}
+
+// A content row (aliased c, with supersessions as s) as one JSON column, so a query
+// returning edges can carry the chunks they reach without a lookup per row
+const CHUNK_JSON_SQL = `json_object(
+  'chunk_id', c.chunk_id, 'text', c.text, 'stage', c.stage, 'type', c.type,
+  'author', c.author, 'created_at', c.created_at, 'source_title', c.source_title,
+  'status', c.status, 'source_type', c.source_type, 'reliability', c.reliability,
+  'document_id', c.document_id, 'locator_page', c.locator_page,
+  'locator_section', c.locator_section, 'locator_question', c.locator_question,
+  'superseded_by', s.source_chunk_id
+)`;
+
+/**
+ * Split traversal rows into plain rows, the distinct chunks they reach, distinct cycles
+ * and a truncation flag. Chunks come without their documents (see attachDocuments).
+ */
+function collectTraversal<Row>(rows: (Row & PathRow)[]): Traversal<Row> {
+  const cycles = new Map<string, string[]>();
+  const chunks = new Map<string, Chunk>();
+  let truncated = false;
+
+  const plainRows = rows.map((row) => {
+    const { path, is_cycle, has_more, chunk_json, ...rest } = row;
+    truncated ||= has_more === 1;
+
+    if (chunk_json !== null) {
+      const chunk = JSON.parse(chunk_json) as Chunk;
+      chunks.set(chunk.chunk_id, chunk);
+    }
+
+    if (is_cycle === 1) {
+      // Path ends with the repeated chunk_id; the loop starts at its first visit
+      const ids = path.split("/").filter(Boolean);
+      const repeated = ids[ids.length - 1];
+      const loop = ids.slice(ids.indexOf(repeated));
+      cycles.set(loop.join("/"), loop);
+    }
+    return rest as unknown as Row;
+  });
+
+  return {
+    rows: plainRows,
+    chunks: [...chunks.values()],
+    cycles: [...cycles.values()],
+    truncated,
+  };
+}
+
+/**
+ * Walk citations downward from chunkId up to maxDepth hops.
+ * Each row carries its visited path, so a citation loop stops at the first
+ * repeat and is reported in `cycles` instead of producing repeated rows.
+ * The chunks reached are joined from content in the same query and returned in `chunks`.
+ */
+export function getFullLineage(
+  chunkId: string,
+  maxDepth: number
+): Traversal<LineageRow> {
+  return getFullLineages([chunkId], maxDepth)[chunkId];
+}
+
+/**
+ * getFullLineage for several chunks in one recursive query (plus one documents lookup),
+ * keyed by chunk_id. Every requested id gets an entry, empty when it cites nothing.
+ */
+export function getFullLineages(
+  chunkIds: string[],
+  maxDepth: number
+): Record<string, Traversal<LineageRow>> {
   const db = getDb();
   const stmt = db.prepare(`
     WITH RECURSIVE lineage AS (
-      -- Base case: direct citations
+      -- Base case: direct citations of every requested chunk
       SELECT
+        source_chunk_id as root_chunk_id,
         target_chunk_id,
         1 as depth,
         source_chunk_id as parent_id,
-        citation_marker
+        citation_marker,
+        confidence,
+        relationship_type,
+        quote,
+        quote_start,
+        quote_end,
+        '/' || source_chunk_id || '/' || target_chunk_id || '/' as path,
+        target_chunk_id = source_chunk_id as is_cycle
       FROM citations
-      WHERE source_chunk_id = ?
+      WHERE source_chunk_id IN (SELECT value FROM json_each(@chunkIds))
 
       UNION ALL
 
-      -- Recursive case: follow citations of citations
+      -- Recursive case: follow citations of citations, never past a repeat
       SELECT
+        l.root_chunk_id,
         c.target_chunk_id,
         l.depth + 1,
         c.source_chunk_id as parent_id,
-        c.citation_marker
+        c.citation_marker,
+        c.confidence,
+        c.relationship_type,
+        c.quote,
+        c.quote_start,
+        c.quote_end,
+        l.path || c.target_chunk_id || '/',
+        instr(l.path, '/' || c.target_chunk_id || '/') > 0
       FROM citations c
       INNER JOIN lineage l ON c.source_chunk_id = l.target_chunk_id
-      WHERE l.depth < 10
+      WHERE l.is_cycle = 0 AND l.depth < @maxDepth
     )
-    SELECT * FROM lineage ORDER BY depth, target_chunk_id
+    SELECT
+      lineage.*,
+      depth = @maxDepth AND is_cycle = 0 AND EXISTS (
+        SELECT 1 FROM citations WHERE source_chunk_id = lineage.target_chunk_id
+      ) as has_more,
+      ${CHUNK_JSON_SQL} as chunk_json
+    FROM lineage
+    LEFT JOIN content c ON c.chunk_id = lineage.target_chunk_id
+    LEFT JOIN supersessions s ON s.target_chunk_id = c.chunk_id
+    ORDER BY lineage.root_chunk_id, lineage.depth, lineage.target_chunk_id
+  `);
+
+  const rowsByRoot = new Map<string, (LineageRow & PathRow)[]>(chunkIds.map((id) => [id, []]));
+  const rows = stmt.all({ chunkIds: JSON.stringify(chunkIds), maxDepth }) as (LineageRow &
+    PathRow & { root_chunk_id: string })[];
+  for (const { root_chunk_id, ...row } of rows) {
+    rowsByRoot.get(root_chunk_id)!.push(row);
+  }
+
+  const traversals = [...rowsByRoot].map(
+    ([chunkId, rootRows]) => [chunkId, collectTraversal(rootRows)] as const
+  );
+  // Documents of every traversal in one lookup
+  const documented = new Map(
+    attachDocuments(traversals.flatMap(([, traversal]) => traversal.chunks)).map((chunk) => [
+      chunk.chunk_id,
+      chunk,
+    ])
+  );
+
+  return Object.fromEntries(
+    traversals.map(([chunkId, traversal]) => [
+      chunkId,
+      { ...traversal, chunks: traversal.chunks.map((chunk) => documented.get(chunk.chunk_id)!) },
+    ])
+  );
+}
+
+/**
+ * Walk citations upward: every chunk that cites chunkId, directly or transitively,
+ * up to maxDepth hops (uses idx_citations_target). Cycles are reported as in getFullLineage.
+ */
+export function getDependents(
+  chunkId: string,
+  maxDepth: number
+): Traversal<DependentRow> {
+  const db = getDb();
+  const stmt = db.prepare(`
+    WITH RECURSIVE dependents AS (
+      -- Base case: chunks citing the source directly
+      SELECT
+        source_chunk_id,
+        1 as depth,
+        target_chunk_id as cited_chunk_id,
+        citation_marker,
+        confidence,
+        relationship_type,
+        quote,
+        quote_start,
+        quote_end,
+        '/' || target_chunk_id || '/' || source_chunk_id || '/' as path,
+        source_chunk_id = target_chunk_id as is_cycle
+      FROM citations
+      WHERE target_chunk_id = @chunkId
+
+      UNION ALL
+
+      -- Recursive case: chunks citing those dependents, never past a repeat
+      SELECT
+        c.source_chunk_id,
+        d.depth + 1,
+        c.target_chunk_id as cited_chunk_id,
+        c.citation_marker,
+        c.confidence,
+        c.relationship_type,
+        c.quote,
+        c.quote_start,
+        c.quote_end,
+        d.path || c.source_chunk_id || '/',
+        instr(d.path, '/' || c.source_chunk_id || '/') > 0
+      FROM citations c
+      INNER JOIN dependents d ON c.target_chunk_id = d.source_chunk_id
+      WHERE d.is_cycle = 0 AND d.depth < @maxDepth
+    )
+    SELECT
+      dependents.*,
+      depth = @maxDepth AND is_cycle = 0 AND EXISTS (
+        SELECT 1 FROM citations WHERE target_chunk_id = dependents.source_chunk_id
+      ) as has_more,
+      ${CHUNK_JSON_SQL} as chunk_json
+    FROM dependents
+    LEFT JOIN content c ON c.chunk_id = dependents.source_chunk_id
+    LEFT JOIN supersessions s ON s.target_chunk_id = c.chunk_id
+    ORDER BY dependents.depth, dependents.source_chunk_id
+  `);
+  const traversal = collectTraversal(
+    stmt.all({ chunkId, maxDepth }) as (DependentRow & PathRow)[]
+  );
+  return { ...traversal, chunks: attachDocuments(traversal.chunks) };
+}
+
+/**
+ * Highest numeric suffix among chunk_ids shaped like `${prefix}_chunk_N` (0 if none)
+ */
+export function getMaxChunkIndex(prefix: string): number {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT chunk_id FROM content WHERE chunk_id LIKE ? || '_chunk_%'")
+    .all(prefix) as { chunk_id: string }[];
+
+  let max = 0;
+  for (const { chunk_id } of rows) {
+    const suffix = chunk_id.slice(prefix.length).match(/^_chunk_(\d+)$/);
+    if (suffix) {
+      max = Math.max(max, parseInt(suffix[1], 10));
+    }
+  }
+  return max;
+}
+
+/**
+ * Insert chunks and their citation edges atomically.
+ * Chunks are written as drafts, given their citations, then published (the
+ * immutability triggers reject citation writes on published chunks).
+ * Throws (and rolls back everything) if a chunk_id is already taken or a
+ * citation targets a chunk that is neither stored nor part of this batch.
+ */
+export function insertChunksWithCitations(
+  chunks: NewChunk[],
+  citations: NewCitation[]
+): void {
+  const db = getDb();
+  const existsStmt = db.prepare("SELECT 1 FROM content WHERE chunk_id = ?");
+  const insertChunkStmt = db.prepare(`
+    INSERT INTO content (
+      chunk_id, text, stage, type, author, created_at, source_title, source_type, reliability,
+      document_id, locator_page, locator_section, locator_question, status
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'draft')
+  `);
+  const publishStmt = db.prepare(
+    "UPDATE content SET status = 'published' WHERE chunk_id = ?"
+  );
+  const insertCitationStmt = db.prepare(`
+    INSERT INTO citations (
+      source_chunk_id, target_chunk_id, citation_marker, relationship_type, confidence,
+      quote, quote_start, quote_end
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const run = db.transaction(() => {
+    const batchIds = new Set(chunks.map((chunk) => chunk.chunk_id));
+
+    for (const chunk of chunks) {
+      if (existsStmt.get(chunk.chunk_id)) {
+        throw new Error(`Chunk ${chunk.chunk_id} already exists`);
+      }
+      insertChunkStmt.run(
+        chunk.chunk_id,
+        chunk.text,
+        chunk.stage,
+        chunk.type,
+        chunk.author ?? null,
+        chunk.created_at ?? null,
+        chunk.source_title ?? null,
+        chunk.source_type ?? null,
+        chunk.reliability ?? null,
+        chunk.document_id ?? null,
+        chunk.locator_page ?? null,
+        chunk.locator_section ?? null,
+        chunk.locator_question ?? null
+      );
+    }
+
+    for (const citation of citations) {
+      if (
+        !batchIds.has(citation.target_chunk_id) &&
+        !existsStmt.get(citation.target_chunk_id)
+      ) {
+        throw new Error(
+          `Citation ${citation.citation_marker} references unknown chunk ${citation.target_chunk_id}`
+        );
+      }
+      insertCitationStmt.run(
+        citation.source_chunk_id,
+        citation.target_chunk_id,
+        citation.citation_marker,
+        citation.relationship_type ?? "cites",
+        citation.confidence ?? 1.0,
+        citation.quote ?? null,
+        citation.quote_start ?? null,
+        citation.quote_end ?? null
+      );
+    }
+
+    for (const chunk of chunks) {
+      publishStmt.run(chunk.chunk_id);
+    }
+  });
+
+  run();
+}
+
+/**
+ * Next free version id for a replacement chunk
+ * Example: ins_market_trends_chunk_1 -> ins_market_trends_chunk_1_v2 -> ..._v3
+ */
+export function getNextVersionId(chunkId: string): string {
+  const db = getDb();
+  const existsStmt = db.prepare("SELECT 1 FROM content WHERE chunk_id = ?");
+  const versionMatch = chunkId.match(/^(.*)_v(\d+)$/);
+  const base = versionMatch ? versionMatch[1] : chunkId;
+  let version = versionMatch ? parseInt(versionMatch[2], 10) + 1 : 2;
+
+  while (existsStmt.get(`${base}_v${version}`)) {
+    version++;
+  }
+  return `${base}_v${version}`;
+}
+
+/**
+ * Replace a published chunk: insert the replacement with its citations, mark the
+ * old chunk as superseded and record the supersedes edge, all in one transaction.
+ */
+export function supersedeChunk(
+  oldChunkId: string,
+  replacement: NewChunk,
+  citations: NewCitation[],
+  reason?: string
+): void {
+  const db = getDb();
+  const statusStmt = db.prepare("SELECT status FROM content WHERE chunk_id = ?");
+  const markStmt = db.prepare(
+    "UPDATE content SET status = 'superseded' WHERE chunk_id = ?"
+  );
+  // Superseded chunks leave the similarity index; the replacement is indexed by the caller
+  const unindexStmt = db.prepare("DELETE FROM chunk_terms WHERE chunk_id = ?");
+  const edgeStmt = db.prepare(`
+    INSERT INTO supersessions (source_chunk_id, target_chunk_id, reason, created_at)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const run = db.transaction(() => {
+    const current = statusStmt.get(oldChunkId) as { status: string } | undefined;
+    if (!current) {
+      throw new Error(`Chunk ${oldChunkId} does not exist`);
+    }
+    if (current.status === "superseded") {
+      throw new Error(`Chunk ${oldChunkId} is already superseded`);
+    }
+
+    insertChunksWithCitations([replacement], citations);
+    markStmt.run(oldChunkId);
+    unindexStmt.run(oldChunkId);
+    edgeStmt.run(
+      replacement.chunk_id,
+      oldChunkId,
+      reason ?? null,
+      replacement.created_at ?? new Date().toISOString()
+    );
+  });
+
+  run();
+}
+
+export interface ChunkUpdate {
+  text?: string;
+  stage?: number;
+  type?: "raw" | "insight";
+  author?: string | null;
+  created_at?: string | null;
+  source_title?: string | null;
+  source_type?: string | null;
+  reliability?: number | null; // Not locked by publication: ratings can be revised
+  document_id?: string | null;
+  locator_page?: number | null;
+  locator_section?: string | null;
+  locator_question?: string | null;
+  status?: string;
+}
+
+// Columns updateChunk may set; anything else in a runtime changes object is rejected
+const UPDATABLE_COLUMNS: readonly (keyof ChunkUpdate)[] = [
+  "text",
+  "stage",
+  "type",
+  "author",
+  "created_at",
+  "source_title",
+  "source_type",
+  "reliability",
+  "document_id",
+  "locator_page",
+  "locator_section",
+  "locator_question",
+  "status",
+];
+
+export interface AuditEntry {
+  id: number;
+  chunk_id: string;
+  operation: string;
+  detail: string | null;
+  error: string;
+  attempted_at: string;
+}
+
+/**
+ * Run a write and turn immutability trigger failures into an audit row plus ImmutableChunkError.
+ * The triggers enforce the rule for every writer; this wrapper is what records the attempt,
+ * since a RAISE(ABORT) would roll back any audit insert made inside the trigger itself.
+ */
+function guardedWrite(
+  chunkId: string,
+  operation: string,
+  detail: unknown,
+  write: () => void
+): void {
+  try {
+    write();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!message.startsWith("immutable:")) {
+      throw error;
+    }
+
+    getDb()
+      .prepare(`
+        INSERT INTO immutability_audit (chunk_id, operation, detail, error, attempted_at)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(
+        chunkId,
+        operation,
+        JSON.stringify(detail),
+        message,
+        new Date().toISOString()
+      );
+    throw new ImmutableChunkError(chunkId, operation, message);
+  }
+}
+
+/**
+ * Update chunk columns. Published chunks only accept status changes.
+ * Throws before touching the database if changes has a key outside UPDATABLE_COLUMNS.
+ */
+export function updateChunk(chunkId: string, changes: ChunkUpdate): void {
+  const db = getDb();
+  const keys = Object.keys(changes);
+  const unknown = keys.filter((key) => !UPDATABLE_COLUMNS.includes(key as keyof ChunkUpdate));
+  if (unknown.length > 0) {
+    throw new Error(`Cannot update chunk column(s): ${unknown.join(", ")}`);
+  }
+  const columns = keys as (keyof ChunkUpdate)[];
+  if (columns.length === 0) return;
+
+  const assignments = columns.map((column) => `${column} = ?`).join(", ");
+  const values = columns.map((column) => changes[column] ?? null);
+
+  guardedWrite(chunkId, "update_chunk", changes, () => {
+    db.prepare(`UPDATE content SET ${assignments} WHERE chunk_id = ?`).run(
+      ...values,
+      chunkId
+    );
+  });
+}
+
+/**
+ * Delete a chunk. Only drafts can be deleted.
+ */
+export function deleteChunk(chunkId: string): void {
+  const db = getDb();
+  guardedWrite(chunkId, "delete_chunk", null, () => {
+    db.prepare("DELETE FROM content WHERE chunk_id = ?").run(chunkId);
+  });
+}
+
+/**
+ * Add a citation edge. Only drafts can gain citations.
+ */
+export function addCitation(citation: NewCitation): void {
+  const db = getDb();
+  guardedWrite(citation.source_chunk_id, "add_citation", citation, () => {
+    db.prepare(`
+      INSERT INTO citations (
+        source_chunk_id, target_chunk_id, citation_marker, relationship_type, confidence,
+        quote, quote_start, quote_end
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      citation.source_chunk_id,
+      citation.target_chunk_id,
+      citation.citation_marker,
+      citation.relationship_type ?? "cites",
+      citation.confidence ?? 1.0,
+      citation.quote ?? null,
+      citation.quote_start ?? null,
+      citation.quote_end ?? null
+    );
+  });
+}
+
+/**
+ * Delete a chunk's citation edge by marker. Only drafts can lose citations.
+ */
+export function deleteCitation(sourceChunkId: string, marker: string): void {
+  const db = getDb();
+  guardedWrite(sourceChunkId, "delete_citation", { marker }, () => {
+    db.prepare(
+      "DELETE FROM citations WHERE source_chunk_id = ? AND citation_marker = ?"
+    ).run(sourceChunkId, marker);
+  });
+}
+
+export function getImmutabilityAudit(chunkId?: string): AuditEntry[] {
+  const db = getDb();
+  if (chunkId) {
+    return db
+      .prepare(
+        "SELECT * FROM immutability_audit WHERE chunk_id = ? ORDER BY id DESC"
+      )
+      .all(chunkId) as AuditEntry[];
+  }
+  return db
+    .prepare("SELECT * FROM immutability_audit ORDER BY id DESC")
+    .all() as AuditEntry[];
+}
+
+export interface SearchFilterParams {
+  stage?: number;
+  type?: string;
+  author?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface SearchRow extends Chunk {
+  snippet: string;
+}
+
+/**
+ * Full-text search over chunk text and source titles, ranked by bm25.
+ * `match` is an FTS5 expression (see lib/search-utils.ts#toFtsQuery); when null,
+ * chunks are only filtered and the snippet is the start of the text.
+ * Snippets wrap matched terms in \u0002 ... \u0003.
+ */
+export function searchChunks(
+  match: string | null,
+  filters: SearchFilterParams,
+  limit = 50
+): SearchRow[] {
+  const db = getDb();
+  const filterSql = `
+    (@stage IS NULL OR c.stage = @stage)
+    AND (@type IS NULL OR c.type = @type)
+    AND (@author IS NULL OR c.author LIKE '%' || @author || '%')
+    AND (@from IS NULL OR substr(c.created_at, 1, 10) >= @from)
+    AND (@to IS NULL OR substr(c.created_at, 1, 10) <= @to)
+  `;
+  const params = {
+    stage: filters.stage ?? null,
+    type: filters.type ?? null,
+    author: filters.author ?? null,
+    from: filters.from ?? null,
+    to: filters.to ?? null,
+    limit,
+  };
+
+  if (!match) {
+    return db
+      .prepare(`
+        SELECT c.*, s.source_chunk_id AS superseded_by, substr(c.text, 1, 200) AS snippet
+        FROM content c
+        LEFT JOIN supersessions s ON s.target_chunk_id = c.chunk_id
+        WHERE ${filterSql}
+        ORDER BY c.created_at DESC
+        LIMIT @limit
+      `)
+      .all(params) as SearchRow[];
+  }
+
+  return db
+    .prepare(`
+      SELECT
+        c.*,
+        s.source_chunk_id AS superseded_by,
+        snippet(content_fts, -1, char(2), char(3), '…', 24) AS snippet
+      FROM content_fts f
+      INNER JOIN content c ON c.chunk_id = f.chunk_id
+      LEFT JOIN supersessions s ON s.target_chunk_id = c.chunk_id
+      WHERE content_fts MATCH @match AND ${filterSql}
+      ORDER BY bm25(content_fts)
+      LIMIT @limit
+    `)
+    .all({ ...params, match }) as SearchRow[];
+}
+
+export interface TermWeight {
+  chunk_id: string;
+  term: string;
+  weight: number; // Unit-length TF-IDF vector component (lib/similarity.ts)
+}
+
+export interface SimilarRow {
+  chunk_id: string;
+  score: number; // Cosine similarity to the queried chunk
+  shared_terms: string[]; // Strongest contributions first
+}
+
+export interface TermStats {
+  size: number; // Chunks in the similarity index
+  documentFrequency: Record<string, number>; // Indexed chunks containing each requested term
+}
+
+/**
+ * chunk_id and text of every current (not superseded) chunk, for rebuilding the similarity index
+ */
+export function listChunkTexts(): { chunk_id: string; text: string }[] {
+  const db = getDb();
+  return db
+    .prepare("SELECT chunk_id, text FROM content WHERE status != 'superseded' ORDER BY chunk_id")
+    .all() as { chunk_id: string; text: string }[];
+}
+
+/**
+ * Size of the similarity index and the document frequency of the given terms, for
+ * weighting new chunks against it without reading every chunk's text
+ */
+export function getTermStats(terms: string[]): TermStats {
+  const db = getDb();
+  const { size } = db
+    .prepare("SELECT COUNT(DISTINCT chunk_id) AS size FROM chunk_terms")
+    .get() as { size: number };
+  const rows = db
+    .prepare(`
+      SELECT term, COUNT(*) AS df
+      FROM chunk_terms
+      WHERE term IN (SELECT value FROM json_each(?))
+      GROUP BY term
+    `)
+    .all(JSON.stringify(terms)) as { term: string; df: number }[];
+
+  return {
+    size,
+    documentFrequency: Object.fromEntries(rows.map((row) => [row.term, row.df])),
+  };
+}
+
+/**
+ * Add new chunks to the similarity index. Weights of chunks already indexed are left as
+ * they are, so their idf drifts as the corpus grows until the next replaceChunkTerms.
+ */
+export function insertChunkTerms(weights: TermWeight[]): void {
+  const db = getDb();
+  const insertStmt = db.prepare(
+    "INSERT INTO chunk_terms (chunk_id, term, weight) VALUES (?, ?, ?)"
+  );
+
+  db.transaction(() => {
+    for (const { chunk_id, term, weight } of weights) {
+      insertStmt.run(chunk_id, term, weight);
+    }
+  })();
+}
+
+/**
+ * Replace the whole similarity index, recomputing every chunk's idf (seed and `cli reindex`)
+ */
+export function replaceChunkTerms(weights: TermWeight[]): void {
+  const db = getDb();
+  const insertStmt = db.prepare(
+    "INSERT INTO chunk_terms (chunk_id, term, weight) VALUES (?, ?, ?)"
+  );
+
+  db.transaction(() => {
+    db.prepare("DELETE FROM chunk_terms").run();
+    for (const { chunk_id, term, weight } of weights) {
+      insertStmt.run(chunk_id, term, weight);
+    }
+  })();
+}
+
+/**
+ * Chunks sharing indexed terms with chunkId, most similar first, down to minScore
+ */
+export function getSimilarChunks(
+  chunkId: string,
+  minScore: number,
+  sharedTermLimit = 5
+): SimilarRow[] {
+  const db = getDb();
+  const rows = db
+    .prepare(`
+      SELECT b.chunk_id, a.term, a.weight * b.weight AS contribution
+      FROM chunk_terms a
+      INNER JOIN chunk_terms b ON b.term = a.term AND b.chunk_id != a.chunk_id
+      WHERE a.chunk_id = ?
+      ORDER BY contribution DESC
+    `)
+    .all(chunkId) as { chunk_id: string; term: string; contribution: number }[];
+
+  const similar = new Map<string, SimilarRow>();
+  for (const row of rows) {
+    const entry = similar.get(row.chunk_id) ?? {
+      chunk_id: row.chunk_id,
+      score: 0,
+      shared_terms: [],
+    };
+    entry.score += row.contribution;
+    if (entry.shared_terms.length < sharedTermLimit) {
+      entry.shared_terms.push(row.term);
+    }
+    similar.set(row.chunk_id, entry);
+  }
+
+  return [...similar.values()]
+    .filter((entry) => entry.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Run several helpers atomically (nested helper transactions become savepoints)
+ */
+export function transaction<T>(fn: () => T): T {
+  return getDb().transaction(fn)();
+}
+
+export interface Report {
+  id: number;
+  title: string;
+  author?: string;
+  status: string;
+  markdown: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ReportSummary extends Omit<Report, "markdown"> {
+  citation_count: number;
+  revision_count: number;
+}
+
+export interface NewReport {
+  title: string;
+  author?: string;
+  status: string;
+  markdown: string;
+  created_at?: string;
+}
+
+export interface ReportRevision {
+  report_id: number;
+  revision: number;
+  title: string;
+  author?: string;
+  markdown: string;
+  created_at?: string;
+}
+
+/**
+ * Store a report and link each References entry (marker -> chunk_id) to its chunk.
+ * The report is also saved as revision 1.
+ * Throws (and rolls back) if a referenced chunk does not exist.
+ */
+export function insertReport(
+  report: NewReport,
+  citationMap: Record<string, string>
+): number {
+  const db = getDb();
+  const insertReportStmt = db.prepare(`
+    INSERT INTO reports (title, author, status, markdown, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
   `);
-  return stmt.all(chunkId) as LineageRow[];
+  const insertCitationStmt = db.prepare(`
+    INSERT INTO report_citations (report_id, citation_marker, chunk_id)
+    VALUES (?, ?, ?)
+  `);
+
+  const run = db.transaction(() => {
+    const createdAt = report.created_at ?? new Date().toISOString();
+    const { lastInsertRowid } = insertReportStmt.run(
+      report.title,
+      report.author ?? null,
+      report.status,
+      report.markdown,
+      createdAt,
+      createdAt
+    );
+    const reportId = Number(lastInsertRowid);
+
+    for (const [marker, chunkId] of Object.entries(citationMap)) {
+      insertCitationStmt.run(reportId, marker, chunkId);
+    }
+    insertRevision(reportId, 1, report, createdAt);
+    return reportId;
+  });
+
+  return run();
+}
+
+/**
+ * Replace a report's content with a new revision: the reports row and its report_citations
+ * move to the new version, and the version is appended to report_revisions.
+ * Returns the new revision number; throws (and rolls back) if the report or a referenced chunk does not exist.
+ */
+export function reviseReport(
+  reportId: number,
+  report: NewReport,
+  citationMap: Record<string, string>
+): number {
+  const db = getDb();
+  const updateReportStmt = db.prepare(`
+    UPDATE reports SET title = ?, author = ?, status = ?, markdown = ?, updated_at = ?
+    WHERE id = ?
+  `);
+  const insertCitationStmt = db.prepare(`
+    INSERT INTO report_citations (report_id, citation_marker, chunk_id)
+    VALUES (?, ?, ?)
+  `);
+
+  const run = db.transaction(() => {
+    const createdAt = report.created_at ?? new Date().toISOString();
+    const { changes } = updateReportStmt.run(
+      report.title,
+      report.author ?? null,
+      report.status,
+      report.markdown,
+      createdAt,
+      reportId
+    );
+    if (changes === 0) {
+      throw new Error(`Report ${reportId} not found`);
+    }
+
+    db.prepare("DELETE FROM report_citations WHERE report_id = ?").run(reportId);
+    for (const [marker, chunkId] of Object.entries(citationMap)) {
+      insertCitationStmt.run(reportId, marker, chunkId);
+    }
+
+    const { latest } = db
+      .prepare(
+        "SELECT COALESCE(MAX(revision), 0) AS latest FROM report_revisions WHERE report_id = ?"
+      )
+      .get(reportId) as { latest: number };
+    insertRevision(reportId, latest + 1, report, createdAt);
+    return latest + 1;
+  });
+
+  return run();
+}
+
+function insertRevision(
+  reportId: number,
+  revision: number,
+  report: NewReport,
+  createdAt: string
+): void {
+  getDb()
+    .prepare(`
+      INSERT INTO report_revisions (report_id, revision, title, author, markdown, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    .run(reportId, revision, report.title, report.author ?? null, report.markdown, createdAt);
+}
+
+export function listReports(): ReportSummary[] {
+  const db = getDb();
+  return db
+    .prepare(`
+      SELECT
+        r.id, r.title, r.author, r.status, r.created_at, r.updated_at,
+        COUNT(rc.citation_marker) AS citation_count,
+        (SELECT COUNT(*) FROM report_revisions rr WHERE rr.report_id = r.id) AS revision_count
+      FROM reports r
+      LEFT JOIN report_citations rc ON rc.report_id = r.id
+      GROUP BY r.id
+      ORDER BY r.updated_at DESC, r.id DESC
+    `)
+    .all() as ReportSummary[];
+}
+
+export function getReport(reportId: number): Report | null {
+  const db = getDb();
+  const stmt = db.prepare("SELECT * FROM reports WHERE id = ?");
+  return (stmt.get(reportId) as Report | undefined) ?? null;
+}
+
+export function getReportCitations(
+  reportId: number
+): { citation_marker: string; chunk_id: string }[] {
+  const db = getDb();
+  return db
+    .prepare(
+      "SELECT citation_marker, chunk_id FROM report_citations WHERE report_id = ?"
+    )
+    .all(reportId) as { citation_marker: string; chunk_id: string }[];
+}
+
+/**
+ * chunk_ids of the latest revision's paragraphs, in paragraph order (empty for reports never ingested)
+ */
+export function getReportChunkIds(reportId: number): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT chunk_id FROM report_chunks WHERE report_id = ? ORDER BY position")
+    .all(reportId) as { chunk_id: string }[];
+  return rows.map((row) => row.chunk_id);
+}
+
+/**
+ * Record the chunks a report's paragraphs are stored as, replacing the previous revision's
+ */
+export function setReportChunks(reportId: number, chunkIds: string[]): void {
+  const db = getDb();
+  const insertStmt = db.prepare(
+    "INSERT INTO report_chunks (report_id, position, chunk_id) VALUES (?, ?, ?)"
+  );
+
+  db.transaction(() => {
+    db.prepare("DELETE FROM report_chunks WHERE report_id = ?").run(reportId);
+    chunkIds.forEach((chunkId, position) => insertStmt.run(reportId, position, chunkId));
+  })();
+}
+
+/**
+ * Every saved revision of a report, oldest first
+ */
+export function listReportRevisions(reportId: number): ReportRevision[] {
+  const db = getDb();
+  return db
+    .prepare("SELECT * FROM report_revisions WHERE report_id = ? ORDER BY revision")
+    .all(reportId) as ReportRevision[];
+}
+
+export function getReportRevision(
+  reportId: number,
+  revision: number
+): ReportRevision | null {
+  const db = getDb();
+  const stmt = db.prepare(
+    "SELECT * FROM report_revisions WHERE report_id = ? AND revision = ?"
+  );
+  return (stmt.get(reportId, revision) as ReportRevision | undefined) ?? null;
 }
@@ -0,0 +1,61 @@
+/**
+ * Command-line citation linter for stored reports and insight chunks.
+ *
+ * Input data sources: SQLite database at data/trace-demo.db, optional --report <id> argument
+ * Output destinations: One line per issue on stdout (target:line:column severity rule message)
+ * Dependencies: actions/lint.ts (lintReport, lintChunks), ./index (listReports)
+ * Key exports: None (script)
+ * Side effects: Sets a non-zero exit code when any error-level issue is found
+ */
+
+import { listReports } from "./index";
+import { lintChunks, lintReport } from "../actions/lint";
+import type { LintIssue } from "../lib/types";
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const reportFlag = args.indexOf("--report");
+  const reportIds =
+    reportFlag === -1
+      ? listReports().map((report) => report.id)
+      : [Number(args[reportFlag + 1])];
+
+  const issues: { target: string; issue: LintIssue }[] = [];
+
+  for (const reportId of reportIds) {
+    const reportIssues = await lintReport(reportId);
+    if (!reportIssues) {
+      console.error(`Report ${args[reportFlag + 1]} not found`);
+      process.exitCode = 2;
+      return;
+    }
+    for (const issue of reportIssues) {
+      // Without --report every chunk is linted below, so skip cited-chunk issues here
+      if (issue.chunk_id && reportFlag === -1) continue;
+      issues.push({ target: issue.chunk_id ?? `report ${reportId}`, issue });
+    }
+  }
+
+  if (reportFlag === -1) {
+    for (const issue of await lintChunks()) {
+      issues.push({ target: issue.chunk_id ?? "", issue });
+    }
+  }
+
+  for (const { target, issue } of issues) {
+    console.log(
+      `${target}:${issue.line}:${issue.column} ${issue.severity} ${issue.rule} ${issue.message}`
+    );
+  }
+
+  const errorCount = issues.filter(({ issue }) => issue.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+  console.log(
+    `${errorCount} error${errorCount !== 1 ? "s" : ""}, ${warningCount} warning${warningCount !== 1 ? "s" : ""}`
+  );
+  if (errorCount > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getDependents, getFullLineage, getFullLineages } from "@/actions/lineage";
+import { supersedeChunk } from "@/actions/supersede";
+import type { LineageGraph } from "@/lib/types";
+import { ImmutableChunkError, initDb, resetDb, type NewChunk, type NewCitation } from "./index";
+import { MemoryLineageStore } from "./memory-store";
+import { SqliteLineageStore } from "./sqlite-store";
+import {
+  getLineageStore,
+  LINEAGE_STORE_BACKENDS,
+  setLineageStore,
+  type LineageStore,
+} from "./store";
+
+// ins_summary cites both analyses, which share raw_survey; ins_loop_a and ins_loop_b cite each other
+const CHUNKS: NewChunk[] = [
+  { chunk_id: "raw_survey", text: "Adoption reached 78% in Q3 2024.", stage: 0, type: "raw" },
+  { chunk_id: "raw_financials", text: "Revenue grew 24% to $145M.", stage: 0, type: "raw" },
+  { chunk_id: "ins_adoption", text: "Adoption is high[1].", stage: 1, type: "insight" },
+  { chunk_id: "ins_revenue", text: "Revenue follows adoption[1][2].", stage: 1, type: "insight" },
+  { chunk_id: "ins_summary", text: "Growth is broad[1][2].", stage: 2, type: "insight" },
+  { chunk_id: "ins_loop_a", text: "See B[1].", stage: 1, type: "insight" },
+  { chunk_id: "ins_loop_b", text: "See A[1].", stage: 1, type: "insight" },
+];
+
+const CITATIONS: NewCitation[] = [
+  { source_chunk_id: "ins_adoption", target_chunk_id: "raw_survey", citation_marker: "[1]" },
+  {
+    source_chunk_id: "ins_revenue",
+    target_chunk_id: "raw_survey",
+    citation_marker: "[1]",
+    quote: "78%",
+    quote_start: 17,
+    quote_end: 20,
+  },
+  {
+    source_chunk_id: "ins_revenue",
+    target_chunk_id: "raw_financials",
+    citation_marker: "[2]",
+    confidence: 0.8,
+    relationship_type: "supports",
+  },
+  { source_chunk_id: "ins_summary", target_chunk_id: "ins_adoption", citation_marker: "[1]" },
+  { source_chunk_id: "ins_summary", target_chunk_id: "ins_revenue", citation_marker: "[2]" },
+  { source_chunk_id: "ins_loop_a", target_chunk_id: "ins_loop_b", citation_marker: "[1]" },
+  { source_chunk_id: "ins_loop_b", target_chunk_id: "ins_loop_a", citation_marker: "[1]" },
+];
+
+// Backend-neutral view of a graph: ids instead of chunk rows, in a stable order
+function shape(graph: LineageGraph) {
+  return {
+    nodes: graph.nodes.map((node) => `${node.chunk_id}@${node.depth}`).sort(),
+    edges: graph.edges
+      .map((edge) =>
+        [
+          edge.source_chunk_id,
+          edge.target_chunk_id,
+          edge.citation_marker,
+          edge.confidence,
+          edge.relationship_type,
+          edge.quote?.text ?? "",
+        ].join(" ")
+      )
+      .sort(),
+    truncated: graph.truncated,
+    cycles: graph.cycles,
+  };
+}
+
+async function seed(store: LineageStore): Promise<LineageStore> {
+  await store.insertChunksWithCitations(CHUNKS, CITATIONS);
+  return store;
+}
+
+const original = getLineageStore();
+
+beforeEach(() => {
+  resetDb();
+  initDb();
+});
+
+afterEach(() => {
+  setLineageStore(original);
+});
+
+describe("MemoryLineageStore", () => {
+  it("gives the lineage actions the same graphs as the SQLite store", async () => {
+    const backends = [await seed(new SqliteLineageStore()), await seed(new MemoryLineageStore())];
+    const queries = [
+      () => getFullLineage("ins_summary"),
+      () => getFullLineage("ins_summary", 1),
+      () => getFullLineage("ins_loop_a"),
+      () => getDependents("raw_survey"),
+      () => getDependents("raw_survey", 1),
+      () => getDependents("ins_loop_b"),
+    ];
+
+    const results = [];
+    for (const backend of backends) {
+      setLineageStore(backend);
+      const shapes = [];
+      for (const query of queries) {
+        shapes.push(shape(await query()));
+      }
+      const batched = await getFullLineages(["ins_summary", "ins_loop_a", "raw_survey"], 1);
+      shapes.push(...Object.values(batched).map(shape));
+      results.push(shapes);
+    }
+
+    expect(results[1]).toEqual(results[0]);
+  });
+
+  it("reports truncation at the depth limit and each loop once", async () => {
+    setLineageStore(await seed(new MemoryLineageStore()));
+
+    const shallow = await getFullLineage("ins_summary", 1);
+    expect(shape(shallow)).toMatchObject({
+      nodes: ["ins_adoption@1", "ins_revenue@1", "ins_summary@0"],
+      truncated: true,
+    });
+
+    const loop = await getFullLineage("ins_loop_a");
+    expect(loop.truncated).toBe(false);
+    expect(loop.cycles).toEqual([["ins_loop_a", "ins_loop_b", "ins_loop_a"]]);
+  });
+
+  it("keeps the shortest depth of a chunk reached along several paths", async () => {
+    setLineageStore(await seed(new MemoryLineageStore()));
+
+    const dependents = await getDependents("raw_survey");
+    expect(shape(dependents).nodes).toEqual([
+      "ins_adoption@1",
+      "ins_revenue@1",
+      "ins_summary@2",
+      "raw_survey@0",
+    ]);
+  });
+
+  it("leaves the store unchanged when a batch is rejected", async () => {
+    const store = await seed(new MemoryLineageStore());
+
+    await expect(
+      store.insertChunksWithCitations(
+        [{ chunk_id: "ins_new", text: "New[1].", stage: 1, type: "insight" }],
+        [{ source_chunk_id: "ins_new", target_chunk_id: "raw_missing", citation_marker: "[1]" }]
+      )
+    ).rejects.toThrow("references unknown chunk raw_missing");
+    await expect(store.getChunk("ins_new")).resolves.toBeNull();
+
+    await expect(store.insertChunksWithCitations([CHUNKS[0]], [])).rejects.toThrow(
+      "Chunk raw_survey already exists"
+    );
+  });
+
+  it("accepts citations on drafts only", async () => {
+    const store = new MemoryLineageStore({
+      chunks: [
+        { chunk_id: "raw_survey", text: "Adoption reached 78%.", stage: 0, type: "raw", status: "published" },
+        { chunk_id: "ins_draft", text: "Adoption[1].", stage: 1, type: "insight", status: "draft" },
+      ],
+    });
+
+    await store.addCitation({ source_chunk_id: "ins_draft", target_chunk_id: "raw_survey", citation_marker: "[1]" });
+    expect(await store.getDirectCitations("ins_draft")).toHaveLength(1);
+
+    await expect(
+      store.addCitation({ source_chunk_id: "raw_survey", target_chunk_id: "ins_draft", citation_marker: "[1]" })
+    ).rejects.toBeInstanceOf(ImmutableChunkError);
+  });
+
+  it("lists, versions and supersedes chunks like the SQLite store", async () => {
+    const results = [];
+    for (const store of [await seed(new SqliteLineageStore()), await seed(new MemoryLineageStore())]) {
+      const versionId = await store.getNextVersionId("ins_adoption");
+      await store.supersedeChunk(
+        "ins_adoption",
+        { chunk_id: versionId, text: "Adoption is very high[1].", stage: 1, type: "insight" },
+        [{ source_chunk_id: versionId, target_chunk_id: "raw_survey", citation_marker: "[1]" }]
+      );
+      const original = await store.getChunk("ins_adoption");
+
+      results.push({
+        raw: await store.listChunkIds("raw"),
+        all: await store.listChunkIds(),
+        versionId,
+        nextVersionId: await store.getNextVersionId(versionId),
+        original: [original?.status, original?.superseded_by],
+        citations: (await store.getDirectCitations(versionId)).map((row) => row.target_chunk_id),
+      });
+      await expect(
+        store.supersedeChunk("ins_adoption", { chunk_id: "ins_adoption_v9", text: "x", stage: 1, type: "insight" }, [])
+      ).rejects.toThrow();
+    }
+
+    expect(results[0]).toMatchObject({
+      raw: ["raw_financials", "raw_survey"],
+      versionId: "ins_adoption_v2",
+      nextVersionId: "ins_adoption_v3",
+      original: ["superseded", "ins_adoption_v2"],
+      citations: ["raw_survey"],
+    });
+    expect(results[1]).toEqual(results[0]);
+  });
+
+  it("backs the supersede action when selected", async () => {
+    const store = await seed(new MemoryLineageStore());
+    setLineageStore(store);
+
+    const result = await supersedeChunk({ chunkId: "ins_revenue", text: "Revenue tracks adoption[1][2]." });
+
+    expect(result).toEqual({ success: true, chunk_id: "ins_revenue_v2" });
+    expect((await store.getDirectCitations("ins_revenue_v2")).map((row) => row.quote)).toEqual(["78%", null]);
+  });
+});
+
+describe("LINEAGE_STORE_BACKENDS", () => {
+  it("offers the SQLite and in-memory stores", () => {
+    expect(LINEAGE_STORE_BACKENDS.sqlite()).toBeInstanceOf(SqliteLineageStore);
+    expect(LINEAGE_STORE_BACKENDS.memory()).toBeInstanceOf(MemoryLineageStore);
+  });
+});
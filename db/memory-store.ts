@@ -0,0 +1,257 @@
+/**
+ * In-memory LineageStore for tests of code that reads lineage through the store.
+ *
+ * Input data sources: Chunks and citations passed to the constructor or written through the store
+ * Output destinations: Tests, via setLineageStore(), and getLineageStore() when LINEAGE_STORE is "memory"
+ * Dependencies: ./types (row types, ImmutableChunkError), ./store (LineageStore)
+ * Key exports: MemoryLineageStore
+ * Side effects: None outside the instance
+ */
+
+import {
+  ImmutableChunkError,
+  type Chunk,
+  type Citation,
+  type DependentRow,
+  type LineageRow,
+  type NewChunk,
+  type NewCitation,
+  type Traversal,
+} from "./types";
+import type { LineageStore } from "./store";
+
+interface PathStep {
+  citation: Citation;
+  depth: number;
+  has_more: boolean;
+}
+
+/**
+ * Mirrors the SQLite store: published chunks reject new citations, and traversals yield
+ * one row per path with loops stopped at their first repeat and reported in `cycles`
+ */
+export class MemoryLineageStore implements LineageStore {
+  private chunks = new Map<string, Chunk>();
+  private citations: Citation[] = [];
+
+  constructor(data: { chunks?: Chunk[]; citations?: Citation[] } = {}) {
+    for (const chunk of data.chunks ?? []) {
+      this.chunks.set(chunk.chunk_id, { ...chunk });
+    }
+    this.citations = (data.citations ?? []).map((citation) => ({ ...citation }));
+  }
+
+  async getChunk(chunkId: string): Promise<Chunk | null> {
+    const chunk = this.chunks.get(chunkId);
+    return chunk ? { ...chunk } : null;
+  }
+
+  async getChunks(chunkIds: string[]): Promise<Chunk[]> {
+    return [...new Set(chunkIds)].flatMap((id) => {
+      const chunk = this.chunks.get(id);
+      return chunk ? [{ ...chunk }] : [];
+    });
+  }
+
+  async listChunkIds(type?: "raw" | "insight"): Promise<string[]> {
+    return [...this.chunks.values()]
+      .filter((chunk) => type === undefined || chunk.type === type)
+      .map((chunk) => chunk.chunk_id)
+      .sort();
+  }
+
+  async getDirectCitations(chunkId: string): Promise<Citation[]> {
+    return this.citations
+      .filter((citation) => citation.source_chunk_id === chunkId)
+      .map((citation) => ({ ...citation }));
+  }
+
+  async getFullLineage(chunkId: string, maxDepth: number): Promise<Traversal<LineageRow>> {
+    const { steps, cycles } = this.walk(chunkId, maxDepth, "citations");
+    const rows = steps.map(({ citation, depth }) => ({
+      target_chunk_id: citation.target_chunk_id,
+      depth,
+      parent_id: citation.source_chunk_id,
+      citation_marker: citation.citation_marker,
+      confidence: citation.confidence,
+      relationship_type: citation.relationship_type,
+      quote: citation.quote ?? null,
+      quote_start: citation.quote_start ?? null,
+      quote_end: citation.quote_end ?? null,
+    }));
+    rows.sort((a, b) => a.depth - b.depth || a.target_chunk_id.localeCompare(b.target_chunk_id));
+    return {
+      rows,
+      chunks: await this.getChunks(rows.map((row) => row.target_chunk_id)),
+      cycles,
+      truncated: steps.some((step) => step.has_more),
+    };
+  }
+
+  async getFullLineages(
+    chunkIds: string[],
+    maxDepth: number
+  ): Promise<Record<string, Traversal<LineageRow>>> {
+    const traversals: Record<string, Traversal<LineageRow>> = {};
+    for (const chunkId of chunkIds) {
+      traversals[chunkId] = await this.getFullLineage(chunkId, maxDepth);
+    }
+    return traversals;
+  }
+
+  async getDependents(chunkId: string, maxDepth: number): Promise<Traversal<DependentRow>> {
+    const { steps, cycles } = this.walk(chunkId, maxDepth, "dependents");
+    const rows = steps.map(({ citation, depth }) => ({
+      source_chunk_id: citation.source_chunk_id,
+      depth,
+      cited_chunk_id: citation.target_chunk_id,
+      citation_marker: citation.citation_marker,
+      confidence: citation.confidence,
+      relationship_type: citation.relationship_type,
+      quote: citation.quote ?? null,
+      quote_start: citation.quote_start ?? null,
+      quote_end: citation.quote_end ?? null,
+    }));
+    rows.sort((a, b) => a.depth - b.depth || a.source_chunk_id.localeCompare(b.source_chunk_id));
+    return {
+      rows,
+      chunks: await this.getChunks(rows.map((row) => row.source_chunk_id)),
+      cycles,
+      truncated: steps.some((step) => step.has_more),
+    };
+  }
+
+  async insertChunksWithCitations(chunks: NewChunk[], citations: NewCitation[]): Promise<void> {
+    const batchIds = new Set(chunks.map((chunk) => chunk.chunk_id));
+
+    // Validate everything first so a failure leaves the store unchanged
+    for (const chunk of chunks) {
+      if (this.chunks.has(chunk.chunk_id)) {
+        throw new Error(`Chunk ${chunk.chunk_id} already exists`);
+      }
+    }
+    for (const citation of citations) {
+      if (!batchIds.has(citation.target_chunk_id) && !this.chunks.has(citation.target_chunk_id)) {
+        throw new Error(
+          `Citation ${citation.citation_marker} references unknown chunk ${citation.target_chunk_id}`
+        );
+      }
+    }
+
+    for (const chunk of chunks) {
+      this.chunks.set(chunk.chunk_id, {
+        ...chunk,
+        status: "published",
+        superseded_by: null,
+        document: null,
+      });
+    }
+    this.citations.push(...citations.map(toCitation));
+  }
+
+  async addCitation(citation: NewCitation): Promise<void> {
+    const source = this.chunks.get(citation.source_chunk_id);
+    if (source && source.status !== "draft") {
+      throw new ImmutableChunkError(
+        citation.source_chunk_id,
+        "add_citation",
+        "immutable: cannot add citations to a published chunk"
+      );
+    }
+    if (!source || !this.chunks.has(citation.target_chunk_id)) {
+      throw new Error("FOREIGN KEY constraint failed");
+    }
+    this.citations.push(toCitation(citation));
+  }
+
+  async getNextVersionId(chunkId: string): Promise<string> {
+    const versionMatch = chunkId.match(/^(.*)_v(\d+)$/);
+    const base = versionMatch ? versionMatch[1] : chunkId;
+    let version = versionMatch ? parseInt(versionMatch[2], 10) + 1 : 2;
+    while (this.chunks.has(`${base}_v${version}`)) {
+      version++;
+    }
+    return `${base}_v${version}`;
+  }
+
+  // Supersession reasons are only recorded by the SQLite store's supersessions table
+  async supersedeChunk(
+    chunkId: string,
+    replacement: NewChunk,
+    citations: NewCitation[]
+  ): Promise<void> {
+    const original = this.chunks.get(chunkId);
+    if (!original) {
+      throw new Error(`Chunk ${chunkId} does not exist`);
+    }
+    if (original.status === "superseded") {
+      throw new Error(`Chunk ${chunkId} is already superseded`);
+    }
+
+    await this.insertChunksWithCitations([replacement], citations);
+    this.chunks.set(chunkId, {
+      ...original,
+      status: "superseded",
+      superseded_by: replacement.chunk_id,
+    });
+  }
+
+  /**
+   * Breadth-first walk that keeps each path's visited ids, like the recursive CTEs
+   */
+  private walk(
+    chunkId: string,
+    maxDepth: number,
+    direction: "citations" | "dependents"
+  ): { steps: PathStep[]; cycles: string[][] } {
+    const next = (id: string) =>
+      this.citations.filter((citation) =>
+        direction === "citations" ? citation.source_chunk_id === id : citation.target_chunk_id === id
+      );
+    const far = (citation: Citation) =>
+      direction === "citations" ? citation.target_chunk_id : citation.source_chunk_id;
+
+    const steps: PathStep[] = [];
+    const cycles = new Map<string, string[]>();
+    let frontier = [{ id: chunkId, path: [chunkId] }];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const following: typeof frontier = [];
+
+      for (const { id, path } of frontier) {
+        for (const citation of next(id)) {
+          const reached = far(citation);
+          const isCycle = path.includes(reached);
+          steps.push({
+            citation,
+            depth,
+            has_more: depth === maxDepth && !isCycle && next(reached).length > 0,
+          });
+
+          if (isCycle) {
+            const loop = [...path.slice(path.indexOf(reached)), reached];
+            cycles.set(loop.join("/"), loop);
+          } else {
+            following.push({ id: reached, path: [...path, reached] });
+          }
+        }
+      }
+      frontier = following;
+    }
+
+    return { steps, cycles: [...cycles.values()] };
+  }
+}
+
+function toCitation(citation: NewCitation): Citation {
+  return {
+    source_chunk_id: citation.source_chunk_id,
+    target_chunk_id: citation.target_chunk_id,
+    citation_marker: citation.citation_marker,
+    relationship_type: citation.relationship_type ?? "cites",
+    confidence: citation.confidence ?? 1.0,
+    quote: citation.quote ?? null,
+    quote_start: citation.quote_start ?? null,
+    quote_end: citation.quote_end ?? null,
+  };
+}
@@ -1,3 +1,14 @@
+-- Documents table: source documents that raw chunks are excerpted from
+CREATE TABLE IF NOT EXISTS documents (
+  document_id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  publisher TEXT,
+  url TEXT,
+  published_at TEXT,        -- ISO 8601 date
+  file_hash TEXT,           -- e.g., "sha256:9f2c..." of the archived file
+  document_type TEXT        -- 'survey', 'analyst_report', 'financial_statement', ...
+);
+
 -- Content table: stores all chunks (raw data + insights)
 CREATE TABLE IF NOT EXISTS content (
   chunk_id TEXT PRIMARY KEY,
@@ -7,16 +18,31 @@ CREATE TABLE IF NOT EXISTS content (
   author TEXT,
   created_at TEXT,          -- ISO 8601 format
   source_title TEXT,        -- For raw data: "Market Survey Q3 2024"
-  status TEXT DEFAULT 'published'
+  status TEXT NOT NULL DEFAULT 'published'
+    CHECK (status IN ('draft', 'published', 'superseded')),
+  source_type TEXT,         -- For raw data: 'survey', 'audit', 'forecast', ... (sets default reliability)
+  reliability REAL,         -- Manual reliability score 0..1, overrides the source_type default
+  document_id TEXT,         -- For raw data: the source document this chunk is excerpted from
+  locator_page INTEGER,     -- Where in the document: page number,
+  locator_section TEXT,     --   section heading or number,
+  locator_question TEXT,    --   survey question number (e.g., "Q12")
+  FOREIGN KEY (document_id) REFERENCES documents(document_id)
 );
 
+CREATE INDEX IF NOT EXISTS idx_content_document ON content(document_id);
+
 -- Citations table: edges between chunks
 CREATE TABLE IF NOT EXISTS citations (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   source_chunk_id TEXT NOT NULL,
   target_chunk_id TEXT NOT NULL,
   citation_marker TEXT,          -- e.g., "[1]", "[2]" - maps to citation number in chunk text
-  relationship_type TEXT DEFAULT 'cites',
+  relationship_type TEXT NOT NULL DEFAULT 'cites'
+    CHECK (relationship_type IN ('cites', 'supports', 'contradicts', 'extends', 'quotes')),
+  confidence REAL NOT NULL DEFAULT 1.0,  -- How strongly the citing chunk relies on this source, 0..1
+  quote TEXT,                    -- Optional passage of the target chunk that backs the claim
+  quote_start INTEGER,           -- Character offsets of the quote in the target chunk's text
+  quote_end INTEGER,
   FOREIGN KEY (source_chunk_id) REFERENCES content(chunk_id),
   FOREIGN KEY (target_chunk_id) REFERENCES content(chunk_id)
 );
@@ -24,3 +50,176 @@ CREATE TABLE IF NOT EXISTS citations (
 -- Indexes for fast lineage traversal
 CREATE INDEX IF NOT EXISTS idx_citations_source ON citations(source_chunk_id);
 CREATE INDEX IF NOT EXISTS idx_citations_target ON citations(target_chunk_id);
+
+-- Supersessions table: a replacement chunk supersedes a corrected (published) chunk
+CREATE TABLE IF NOT EXISTS supersessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_chunk_id TEXT NOT NULL,         -- replacement chunk
+  target_chunk_id TEXT NOT NULL UNIQUE,  -- superseded chunk (at most one replacement)
+  reason TEXT,                           -- e.g., "Corrected Q3 adoption figure"
+  created_at TEXT,                       -- ISO 8601 format
+  FOREIGN KEY (source_chunk_id) REFERENCES content(chunk_id),
+  FOREIGN KEY (target_chunk_id) REFERENCES content(chunk_id)
+);
+
+-- Immutability audit table: rejected attempts to modify published chunks or their citations
+CREATE TABLE IF NOT EXISTS immutability_audit (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chunk_id TEXT NOT NULL,
+  operation TEXT NOT NULL,      -- e.g., "update_chunk", "delete_citation"
+  detail TEXT,                  -- JSON of the attempted change
+  error TEXT NOT NULL,
+  attempted_at TEXT NOT NULL    -- ISO 8601 format
+);
+
+-- Immutability triggers: published (or superseded) chunks only allow a reliability change and
+-- the one status change published -> superseded. Chunks are inserted as 'draft', get their
+-- citations, then move to 'published'; nothing ever goes back, so neither content nor citations
+-- can be unlocked by a detour through another status.
+CREATE TRIGGER IF NOT EXISTS content_immutable_update
+BEFORE UPDATE ON content
+WHEN OLD.status IN ('published', 'superseded')
+  AND (
+    NEW.chunk_id IS NOT OLD.chunk_id
+    OR NEW.text IS NOT OLD.text
+    OR NEW.stage IS NOT OLD.stage
+    OR NEW.type IS NOT OLD.type
+    OR NEW.author IS NOT OLD.author
+    OR NEW.created_at IS NOT OLD.created_at
+    OR NEW.source_title IS NOT OLD.source_title
+    OR NEW.source_type IS NOT OLD.source_type
+    OR NEW.document_id IS NOT OLD.document_id
+    OR NEW.locator_page IS NOT OLD.locator_page
+    OR NEW.locator_section IS NOT OLD.locator_section
+    OR NEW.locator_question IS NOT OLD.locator_question
+    OR (
+      NEW.status IS NOT OLD.status
+      AND NOT (OLD.status = 'published' AND NEW.status = 'superseded')
+    )
+  )
+BEGIN
+  SELECT RAISE(ABORT, 'immutable: published chunk content cannot be modified');
+END;
+
+CREATE TRIGGER IF NOT EXISTS content_immutable_delete
+BEFORE DELETE ON content
+WHEN OLD.status IN ('published', 'superseded')
+BEGIN
+  SELECT RAISE(ABORT, 'immutable: published chunk cannot be deleted');
+END;
+
+CREATE TRIGGER IF NOT EXISTS citations_immutable_insert
+BEFORE INSERT ON citations
+WHEN (SELECT status FROM content WHERE chunk_id = NEW.source_chunk_id) IN ('published', 'superseded')
+BEGIN
+  SELECT RAISE(ABORT, 'immutable: cannot add citations to a published chunk');
+END;
+
+CREATE TRIGGER IF NOT EXISTS citations_immutable_update
+BEFORE UPDATE ON citations
+WHEN (SELECT status FROM content WHERE chunk_id = OLD.source_chunk_id) IN ('published', 'superseded')
+  OR (SELECT status FROM content WHERE chunk_id = NEW.source_chunk_id) IN ('published', 'superseded')
+BEGIN
+  SELECT RAISE(ABORT, 'immutable: citations of a published chunk cannot be modified');
+END;
+
+CREATE TRIGGER IF NOT EXISTS citations_immutable_delete
+BEFORE DELETE ON citations
+WHEN (SELECT status FROM content WHERE chunk_id = OLD.source_chunk_id) IN ('published', 'superseded')
+BEGIN
+  SELECT RAISE(ABORT, 'immutable: citations of a published chunk cannot be deleted');
+END;
+
+-- Full-text search index over chunk text and source titles, kept in sync by triggers
+CREATE VIRTUAL TABLE IF NOT EXISTS content_fts USING fts5(
+  chunk_id UNINDEXED,
+  text,
+  source_title
+);
+
+CREATE TRIGGER IF NOT EXISTS content_fts_insert
+AFTER INSERT ON content
+BEGIN
+  INSERT INTO content_fts (chunk_id, text, source_title)
+  VALUES (NEW.chunk_id, NEW.text, NEW.source_title);
+END;
+
+CREATE TRIGGER IF NOT EXISTS content_fts_delete
+AFTER DELETE ON content
+BEGIN
+  DELETE FROM content_fts WHERE chunk_id = OLD.chunk_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS content_fts_update
+AFTER UPDATE OF chunk_id, text, source_title ON content
+BEGIN
+  DELETE FROM content_fts WHERE chunk_id = OLD.chunk_id;
+  INSERT INTO content_fts (chunk_id, text, source_title)
+  VALUES (NEW.chunk_id, NEW.text, NEW.source_title);
+END;
+
+-- Reports table: stored insight reports (markdown with inline markers and References)
+CREATE TABLE IF NOT EXISTS reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT NOT NULL,
+  author TEXT,
+  status TEXT NOT NULL DEFAULT 'draft',  -- 'draft' or 'published'
+  markdown TEXT NOT NULL,
+  created_at TEXT,                       -- ISO 8601 format
+  updated_at TEXT
+);
+
+-- Report citations table: each References entry of a report linked to a stored chunk
+CREATE TABLE IF NOT EXISTS report_citations (
+  report_id INTEGER NOT NULL,
+  citation_marker TEXT NOT NULL,  -- e.g., "[1]"
+  chunk_id TEXT NOT NULL,
+  PRIMARY KEY (report_id, citation_marker),
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+  FOREIGN KEY (chunk_id) REFERENCES content(chunk_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_citations_chunk ON report_citations(chunk_id);
+
+-- Report revisions table: every saved version of a report, oldest first (reports holds the latest)
+CREATE TABLE IF NOT EXISTS report_revisions (
+  report_id INTEGER NOT NULL,
+  revision INTEGER NOT NULL,      -- 1 for the first save, then counting up
+  title TEXT NOT NULL,
+  author TEXT,
+  markdown TEXT NOT NULL,
+  created_at TEXT,                -- ISO 8601 format
+  PRIMARY KEY (report_id, revision),
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE
+);
+
+-- Report chunks table: the insight chunk each paragraph of a report's latest revision is stored as,
+-- so a revision can reuse unchanged paragraphs and supersede edited ones
+CREATE TABLE IF NOT EXISTS report_chunks (
+  report_id INTEGER NOT NULL,
+  position INTEGER NOT NULL,      -- 0-based paragraph index
+  chunk_id TEXT NOT NULL,
+  PRIMARY KEY (report_id, position),
+  FOREIGN KEY (report_id) REFERENCES reports(id) ON DELETE CASCADE,
+  FOREIGN KEY (chunk_id) REFERENCES content(chunk_id)
+);
+
+-- Saved revisions are history: they can be added but never rewritten
+CREATE TRIGGER IF NOT EXISTS report_revisions_immutable_update
+BEFORE UPDATE ON report_revisions
+BEGIN
+  SELECT RAISE(ABORT, 'immutable: report revisions cannot be modified');
+END;
+
+-- Similarity index: L2-normalized TF-IDF weight of each term in each current chunk's text.
+-- New chunks are added as they are saved and superseded ones removed; seed and `cli reindex`
+-- rebuild it (see lib/similarity.ts)
+CREATE TABLE IF NOT EXISTS chunk_terms (
+  chunk_id TEXT NOT NULL,
+  term TEXT NOT NULL,
+  weight REAL NOT NULL,
+  PRIMARY KEY (chunk_id, term),
+  FOREIGN KEY (chunk_id) REFERENCES content(chunk_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_chunk_terms_term ON chunk_terms(term);
@@ -0,0 +1,176 @@
+/**
+ * Synthetic large dataset for load testing: thousands of chunks in four stages and a report with 50 citations.
+ *
+ * Input data sources: Deterministic pseudo-random generator (same data on every run), optional --scale <n>
+ * Output destinations: SQLite database at data/trace-large.db unless LINEAGE_DB_PATH is set
+ * Dependencies: Database utilities from ./index (initDb, resetDb, insertDocument, insertChunksWithCitations,
+ *   insertReport, listChunkTexts, replaceChunkTerms), lib/markdown-utils.ts, lib/similarity.ts
+ * Key exports: LARGE_REPORT_TITLE, LARGE_DB_PATH
+ * Side effects: Drops, recreates and repopulates every table of the target database
+ */
+
+import { join } from "path";
+import {
+  initDb,
+  insertChunksWithCitations,
+  insertDocument,
+  insertReport,
+  listChunkTexts,
+  replaceChunkTerms,
+  resetDb,
+  type NewChunk,
+  type NewCitation,
+} from "./index";
+import { parseCitationMap } from "../lib/markdown-utils";
+import { buildTermWeights } from "../lib/similarity";
+
+export const LARGE_DB_PATH = join(process.cwd(), "data", "trace-large.db");
+export const LARGE_REPORT_TITLE = "Synthetic Load Test Report";
+
+// Chunks per stage at --scale 1; executive chunks and report citations stay fixed at 50
+const RAW_PER_SCALE = 2000;
+const INSIGHTS_PER_SCALE = 800;
+const SYNTHESIS_PER_SCALE = 200;
+const EXECUTIVE_COUNT = 50;
+const DOCUMENT_COUNT = 100;
+
+const TOPICS = [
+  "adoption", "pricing", "retention", "churn", "expansion", "security", "compliance",
+  "integration", "onboarding", "margin", "forecast", "competition", "partnerships",
+  "analytics", "latency", "support", "procurement", "licensing", "migration", "engagement",
+];
+const REGIONS = ["North America", "EMEA", "APAC", "LATAM"];
+const SEGMENTS = ["enterprise", "mid-market", "SMB", "public sector"];
+
+/**
+ * mulberry32: small seeded PRNG so every run produces the same dataset
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function seedLarge(scale: number): void {
+  const random = createRandom(20241105);
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+  const percent = () => `${Math.floor(random() * 90) + 5}%`;
+  // Distinct picks from 0..count-1
+  const sample = (count: number, size: number): number[] => {
+    const picked = new Set<number>();
+    while (picked.size < Math.min(size, count)) {
+      picked.add(Math.floor(random() * count));
+    }
+    return [...picked];
+  };
+  const day = (offset: number) =>
+    new Date(Date.UTC(2024, 0, 1) + offset * 86_400_000).toISOString();
+
+  resetDb();
+  initDb();
+
+  for (let i = 1; i <= DOCUMENT_COUNT; i++) {
+    insertDocument({
+      document_id: `doc_synthetic_${i}`,
+      title: `Synthetic ${pick(TOPICS)} study ${i}`,
+      publisher: `Publisher ${(i % 12) + 1}`,
+      published_at: day(i).slice(0, 10),
+      document_type: pick(["survey", "analyst_report", "financial_statement", "forecast"]),
+    });
+  }
+
+  const raw: NewChunk[] = Array.from({ length: RAW_PER_SCALE * scale }, (_, i) => ({
+    chunk_id: `raw_synthetic_chunk_${i + 1}`,
+    text: `${pick(SEGMENTS)} ${pick(TOPICS)} in ${pick(REGIONS)} reached ${percent()}, with ${pick(TOPICS)} up ${percent()} year over year.`,
+    stage: 0,
+    type: "raw",
+    author: "data-team@consulting.com",
+    created_at: day(120 + (i % 60)),
+    source_type: pick(["survey", "audit", "forecast"]),
+    document_id: `doc_synthetic_${(i % DOCUMENT_COUNT) + 1}`,
+    locator_page: (i % 40) + 1,
+  }));
+  insertChunksWithCitations(raw, []);
+
+  // Each higher stage cites `perChunk` distinct chunks of the stage below
+  const insertStage = (
+    stage: number,
+    count: number,
+    perChunk: number,
+    below: NewChunk[],
+    dayOffset: number
+  ): NewChunk[] => {
+    const chunks: NewChunk[] = [];
+    const citations: NewCitation[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const chunkId = `ins_synthetic_s${stage}_chunk_${i + 1}`;
+      const markers = sample(below.length, perChunk).map((index, n) => {
+        citations.push({
+          source_chunk_id: chunkId,
+          target_chunk_id: below[index].chunk_id,
+          citation_marker: `[${n + 1}]`,
+          relationship_type: n === 0 ? "supports" : "cites",
+        });
+        return `[${n + 1}]`;
+      });
+      chunks.push({
+        chunk_id: chunkId,
+        text: `${pick(TOPICS)} and ${pick(TOPICS)} trends in the ${pick(SEGMENTS)} segment point to ${percent()} ${pick(TOPICS)}${markers.join("")}.`,
+        stage,
+        type: "insight",
+        author: `analyst${(i % 8) + 1}@consulting.com`,
+        created_at: day(dayOffset + (i % 20)),
+      });
+    }
+
+    insertChunksWithCitations(chunks, citations);
+    return chunks;
+  };
+
+  const insights = insertStage(1, INSIGHTS_PER_SCALE * scale, 3, raw, 200);
+  const synthesis = insertStage(2, SYNTHESIS_PER_SCALE * scale, 3, insights, 230);
+  const executive = insertStage(3, EXECUTIVE_COUNT, 4, synthesis, 260);
+
+  const paragraphs = executive.map(
+    (_, i) => `Finding ${i + 1} draws on the ${pick(TOPICS)} synthesis[${i + 1}].`
+  );
+  const references = executive.map((chunk, i) => `[${i + 1}] ${chunk.chunk_id}`);
+  const markdown = `# ${LARGE_REPORT_TITLE}\n\n${paragraphs.join("\n\n")}\n\n---\n\n## References\n\n${references.join("\n")}\n`;
+  insertReport(
+    {
+      title: LARGE_REPORT_TITLE,
+      status: "published",
+      markdown,
+      created_at: day(290),
+    },
+    parseCitationMap(markdown)
+  );
+
+  const termWeights = buildTermWeights(listChunkTexts());
+  replaceChunkTerms(termWeights);
+
+  const total = raw.length + insights.length + synthesis.length + executive.length;
+  console.log(
+    `✅ Seeded ${total} chunks (${raw.length} raw, ${insights.length} + ${synthesis.length} + ${executive.length} insights), ` +
+      `1 report with ${executive.length} citations, ${termWeights.length} indexed terms`
+  );
+}
+
+// Run when executed as a script, against data/trace-large.db unless LINEAGE_DB_PATH says otherwise
+if (process.argv[1]?.endsWith("seed-large.ts")) {
+  process.env.LINEAGE_DB_PATH ||= LARGE_DB_PATH;
+  const scaleFlag = process.argv.indexOf("--scale");
+  const scale = scaleFlag === -1 ? 1 : Number(process.argv[scaleFlag + 1]);
+  if (!Number.isInteger(scale) || scale < 1) {
+    console.error("--scale must be a positive integer");
+    process.exitCode = 2;
+  } else {
+    seedLarge(scale);
+    console.log(`🎉 Large dataset written to ${process.env.LINEAGE_DB_PATH}`);
+  }
+}
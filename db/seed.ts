@@ -1,27 +1,191 @@
 /**
  * Database seed script that populates the citation lineage demo with multi-stage research data.
  *
- * Input data sources: Hardcoded seed data in this file (10 raw chunks, 8 stage-1 insights, 4 stage-2 synthesis)
- * Output destinations: SQLite database at data/trace-demo.db (content and citations tables)
- * Dependencies: Database utilities from ./index (getDb, initDb)
+ * Input data sources: Hardcoded seed data in this file (10 source documents, 10 raw chunks, 8 stage-1 insights,
+ *   4 stage-2 synthesis, 1 demo report with an earlier draft revision)
+ * Output destinations: SQLite database at data/trace-demo.db (documents, content, citations, reports,
+ *   report_revisions, chunk_terms tables)
+ * Dependencies: Database utilities from ./index (getDb, initDb, resetDb, insertDocument, insertReport, reviseReport,
+ *   listChunkTexts, replaceChunkTerms), lib/similarity.ts (term weights)
  * Key exports: seed function
- * Side effects: Clears and repopulates database tables with demo data
+ * Side effects: Drops, recreates and repopulates database tables with demo data
  */
 
-import { getDb, initDb } from "./index";
+import {
+  getDb,
+  initDb,
+  insertDocument,
+  insertReport,
+  listChunkTexts,
+  replaceChunkTerms,
+  resetDb,
+  reviseReport,
+  type SourceDocument,
+} from "./index";
+import { parseCitationMap } from "../lib/markdown-utils";
+import { buildTermWeights } from "../lib/similarity";
+
+// Demo report citing the four Stage 2 synthesis insights
+const DEMO_REPORT = `# Market Opportunity Analysis Q4 2024
+
+## Strategic Analysis
+
+The convergence of strong market adoption (78%) and improving customer satisfaction (32% increase) suggests sustainable competitive positioning[1]. However, direct competitor analysis indicates vulnerability to specialized entrants in the 27% "emerging player" segment, particularly if they solve the integration challenge that drives current satisfaction.
+
+## Growth Opportunities
+
+The 18% CAGR industry forecast combined with demonstrated financial performance (24% revenue growth) and strong customer retention creates a favorable growth environment[2]. Geographic expansion showing 89% growth in APAC indicates successful international scaling capabilities.
+
+## Product-Market Fit
+
+Product engagement patterns reveal strong value realization, with 42% DAU growth and 41% upsell rates[3]. Cloud migration trends (67% adoption) align with our platform architecture, while enterprise security requirements match our SOC 2 Type II and ISO 27001 certifications.
+
+## Competitive Positioning
+
+Competitive positioning shows defensible advantages: integration capabilities drive 89% satisfaction scores, pricing power evidenced by 18% ACV increase, and enterprise credibility from security certifications[4]. The 45% market share leader position provides scale advantages in R&D and sales efficiency.
+
+---
+
+## References
+
+[1] ins_strategic_analysis_chunk_1
+[2] ins_growth_opportunity_chunk_2
+[3] ins_product_market_fit_chunk_3 "Product engagement patterns reveal strong value realization"
+[4] ins_competitive_moat_chunk_4
+`;
+
+// First draft of the demo report: cites stage-1 insights for growth and product fit
+// (re-pointed to the synthesis chunks in DEMO_REPORT) and has no competitive section yet
+const DEMO_REPORT_DRAFT = `# Market Opportunity Analysis Q4 2024
+
+## Strategic Analysis
+
+The convergence of strong market adoption (78%) and improving customer satisfaction (32% increase) suggests sustainable competitive positioning[1]. However, direct competitor analysis indicates vulnerability to specialized entrants in the 27% "emerging player" segment.
+
+## Growth Opportunities
+
+Demonstrated financial performance (24% revenue growth) creates a favorable growth environment[2].
+
+## Product-Market Fit
+
+Product engagement patterns reveal strong value realization, with 42% DAU growth[3]. Cloud migration trends (67% adoption) align with our platform architecture.
+
+---
+
+## References
+
+[1] ins_strategic_analysis_chunk_1
+[2] ins_financial_performance_chunk_4
+[3] ins_product_engagement_chunk_7
+`;
 
 function seed() {
-  // Initialize database schema
+  // Drop existing tables (published rows cannot be deleted), then recreate the schema
+  resetDb();
   initDb();
 
   const db = getDb();
 
-  // Clear existing data
-  db.prepare("DELETE FROM citations").run();
-  db.prepare("DELETE FROM content").run();
-
   console.log("🗑️  Cleared existing data");
 
+  // ===== SOURCE DOCUMENTS (one per raw source) =====
+  const documents: SourceDocument[] = [
+    {
+      document_id: "doc_enterprise_ai_survey_q3_2024",
+      title: "Enterprise AI Adoption Survey Q3 2024",
+      publisher: "Northfield Research",
+      url: "https://docs.example.com/enterprise-ai-survey-q3-2024.pdf",
+      published_at: "2024-10-14",
+      file_hash: "sha256:b289ce8b864e6ecd2906a3a34e2a3ba18fde52c95fb98ac57bfa1b832adba5e4",
+      document_type: "survey",
+    },
+    {
+      document_id: "doc_ai_analytics_vendors_2024",
+      title: "Market Intelligence Report: AI Analytics Vendors",
+      publisher: "Meridian Analyst Group",
+      url: "https://docs.example.com/ai-analytics-vendors-2024.pdf",
+      published_at: "2024-10-17",
+      file_hash: "sha256:b4ec28b9336f4690bda1ea8d34b4f5968a9ead81472d1e1dffe10df89895dac1",
+      document_type: "analyst_report",
+    },
+    {
+      document_id: "doc_customer_satisfaction_q3_2024",
+      title: "Customer Satisfaction Analysis Q3 2024",
+      publisher: "Customer Insights Team",
+      url: "https://docs.example.com/customer-satisfaction-q3-2024.pdf",
+      published_at: "2024-10-19",
+      file_hash: "sha256:9f83a57140c16ecc3e21d25d19620523a956133bb067cae23146a99ebbe13cfb",
+      document_type: "survey",
+    },
+    {
+      document_id: "doc_gartner_forecast_2024_2028",
+      title: "Gartner Industry Forecast 2024-2028",
+      publisher: "Gartner",
+      url: "https://docs.example.com/gartner-forecast-2024-2028.pdf",
+      published_at: "2024-10-21",
+      file_hash: "sha256:52046e3987b31d623d363da1d72c5727e6e8d2802380dadc5ab1b5d6f38ca6f4",
+      document_type: "forecast",
+    },
+    {
+      document_id: "doc_financial_report_q3_2024",
+      title: "Q3 2024 Financial Report",
+      publisher: "Finance Department",
+      url: "https://docs.example.com/financial-report-q3-2024.pdf",
+      published_at: "2024-10-24",
+      file_hash: "sha256:3e4baa5d9b461219ebb678cb4f2fdd380ee18d4c59bf0c5cf6669fd4aa034128",
+      document_type: "financial_statement",
+    },
+    {
+      document_id: "doc_cloud_analytics_adoption_2024",
+      title: "Cloud Analytics Adoption Report 2024",
+      publisher: "Meridian Analyst Group",
+      url: "https://docs.example.com/cloud-analytics-adoption-2024.pdf",
+      published_at: "2024-10-25",
+      file_hash: "sha256:8cf065bd16b4e89c1f8d3f3a77bf6509a4c4e72ab97db4ff99c373538d691b15",
+      document_type: "analyst_report",
+    },
+    {
+      document_id: "doc_pricing_revenue_q3_2024",
+      title: "Pricing and Revenue Analysis Q3 2024",
+      publisher: "Revenue Operations",
+      url: "https://docs.example.com/pricing-revenue-q3-2024.pdf",
+      published_at: "2024-10-26",
+      file_hash: "sha256:9c1eae920fb7e57619d62de6109f4c8760ce0a1b5278260898b40853b780455b",
+      document_type: "internal_analytics",
+    },
+    {
+      document_id: "doc_security_audit_q3_2024",
+      title: "Security and Compliance Audit Q3 2024",
+      publisher: "Independent Audit Partners",
+      url: "https://docs.example.com/security-audit-q3-2024.pdf",
+      published_at: "2024-10-27",
+      file_hash: "sha256:d519212c3e4a1a3fb20c86b52632d2221d8f493c6e4374395c90dd2ce2144d2f",
+      document_type: "audit",
+    },
+    {
+      document_id: "doc_product_analytics_q3_2024",
+      title: "Product Analytics Dashboard Q3 2024",
+      publisher: "Product Analytics Team",
+      url: "https://docs.example.com/product-analytics-q3-2024.pdf",
+      published_at: "2024-10-28",
+      file_hash: "sha256:5dd57fa546f0762770aeb9bd6ee9b2765d49e9e6598b520088841272f3e3ccd0",
+      document_type: "internal_analytics",
+    },
+    {
+      document_id: "doc_geographic_market_2024",
+      title: "Geographic Market Analysis 2024",
+      publisher: "Finance Department",
+      url: "https://docs.example.com/geographic-market-2024.pdf",
+      published_at: "2024-10-29",
+      file_hash: "sha256:35d3d27513933765d2d3c604aefed947de0ce22fec62a8290ae9616d28f87eaf",
+      document_type: "financial_statement",
+    },
+  ];
+
+  documents.forEach((document) => insertDocument(document));
+
+  console.log(`✅ Inserted ${documents.length} source documents`);
+
   // ===== STAGE 0: Raw Data Chunks (10 total) =====
   const stage0: Array<{
     chunk_id: string;
@@ -31,86 +195,133 @@ function seed() {
     author?: string;
     created_at?: string;
     source_title?: string;
+    source_type?: string;
+    reliability?: number;
+    document_id?: string;
+    locator_page?: number;
+    locator_section?: string;
+    locator_question?: string;
   }> = [
     {
       chunk_id: "raw_market_survey_chunk_1",
       text: "Q3 2024 market survey reveals 78% adoption rate of AI-powered analytics tools across enterprise segments, up from 52% in Q2 2024. Survey methodology: 500 enterprise decision-makers across technology, finance, and healthcare sectors.",
       stage: 0,
       type: "raw",
+      source_type: "survey",
       source_title: "Enterprise AI Adoption Survey Q3 2024",
       created_at: "2024-10-15T09:00:00Z",
+      document_id: "doc_enterprise_ai_survey_q3_2024",
+      locator_page: 4,
+      locator_section: "2.1 Adoption by Segment",
+      locator_question: "Q12",
     },
     {
       chunk_id: "raw_competitor_report_chunk_2",
       text: "Competitor analysis indicates that CompanyX holds 45% market share in the AI analytics segment, followed by CompanyY at 28% and emerging players at 27%. CompanyX strength lies in enterprise integration capabilities.",
       stage: 0,
       type: "raw",
+      source_type: "analyst_report",
+      reliability: 0.7, // Single-analyst estimate, rated below the analyst_report default
       source_title: "Market Intelligence Report: AI Analytics Vendors",
       created_at: "2024-10-18T14:30:00Z",
+      document_id: "doc_ai_analytics_vendors_2024",
+      locator_page: 17,
+      locator_section: "3 Vendor Landscape",
     },
     {
       chunk_id: "raw_customer_feedback_chunk_3",
       text: "Customer satisfaction scores show 32% year-over-year improvement, with NPS increasing from 42 to 56. Primary satisfaction drivers: ease of integration (89%), accuracy of insights (86%), and support responsiveness (82%).",
       stage: 0,
       type: "raw",
+      source_type: "survey",
       source_title: "Customer Satisfaction Analysis Q3 2024",
       created_at: "2024-10-20T11:15:00Z",
+      document_id: "doc_customer_satisfaction_q3_2024",
+      locator_page: 2,
+      locator_section: "1 Key Findings",
+      locator_question: "Q4",
     },
     {
       chunk_id: "raw_industry_analysis_chunk_4",
       text: "Industry forecast projects 18% CAGR for AI analytics market through 2028, driven by increasing data volumes, regulatory compliance requirements, and competitive pressure for data-driven decision making.",
       stage: 0,
       type: "raw",
+      source_type: "forecast",
       source_title: "Gartner Industry Forecast 2024-2028",
       created_at: "2024-10-22T08:45:00Z",
+      document_id: "doc_gartner_forecast_2024_2028",
+      locator_page: 9,
+      locator_section: "Market Outlook",
     },
     {
       chunk_id: "raw_financial_data_chunk_5",
       text: "Financial performance: Revenue growth of 24% YoY in Q3 2024, reaching $145M. EBITDA margin improved from 18% to 22%. Customer acquisition cost decreased 15% while lifetime value increased 31%.",
       stage: 0,
       type: "raw",
+      source_type: "financial_statement",
       source_title: "Q3 2024 Financial Report",
       created_at: "2024-10-25T16:00:00Z",
+      document_id: "doc_financial_report_q3_2024",
+      locator_page: 3,
+      locator_section: "Financial Highlights",
     },
     {
       chunk_id: "raw_tech_trends_chunk_6",
       text: "Technology adoption patterns show 67% of enterprises now using cloud-based analytics platforms, up from 45% in 2023. Migration drivers: scalability (91%), cost reduction (78%), and remote workforce enablement (72%).",
       stage: 0,
       type: "raw",
+      source_type: "analyst_report",
       source_title: "Cloud Analytics Adoption Report 2024",
       created_at: "2024-10-26T10:00:00Z",
+      document_id: "doc_cloud_analytics_adoption_2024",
+      locator_page: 11,
+      locator_section: "4.2 Migration Drivers",
     },
     {
       chunk_id: "raw_pricing_analysis_chunk_7",
       text: "Pricing strategy analysis reveals average contract value increased 18% YoY to $285K annually. Enterprise tier adoption grew 34%, while SMB segment showed 12% growth. Upsell rate reached 41% of existing customer base.",
       stage: 0,
       type: "raw",
+      source_type: "internal_analytics",
       source_title: "Pricing and Revenue Analysis Q3 2024",
       created_at: "2024-10-27T13:20:00Z",
+      document_id: "doc_pricing_revenue_q3_2024",
+      locator_section: "Contract Value",
     },
     {
       chunk_id: "raw_security_compliance_chunk_8",
       text: "Security audit reports 99.97% uptime and zero critical security incidents in Q3 2024. SOC 2 Type II certified, GDPR compliant, and ISO 27001 certified. Data encryption at rest and in transit using AES-256.",
       stage: 0,
       type: "raw",
+      source_type: "audit",
       source_title: "Security and Compliance Audit Q3 2024",
       created_at: "2024-10-28T09:30:00Z",
+      document_id: "doc_security_audit_q3_2024",
+      locator_page: 1,
+      locator_section: "Executive Summary",
     },
     {
       chunk_id: "raw_user_engagement_chunk_9",
       text: "User engagement metrics: Daily active users increased 42% QoQ, average session duration up 28% to 34 minutes, and feature adoption rate at 73% for newly released capabilities. Power users (20% of base) generate 68% of queries.",
       stage: 0,
       type: "raw",
+      source_type: "internal_analytics",
       source_title: "Product Analytics Dashboard Q3 2024",
       created_at: "2024-10-29T15:45:00Z",
+      document_id: "doc_product_analytics_q3_2024",
+      locator_section: "Engagement",
     },
     {
       chunk_id: "raw_market_expansion_chunk_10",
       text: "Geographic expansion analysis: North America 52% of revenue, EMEA 31%, APAC 17%. Fastest growth in APAC (+89% YoY), driven by Singapore, Japan, and Australia markets. Regulatory approval obtained in 8 new countries.",
       stage: 0,
       type: "raw",
+      source_type: "financial_statement",
       source_title: "Geographic Market Analysis 2024",
       created_at: "2024-10-30T11:00:00Z",
+      document_id: "doc_geographic_market_2024",
+      locator_page: 6,
+      locator_section: "Regional Revenue",
     },
   ];
 
@@ -234,13 +445,16 @@ function seed() {
     },
   ];
 
-  // Insert all chunks
+  // Insert all chunks as drafts; they are published once their citations exist
   const insertStmt = db.prepare(`
-    INSERT INTO content (chunk_id, text, stage, type, author, created_at, source_title, status)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO content (
+      chunk_id, text, stage, type, author, created_at, source_title, source_type, reliability,
+      document_id, locator_page, locator_section, locator_question, status
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  const allChunks = [...stage0, ...stage1, ...stage2];
+  const allChunks: Array<(typeof stage0)[number]> = [...stage0, ...stage1, ...stage2];
   allChunks.forEach((chunk) => {
     insertStmt.run(
       chunk.chunk_id,
@@ -250,7 +464,13 @@ function seed() {
       chunk.author ?? null,
       chunk.created_at ?? null,
       chunk.source_title ?? null,
-      "published"
+      chunk.source_type ?? null,
+      chunk.reliability ?? null,
+      chunk.document_id ?? null,
+      chunk.locator_page ?? null,
+      chunk.locator_section ?? null,
+      chunk.locator_question ?? null,
+      "draft"
     );
   });
 
@@ -262,27 +482,42 @@ function seed() {
   });
 
   // ===== CITATIONS =====
-  const citations = [
+  // A quote makes the citation span-level: it points at that passage of the target chunk.
+  // relationship defaults to 'cites'
+  const citations: Array<{
+    source: string;
+    target: string;
+    marker: string;
+    relationship?: string;
+    confidence?: number;
+    quote?: string;
+  }> = [
     // Stage 1 → Stage 0 (each Stage 1 insight cites one Stage 0 raw data)
     {
       source: "ins_market_trends_chunk_1",
       target: "raw_market_survey_chunk_1",
       marker: "[1]",
+      relationship: "supports",
+      quote: "78% adoption rate of AI-powered analytics tools across enterprise segments, up from 52% in Q2 2024",
     },
     {
       source: "ins_competitive_position_chunk_2",
       target: "raw_competitor_report_chunk_2",
       marker: "[1]",
+      quote: "CompanyX holds 45% market share in the AI analytics segment",
     },
     {
       source: "ins_customer_sentiment_chunk_3",
       target: "raw_customer_feedback_chunk_3",
       marker: "[1]",
+      relationship: "supports",
+      quote: "Customer satisfaction scores show 32% year-over-year improvement, with NPS increasing from 42 to 56",
     },
     {
       source: "ins_financial_performance_chunk_4",
       target: "raw_financial_data_chunk_5",
       marker: "[1]",
+      quote: "EBITDA margin improved from 18% to 22%",
     },
     {
       source: "ins_cloud_migration_chunk_5",
@@ -312,16 +547,20 @@ function seed() {
       source: "ins_strategic_analysis_chunk_1",
       target: "ins_market_trends_chunk_1",
       marker: "[1]",
+      relationship: "supports",
     },
     {
       source: "ins_strategic_analysis_chunk_1",
       target: "ins_customer_sentiment_chunk_3",
       marker: "[2]",
+      relationship: "supports",
     },
     {
       source: "ins_strategic_analysis_chunk_1",
       target: "raw_competitor_report_chunk_2",
       marker: "[3]",
+      relationship: "contradicts",
+      confidence: 0.8, // Vulnerability is inferred, not stated in the report
     },
 
     // ins_growth_opportunity_chunk_2 cites: 2 Stage 1 + 2 Stage 0
@@ -329,21 +568,26 @@ function seed() {
       source: "ins_growth_opportunity_chunk_2",
       target: "raw_industry_analysis_chunk_4",
       marker: "[1]",
+      relationship: "supports",
+      quote: "Industry forecast projects 18% CAGR for AI analytics market through 2028",
     },
     {
       source: "ins_growth_opportunity_chunk_2",
       target: "ins_financial_performance_chunk_4",
       marker: "[2]",
+      relationship: "supports",
     },
     {
       source: "ins_growth_opportunity_chunk_2",
       target: "ins_customer_sentiment_chunk_3",
       marker: "[3]",
+      confidence: 0.7, // Retention is read from satisfaction scores
     },
     {
       source: "ins_growth_opportunity_chunk_2",
       target: "ins_geographic_expansion_chunk_8",
       marker: "[4]",
+      relationship: "extends",
     },
 
     // ins_product_market_fit_chunk_3 cites: 2 Stage 1 + 2 Stage 0
@@ -361,6 +605,7 @@ function seed() {
       source: "ins_product_market_fit_chunk_3",
       target: "raw_tech_trends_chunk_6",
       marker: "[3]",
+      relationship: "extends",
     },
     {
       source: "ins_product_market_fit_chunk_3",
@@ -383,24 +628,72 @@ function seed() {
       source: "ins_competitive_moat_chunk_4",
       target: "raw_security_compliance_chunk_8",
       marker: "[3]",
+      quote: "SOC 2 Type II certified, GDPR compliant, and ISO 27001 certified",
     },
     {
       source: "ins_competitive_moat_chunk_4",
       target: "raw_competitor_report_chunk_2",
       marker: "[4]",
+      relationship: "supports",
     },
   ];
 
   const citationStmt = db.prepare(`
-    INSERT INTO citations (source_chunk_id, target_chunk_id, citation_marker, relationship_type)
-    VALUES (?, ?, ?, 'cites')
+    INSERT INTO citations (
+      source_chunk_id, target_chunk_id, citation_marker, relationship_type, confidence,
+      quote, quote_start, quote_end
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  citations.forEach(({ source, target, marker }) => {
-    citationStmt.run(source, target, marker);
+  const textById = new Map(allChunks.map((chunk) => [chunk.chunk_id, chunk.text]));
+  citations.forEach(({ source, target, marker, relationship, confidence, quote }) => {
+    const quoteStart = quote ? (textById.get(target) ?? "").indexOf(quote) : -1;
+    if (quote && quoteStart === -1) {
+      throw new Error(`Seed quote for ${source} ${marker} is not in ${target}`);
+    }
+    citationStmt.run(
+      source,
+      target,
+      marker,
+      relationship ?? "cites",
+      confidence ?? 1.0,
+      quote ?? null,
+      quote ? quoteStart : null,
+      quote ? quoteStart + quote.length : null
+    );
   });
 
   console.log(`✅ Inserted ${citations.length} citation edges`);
+
+  db.prepare("UPDATE content SET status = 'published'").run();
+
+  const termWeights = buildTermWeights(listChunkTexts());
+  replaceChunkTerms(termWeights);
+  console.log(`✅ Indexed ${termWeights.length} chunk terms for related-source suggestions`);
+
+  // ===== REPORTS =====
+  const reportId = insertReport(
+    {
+      title: "Market Opportunity Analysis Q4 2024",
+      status: "published",
+      markdown: DEMO_REPORT_DRAFT,
+      created_at: "2024-11-01T16:00:00Z",
+    },
+    parseCitationMap(DEMO_REPORT_DRAFT)
+  );
+  reviseReport(
+    reportId,
+    {
+      title: "Market Opportunity Analysis Q4 2024",
+      status: "published",
+      markdown: DEMO_REPORT,
+      created_at: "2024-11-05T09:00:00Z",
+    },
+    parseCitationMap(DEMO_REPORT)
+  );
+
+  console.log("✅ Inserted 1 demo report (2 revisions)");
   console.log("🎉 Database seeded successfully!");
 }
 
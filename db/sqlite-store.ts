@@ -0,0 +1,99 @@
+/**
+ * LineageStore backed by the better-sqlite3 database in db/index.ts.
+ *
+ * Input data sources: SQLite database at data/trace-demo.db via db/index.ts helpers
+ * Output destinations: getLineageStore() when LINEAGE_STORE is "sqlite" (the default)
+ * Dependencies: ./index (queries), ./types, ./store (LineageStore), lib/similarity.ts (term weights)
+ * Key exports: SqliteLineageStore
+ * Side effects: Database reads, and chunk and citation inserts through the write methods; supersession
+ *   also moves the chunk_terms similarity entry to the replacement
+ */
+
+import {
+  addCitation,
+  getChunk,
+  getChunks,
+  getDependents,
+  getDirectCitations,
+  getFullLineage,
+  getFullLineages,
+  getNextVersionId,
+  getTermStats,
+  insertChunksWithCitations,
+  insertChunkTerms,
+  listChunkIds,
+  supersedeChunk,
+  transaction,
+} from "./index";
+import type { LineageStore } from "./store";
+import type {
+  Chunk,
+  Citation,
+  DependentRow,
+  LineageRow,
+  NewChunk,
+  NewCitation,
+  Traversal,
+} from "./types";
+import { buildTermWeights } from "../lib/similarity";
+
+export class SqliteLineageStore implements LineageStore {
+  async getChunk(chunkId: string): Promise<Chunk | null> {
+    return getChunk(chunkId);
+  }
+
+  async getChunks(chunkIds: string[]): Promise<Chunk[]> {
+    return getChunks(chunkIds);
+  }
+
+  async listChunkIds(type?: "raw" | "insight"): Promise<string[]> {
+    return listChunkIds(type);
+  }
+
+  async getDirectCitations(chunkId: string): Promise<Citation[]> {
+    return getDirectCitations(chunkId);
+  }
+
+  async getFullLineage(chunkId: string, maxDepth: number): Promise<Traversal<LineageRow>> {
+    return getFullLineage(chunkId, maxDepth);
+  }
+
+  async getFullLineages(
+    chunkIds: string[],
+    maxDepth: number
+  ): Promise<Record<string, Traversal<LineageRow>>> {
+    return getFullLineages(chunkIds, maxDepth);
+  }
+
+  async getDependents(chunkId: string, maxDepth: number): Promise<Traversal<DependentRow>> {
+    return getDependents(chunkId, maxDepth);
+  }
+
+  async insertChunksWithCitations(chunks: NewChunk[], citations: NewCitation[]): Promise<void> {
+    insertChunksWithCitations(chunks, citations);
+  }
+
+  async addCitation(citation: NewCitation): Promise<void> {
+    addCitation(citation);
+  }
+
+  async getNextVersionId(chunkId: string): Promise<string> {
+    return getNextVersionId(chunkId);
+  }
+
+  async supersedeChunk(
+    chunkId: string,
+    replacement: NewChunk,
+    citations: NewCitation[],
+    reason?: string
+  ): Promise<void> {
+    // supersedeChunk drops the original from the similarity index; the replacement joins it
+    // in the same transaction
+    transaction(() => {
+      supersedeChunk(chunkId, replacement, citations, reason);
+      insertChunkTerms(
+        buildTermWeights([{ chunk_id: replacement.chunk_id, text: replacement.text }], getTermStats)
+      );
+    });
+  }
+}
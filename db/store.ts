@@ -0,0 +1,97 @@
+/**
+ * Storage abstraction for citation lineage: the LineageStore interface and the configured backend.
+ *
+ * Input data sources: LINEAGE_STORE environment variable ("sqlite", the default, or "memory")
+ * Output destinations: Lineage, ingest, supersede, claims and lint actions and the CLI, for every chunk and
+ *   citation read and for supersession
+ * Dependencies: ./types (row and input types), ./sqlite-store, ./memory-store
+ * Key exports: LineageStore, LineageStoreBackend, LINEAGE_STORE_BACKENDS, getLineageStore, setLineageStore
+ * Side effects: Creates the configured store on first use (the SQLite store opens data/trace-demo.db lazily)
+ */
+
+import { MemoryLineageStore } from "./memory-store";
+import { SqliteLineageStore } from "./sqlite-store";
+import type {
+  Chunk,
+  Citation,
+  DependentRow,
+  LineageRow,
+  NewChunk,
+  NewCitation,
+  Traversal,
+} from "./types";
+
+/**
+ * Chunk and citation storage behind the lineage actions. Every method is async so a
+ * networked backend such as PostgreSQL (whose recursive CTEs match the SQLite ones)
+ * can implement it as-is and be added to LINEAGE_STORE_BACKENDS.
+ */
+export interface LineageStore {
+  // Chunk with its superseded_by and joined document, or null when unknown
+  getChunk(chunkId: string): Promise<Chunk | null>;
+  // Known chunks among chunkIds, in the order given, without a round trip per id
+  getChunks(chunkIds: string[]): Promise<Chunk[]>;
+  // Every chunk_id, optionally of one type, sorted
+  listChunkIds(type?: "raw" | "insight"): Promise<string[]>;
+  // Outgoing citation edges of one chunk
+  getDirectCitations(chunkId: string): Promise<Citation[]>;
+  // Citations reachable downward from chunkId within maxDepth hops, one row per path,
+  // plus every chunk those rows reach
+  getFullLineage(chunkId: string, maxDepth: number): Promise<Traversal<LineageRow>>;
+  // getFullLineage of every chunk in chunkIds, keyed by chunk_id, without a query per chunk
+  getFullLineages(
+    chunkIds: string[],
+    maxDepth: number
+  ): Promise<Record<string, Traversal<LineageRow>>>;
+  // Chunks citing chunkId directly or transitively within maxDepth hops, one row per path,
+  // plus those chunks
+  getDependents(chunkId: string, maxDepth: number): Promise<Traversal<DependentRow>>;
+  // Atomic insert of published chunks and their edges; throws on a taken id or unknown target
+  insertChunksWithCitations(chunks: NewChunk[], citations: NewCitation[]): Promise<void>;
+  // Add an edge to a draft; throws ImmutableChunkError for published chunks
+  addCitation(citation: NewCitation): Promise<void>;
+  // First free "<base>_vN" id for the next version of chunkId
+  getNextVersionId(chunkId: string): Promise<string>;
+  // Atomically insert the replacement with its citations and mark chunkId superseded by it;
+  // throws when chunkId is unknown or already superseded
+  supersedeChunk(
+    chunkId: string,
+    replacement: NewChunk,
+    citations: NewCitation[],
+    reason?: string
+  ): Promise<void>;
+}
+
+// Reports, full-text search and the similarity index stay in SQLite whichever backend holds
+// chunks, so "memory" (an empty store per process) suits tests and throwaway demos
+export const LINEAGE_STORE_BACKENDS = {
+  sqlite: () => new SqliteLineageStore(),
+  memory: () => new MemoryLineageStore(),
+} satisfies Record<string, () => LineageStore>;
+
+export type LineageStoreBackend = keyof typeof LINEAGE_STORE_BACKENDS;
+
+let store: LineageStore | null = null;
+
+/**
+ * The store selected by LINEAGE_STORE, created once per process
+ */
+export function getLineageStore(): LineageStore {
+  if (!store) {
+    const backend = process.env.LINEAGE_STORE || "sqlite";
+    if (!(backend in LINEAGE_STORE_BACKENDS)) {
+      throw new Error(
+        `Unknown LINEAGE_STORE "${backend}"; expected one of ${Object.keys(LINEAGE_STORE_BACKENDS).join(", ")}`
+      );
+    }
+    store = LINEAGE_STORE_BACKENDS[backend as LineageStoreBackend]();
+  }
+  return store;
+}
+
+/**
+ * Replace the process-wide store, e.g. with a pre-populated MemoryLineageStore in tests
+ */
+export function setLineageStore(next: LineageStore): void {
+  store = next;
+}
@@ -0,0 +1,122 @@
+/**
+ * Chunk, citation and traversal types shared by every LineageStore backend.
+ *
+ * Input data sources: None (types and one error class only)
+ * Output destinations: db/index.ts (SQLite queries), db/store.ts and its backends, actions that read lineage
+ * Dependencies: None, so a backend can use these without loading a database driver
+ * Key exports: Chunk, SourceDocument, Citation, LineageRow, DependentRow, Traversal, NewChunk, NewCitation,
+ *   ImmutableChunkError
+ * Side effects: None
+ */
+
+export interface Chunk {
+  chunk_id: string;
+  text: string;
+  stage: number;
+  type: "raw" | "insight";
+  author?: string;
+  created_at?: string;
+  source_title?: string;
+  status?: string;
+  source_type?: string | null;
+  reliability?: number | null;
+  document_id?: string | null;
+  locator_page?: number | null;
+  locator_section?: string | null;
+  locator_question?: string | null;
+  superseded_by?: string | null;
+  document?: SourceDocument | null;
+}
+
+export interface SourceDocument {
+  document_id: string;
+  title: string;
+  publisher?: string | null;
+  url?: string | null;
+  published_at?: string | null;
+  file_hash?: string | null;
+  document_type?: string | null;
+}
+
+export interface Citation {
+  source_chunk_id: string;
+  target_chunk_id: string;
+  citation_marker?: string;
+  relationship_type: string;
+  confidence: number;
+  quote?: string | null;
+  quote_start?: number | null;
+  quote_end?: number | null;
+}
+
+export interface LineageRow {
+  target_chunk_id: string;
+  depth: number;
+  parent_id: string;
+  citation_marker?: string;
+  confidence: number; // Of the edge parent_id -> target_chunk_id
+  relationship_type: string;
+  quote: string | null;
+  quote_start: number | null;
+  quote_end: number | null;
+}
+
+export interface DependentRow {
+  source_chunk_id: string; // Chunk that cites
+  depth: number;
+  cited_chunk_id: string; // Chunk it cites, one hop closer to the queried source
+  citation_marker?: string;
+  confidence: number;
+  relationship_type: string;
+  quote: string | null; // Passage of cited_chunk_id
+  quote_start: number | null;
+  quote_end: number | null;
+}
+
+export interface Traversal<Row> {
+  rows: Row[];
+  chunks: Chunk[]; // Every chunk a row reaches, loaded by the traversal query itself
+  cycles: string[][]; // Closed citation loops, e.g. [a, b, a]
+  truncated: boolean; // Some path continues beyond maxDepth
+}
+
+export interface NewChunk {
+  chunk_id: string;
+  text: string;
+  stage: number;
+  type: "raw" | "insight";
+  author?: string;
+  created_at?: string;
+  source_title?: string;
+  source_type?: string;
+  reliability?: number;
+  document_id?: string;
+  locator_page?: number;
+  locator_section?: string;
+  locator_question?: string;
+}
+
+export interface NewCitation {
+  source_chunk_id: string;
+  target_chunk_id: string;
+  citation_marker: string;
+  confidence?: number; // Defaults to 1.0
+  relationship_type?: string; // 'cites', 'supports', 'contradicts', 'extends' or 'quotes' (default 'cites')
+  quote?: string; // Supporting passage of the target chunk
+  quote_start?: number;
+  quote_end?: number;
+}
+
+/**
+ * Raised when a write touches the text, stage or citations of a published chunk
+ */
+export class ImmutableChunkError extends Error {
+  constructor(
+    public readonly chunkId: string,
+    public readonly operation: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "ImmutableChunkError";
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Shared plumbing for the versioned REST route handlers: query parsing and JSON error bodies
+ *
+ * Input data sources: Request query strings and errors thrown by route handlers
+ * Output destinations: JSON responses of app/api/v1 route handlers
+ * Dependencies: next/server (NextResponse), lib/types.ts (ApiErrorBody, ApiErrorCode)
+ * Key exports: DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, CHUNK_STATUSES, ApiError, chunkNotFound, apiResponse, integerParam, enumParam, dateParam, stringParam
+ * Side effects: Logs unexpected errors to the server console
+ */
+
+import { NextResponse } from "next/server";
+import type { ApiErrorBody, ApiErrorCode } from "./types";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+export const CHUNK_STATUSES = ["draft", "published", "superseded"] as const;
+
+/**
+ * Thrown by route handlers for any failure the caller should see as a 4xx
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function chunkNotFound(chunkId: string): ApiError {
+  return new ApiError(404, "not_found", `No chunk with id "${chunkId}"`);
+}
+
+/**
+ * Run a handler and wrap its result as a 200 JSON body; ApiErrors keep their status and
+ * anything else becomes a 500, both as an ApiErrorBody
+ */
+export async function apiResponse<T>(handler: () => T | Promise<T>): Promise<NextResponse> {
+  try {
+    return NextResponse.json(await handler());
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorResponse(error.status, error.code, error.message);
+    }
+    console.error("API request failed:", error);
+    return errorResponse(500, "internal_error", "Unexpected server error");
+  }
+}
+
+/**
+ * Integer query parameter within [min, max]; fallback when absent
+ */
+export function integerParam(
+  params: URLSearchParams,
+  name: string,
+  range: { min: number; max: number; fallback: number }
+): number;
+export function integerParam(
+  params: URLSearchParams,
+  name: string,
+  range: { min: number; max: number }
+): number | undefined;
+export function integerParam(
+  params: URLSearchParams,
+  name: string,
+  { min, max, fallback }: { min: number; max: number; fallback?: number }
+): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new ApiError(
+      400,
+      "invalid_parameter",
+      `${name} must be an integer from ${min} to ${max}, got "${raw}"`
+    );
+  }
+  return value;
+}
+
+/**
+ * Query parameter restricted to `values`; fallback when absent
+ */
+export function enumParam<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  values: readonly T[],
+  fallback?: T
+): T | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+  if (!(values as readonly string[]).includes(raw)) {
+    throw new ApiError(
+      400,
+      "invalid_parameter",
+      `${name} must be one of ${values.join(", ")}, got "${raw}"`
+    );
+  }
+  return raw as T;
+}
+
+/**
+ * YYYY-MM-DD query parameter
+ */
+export function dateParam(params: URLSearchParams, name: string): string | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(raw) || Number.isNaN(Date.parse(raw))) {
+    throw new ApiError(400, "invalid_parameter", `${name} must be a YYYY-MM-DD date, got "${raw}"`);
+  }
+  return raw;
+}
+
+/**
+ * Free-text query parameter, trimmed; undefined when absent or blank
+ */
+export function stringParam(params: URLSearchParams, name: string): string | undefined {
+  return params.get(name)?.trim() || undefined;
+}
+
+function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string
+): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ error: { status, code, message } }, { status });
+}
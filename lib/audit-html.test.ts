@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { renderAuditHtml } from "./audit-html";
+import { lineageGraph, testChunk } from "./test-fixtures";
+
+function render(url: string) {
+  const source = testChunk("raw_survey", {
+    stage: 0,
+    type: "raw",
+    document_id: "doc_survey",
+    document: { document_id: "doc_survey", title: "Market Survey Q3 2024", url },
+  });
+  return renderAuditHtml({
+    report: { title: "Growth Review", markdown: "Adoption hit 78%[1]." },
+    citations: [{ marker: "[1]", chunk_id: "raw_survey", lineage: lineageGraph([source]) }],
+    generated_at: "2024-11-02T10:00:00Z",
+  });
+}
+
+describe("renderAuditHtml", () => {
+  it("links a source document's http(s) URL", async () => {
+    expect(await render("https://example.com/survey.pdf")).toContain(
+      '<a href="https://example.com/survey.pdf">https://example.com/survey.pdf</a>'
+    );
+  });
+
+  it("shows any other URL as text instead of a link", async () => {
+    const html = await render("javascript:alert(1)");
+
+    expect(html).toContain("javascript:alert(1)");
+    expect(html).not.toContain('href="javascript:');
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Builds a self-contained HTML audit file: the rendered report plus a lineage appendix
+ *
+ * Input data sources: Report markdown, the lineage graph of every chunk it cites
+ * Output destinations: Offline HTML file downloaded from the report page
+ * Dependencies: unified, remark-parse, remark-gfm, remark-rehype, rehype-stringify,
+ *   lib/lineage-graph.ts (buildLineageTree, compareCitationMarkers), lib/markdown-utils.ts (CITATION_MARKER_PATTERN),
+ *   lib/source-reference.ts, lib/quotes.ts
+ * Key exports: renderAuditHtml, AuditHtmlInput
+ * Side effects: None
+ */
+
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeStringify from "rehype-stringify";
+import type { ElementContent, Root, RootContent } from "hast";
+import { buildLineageTree, compareCitationMarkers } from "./lineage-graph";
+import { CITATION_MARKER_PATTERN } from "./markdown-utils";
+import { checkQuote } from "./quotes";
+import { formatSourceReference } from "./source-reference";
+import type { Chunk, CitationQuote, LineageGraph, LineageNode } from "./types";
+
+export interface AuditHtmlInput {
+  report: { title: string; author?: string; created_at?: string; markdown: string };
+  citations: { marker: string; chunk_id: string; lineage: LineageGraph | null }[];
+  generated_at: string;
+}
+
+const STYLES = `
+  body { font-family: Georgia, "Times New Roman", serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+  h1, h2, h3, h4 { font-family: system-ui, sans-serif; line-height: 1.3; }
+  .meta, .chunk-meta { color: #6b7280; font-size: 0.85rem; }
+  a.citation { color: #2563eb; font-weight: 600; text-decoration: none; }
+  a.backlink { font-size: 0.85rem; text-decoration: none; }
+  .appendix { border-top: 2px solid #e5e7eb; margin-top: 3rem; }
+  .citation-entry { margin: 1.5rem 0; }
+  .chunk { border: 1px solid #e5e7eb; border-radius: 6px; padding: 0.75rem 1rem; margin: 0.5rem 0; }
+  .chunk.raw { background: #f9fafb; }
+  .chunk.superseded { border-color: #f59e0b; }
+  .chunk-id { font-family: ui-monospace, monospace; font-size: 0.8rem; font-weight: 600; }
+  .chunk-text { margin: 0.4rem 0; }
+  .warning { color: #b45309; font-size: 0.85rem; }
+  .error { color: #b91c1c; font-size: 0.85rem; }
+  ul.lineage { list-style: none; padding-left: 1.5rem; border-left: 2px solid #e5e7eb; margin: 0; }
+  .repeat { font-size: 0.85rem; color: #6b7280; font-style: italic; }
+  mark.quote { background: #fef08a; }
+  .relationship { font-family: system-ui, sans-serif; font-size: 0.75rem; font-weight: 600; padding: 0 0.3rem; border-radius: 3px; background: #f3f4f6; }
+  .relationship.supports { background: #dcfce7; color: #166534; }
+  .relationship.contradicts { background: #fee2e2; color: #991b1b; }
+  .relationship.extends { background: #f3e8ff; color: #6b21a8; }
+  .relationship.quotes { background: #e0f2fe; color: #075985; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    a { color: inherit; }
+    .appendix { break-before: page; }
+    .chunk, .repeat { break-inside: avoid; }
+  }
+`;
+
+/**
+ * Render the report body with each marker linked to its appendix entry, followed by
+ * an appendix listing every marker's full lineage down to raw sources
+ */
+export async function renderAuditHtml({
+  report,
+  citations,
+  generated_at,
+}: AuditHtmlInput): Promise<string> {
+  const processor = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkRehype)
+    .use(rehypeStringify);
+
+  // Same body InsightReport renders: everything above the References section
+  const body = report.markdown.split(/##\s+References/)[0];
+  const tree = await processor.run(processor.parse(body));
+  linkMarkers(tree, new Set(citations.map((citation) => citation.marker)));
+  const bodyHtml = processor.stringify(tree);
+
+  const rendered = new Set<string>();
+  const appendix = [...citations]
+    .sort((a, b) => compareCitationMarkers(a.marker, b.marker))
+    .map((citation) => renderCitationEntry(citation, rendered))
+    .join("\n");
+
+  const meta = [
+    report.author && `Author: ${escapeHtml(report.author)}`,
+    report.created_at && `Date: ${formatDate(report.created_at)}`,
+    `Exported: ${formatDate(generated_at)}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)} (audit export)</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<p class="meta">${meta}</p>
+<article class="report">
+${bodyHtml}
+</article>
+<section class="appendix">
+<h2>Appendix: Citation Lineage</h2>
+<p class="meta">Every citation marker with its full lineage down to raw sources.</p>
+${appendix}
+</section>
+</body>
+</html>
+`;
+}
+
+/**
+ * Replace "[n]" (or "[n:relationship]") in text nodes with anchors to #cite-n; the first occurrence gets id ref-n
+ */
+function linkMarkers(tree: Root, markers: Set<string>): void {
+  const seen = new Map<string, number>();
+
+  const visit = (children: (RootContent | ElementContent)[]): void => {
+    for (let index = 0; index < children.length; index++) {
+      const node = children[index];
+      if (node.type === "element") {
+        if (node.tagName !== "a" && node.tagName !== "code") visit(node.children);
+        continue;
+      }
+      if (node.type !== "text") continue;
+
+      const parts: ElementContent[] = [];
+      let lastIndex = 0;
+      for (const match of node.value.matchAll(CITATION_MARKER_PATTERN)) {
+        const marker = `[${match[1]}]`;
+        if (!markers.has(marker)) continue;
+
+        const start = match.index ?? 0;
+        if (start > lastIndex) {
+          parts.push({ type: "text", value: node.value.slice(lastIndex, start) });
+        }
+        const count = (seen.get(marker) ?? 0) + 1;
+        seen.set(marker, count);
+        parts.push({
+          type: "element",
+          tagName: "a",
+          properties: {
+            href: `#cite-${match[1]}`,
+            id: count === 1 ? `ref-${match[1]}` : `ref-${match[1]}-${count}`,
+            className: ["citation"],
+          },
+          children: [{ type: "text", value: match[0] }],
+        });
+        lastIndex = start + match[0].length;
+      }
+      if (parts.length === 0) continue;
+
+      if (lastIndex < node.value.length) {
+        parts.push({ type: "text", value: node.value.slice(lastIndex) });
+      }
+      children.splice(index, 1, ...parts);
+      index += parts.length - 1;
+    }
+  };
+
+  visit(tree.children);
+}
+
+function renderCitationEntry(
+  citation: AuditHtmlInput["citations"][number],
+  rendered: Set<string>
+): string {
+  const number = citation.marker.replace(/\D/g, "");
+  const heading = `<h3>${escapeHtml(citation.marker)} <span class="chunk-id">${escapeHtml(
+    citation.chunk_id
+  )}</span> <a class="backlink" href="#ref-${number}" title="Back to the report">↩</a></h3>`;
+
+  const root = citation.lineage?.nodes.find(
+    (node) => node.chunk_id === citation.chunk_id
+  );
+  if (!citation.lineage || !root) {
+    return `<section class="citation-entry" id="cite-${number}">
+${heading}
+<p class="error">Chunk ${escapeHtml(citation.chunk_id)} was not found.</p>
+</section>`;
+  }
+
+  const { cycles, truncated, max_depth } = citation.lineage;
+  const notes = [
+    ...cycles.map(
+      (cycle) =>
+        `<p class="error">Integrity error: citation cycle ${escapeHtml(cycle.join(" → "))}</p>`
+    ),
+    ...(truncated
+      ? [`<p class="warning">Lineage continues beyond ${max_depth} levels.</p>`]
+      : []),
+  ];
+
+  return [
+    `<section class="citation-entry" id="cite-${number}">`,
+    heading,
+    ...notes,
+    renderChunk(root.chunk, rendered),
+    renderTree(buildLineageTree(citation.lineage), rendered),
+    "</section>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function renderTree(nodes: LineageNode[], rendered: Set<string>): string {
+  if (nodes.length === 0) return "";
+
+  const items = nodes.map((node) => {
+    const children = node.is_repeat ? "" : renderTree(node.children, rendered);
+    return `<li>${renderChunk(node.chunk, rendered, node)}${children}</li>`;
+  });
+  return `<ul class="lineage">\n${items.join("\n")}\n</ul>`;
+}
+
+/**
+ * Full chunk card on first appearance in the appendix, a link back to it afterwards
+ * `via` is the citation that leads to the chunk: its marker, relationship and quoted span
+ */
+function renderChunk(
+  chunk: Chunk,
+  rendered: Set<string>,
+  via?: Pick<LineageNode, "citation_marker" | "relationship_type" | "quote">
+): string {
+  const anchor = `chunk-${chunk.chunk_id}`;
+  const marker = via?.citation_marker;
+  const quote = via?.quote;
+  const relationship =
+    via?.relationship_type && via.relationship_type !== "cites"
+      ? ` <span class="relationship ${via.relationship_type}">${via.relationship_type}</span>`
+      : "";
+  const label = `${marker ? `${escapeHtml(marker)} ` : ""}<span class="chunk-id">${escapeHtml(
+    chunk.chunk_id
+  )}</span>${relationship}`;
+
+  if (rendered.has(chunk.chunk_id)) {
+    const quoted = quote ? `, quoting “${escapeHtml(quote.text)}”` : "";
+    return `<p class="repeat">${label}: <a href="#${anchor}">also cited above</a>${quoted}</p>`;
+  }
+  rendered.add(chunk.chunk_id);
+
+  const kind =
+    chunk.type === "raw" ? "Raw source" : `Insight · stage ${chunk.stage}`;
+  const sourceReference = formatSourceReference(chunk);
+  const sourceUrl = chunk.document?.url;
+  const meta = [
+    kind,
+    sourceReference &&
+      `Source: ${escapeHtml(sourceReference)}${
+        !sourceUrl
+          ? ""
+          : isWebUrl(sourceUrl)
+            ? ` <a href="${escapeHtml(sourceUrl)}">${escapeHtml(sourceUrl)}</a>`
+            : ` ${escapeHtml(sourceUrl)}`
+      }`,
+    chunk.document?.file_hash && `File hash: <code>${escapeHtml(chunk.document.file_hash)}</code>`,
+    chunk.author && `Author: ${escapeHtml(chunk.author)}`,
+    chunk.created_at && `Date: ${formatDate(chunk.created_at)}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return `<div class="chunk ${chunk.type}${chunk.superseded_by ? " superseded" : ""}" id="${anchor}">
+<div>${label}</div>
+<p class="chunk-text">${renderQuotedText(chunk.text, quote)}</p>
+<p class="chunk-meta">${meta}</p>${
+    quote && checkQuote(chunk.text, quote).status === "missing"
+      ? `\n<p class="error">Quoted passage “${escapeHtml(quote.text)}” is not in this chunk.</p>`
+      : ""
+  }${
+    chunk.superseded_by
+      ? `\n<p class="warning">Superseded by ${escapeHtml(chunk.superseded_by)}</p>`
+      : ""
+  }
+</div>`;
+}
+
+function renderQuotedText(text: string, quote?: CitationQuote): string {
+  const check = quote ? checkQuote(text, quote) : null;
+  if (check?.start === undefined || check.end === undefined) {
+    return escapeHtml(text);
+  }
+  return `${escapeHtml(text.slice(0, check.start))}<mark class="quote">${escapeHtml(
+    text.slice(check.start, check.end)
+  )}</mark>${escapeHtml(text.slice(check.end))}`;
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? escapeHtml(value)
+    : date.toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        timeZone: "UTC",
+      });
+}
+
+// Only http(s) URLs become links; javascript:, data: and the like are shown as text
+function isWebUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
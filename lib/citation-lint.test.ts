@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { lintChunkText, lintCitationQuotes, lintReportMarkdown } from "./citation-lint";
+import type { Chunk } from "./types";
+
+const CHUNKS: Record<string, Pick<Chunk, "superseded_by" | "text">> = {
+  raw_survey: { text: "Adoption reached 78% in Q3 2024.", superseded_by: null },
+  raw_old: { text: "Adoption reached 77%.", superseded_by: "raw_old_v2" },
+};
+
+function lint(markdown: string) {
+  return lintReportMarkdown(markdown, (chunkId) => CHUNKS[chunkId] ?? null).map(
+    ({ rule, severity, line, column }) => ({ rule, severity, line, column })
+  );
+}
+
+describe("lintReportMarkdown", () => {
+  it("passes a report whose markers and references line up", () => {
+    expect(lint("Adoption hit 78%[1].\n\n## References\n\n[1] raw_survey \"reached 78%\"\n")).toEqual([]);
+  });
+
+  it("reports undefined markers and unused references with line and column", () => {
+    const markdown = "First[1].\nSecond[2].\n\n## References\n\n[1] raw_survey\n[3] raw_survey\n";
+
+    expect(lint(markdown)).toEqual([
+      { rule: "undefined-marker", severity: "error", line: 2, column: 7 },
+      { rule: "unused-reference", severity: "warning", line: 7, column: 1 },
+    ]);
+  });
+
+  it("flags a marker defined twice at the repeated entry", () => {
+    const markdown = "Text[1].\n\n## References\n\n[1] raw_survey\n[1] raw_old\n";
+    const issues = lint(markdown);
+
+    expect(issues).toContainEqual({ rule: "duplicate-reference", severity: "error", line: 6, column: 1 });
+  });
+
+  it("flags missing and superseded chunks", () => {
+    const markdown = "A[1] B[2].\n\n## References\n\n[1] raw_gone\n[2] raw_old\n";
+
+    expect(lint(markdown).map((issue) => [issue.rule, issue.severity])).toEqual([
+      ["missing-chunk", "error"],
+      ["superseded-chunk", "warning"],
+    ]);
+  });
+
+  it("flags quotes that are not in the cited chunk", () => {
+    const markdown = "A[1].\n\n## References\n\n[1] raw_survey \"reached 80%\"\n";
+
+    expect(lint(markdown).map((issue) => issue.rule)).toEqual(["missing-quote"]);
+  });
+
+  it("flags unknown relationship suffixes but accepts known ones", () => {
+    const markdown = "A[1:refutes] B[1:contradicts].\n\n## References\n\n[1] raw_survey\n";
+
+    expect(lint(markdown)).toEqual([{ rule: "unknown-relationship", severity: "error", line: 1, column: 2 }]);
+  });
+
+  it("treats every marker as undefined when there is no References section", () => {
+    expect(lint("A[1] B[1].").map((issue) => issue.column)).toEqual([2, 7]);
+  });
+
+  it("returns nothing for an empty report", () => {
+    expect(lint("")).toEqual([]);
+  });
+});
+
+describe("lintChunkText", () => {
+  it("flags each marker occurrence without a citations row", () => {
+    const issues = lintChunkText("ins_a", "Up 24%[1], churn 5%[2], again[2].", ["[1]"]);
+
+    expect(issues.map(({ rule, column, chunk_id }) => [rule, column, chunk_id])).toEqual([
+      ["uncited-marker", 20, "ins_a"],
+      ["uncited-marker", 30, "ins_a"],
+    ]);
+  });
+
+  it("checks relationship suffixes of cited markers too", () => {
+    const issues = lintChunkText("ins_a", "Up 24%[1:bogus].", ["[1]"]);
+
+    expect(issues.map((issue) => issue.rule)).toEqual(["unknown-relationship"]);
+  });
+});
+
+describe("lintCitationQuotes", () => {
+  const targetText = "Adoption reached 78% in Q3 2024.";
+
+  it("accepts quotes at their recorded offsets", () => {
+    const issues = lintCitationQuotes("ins_a", "Hit 78%[1].", [
+      { citation_marker: "[1]", target_chunk_id: "raw_survey", target_text: targetText, quote: { text: "78%", start: 17, end: 20 } },
+    ]);
+
+    expect(issues).toEqual([]);
+  });
+
+  it("warns about moved quotes and errors on missing ones, at the citing marker", () => {
+    const issues = lintCitationQuotes("ins_a", "Hit 78%[1], in Q3[2].", [
+      { citation_marker: "[1]", target_chunk_id: "raw_survey", target_text: targetText, quote: { text: "78%", start: 0, end: 3 } },
+      { citation_marker: "[2]", target_chunk_id: "raw_survey", target_text: targetText, quote: { text: "Q4", start: 24, end: 26 } },
+    ]);
+
+    expect(issues.map(({ rule, severity, column }) => [rule, severity, column])).toEqual([
+      ["moved-quote", "warning", 8],
+      ["missing-quote", "error", 18],
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Lint rules for citation markers in report markdown and insight chunk text
+ *
+ * Input data sources: Report markdown, chunk text, chunk/citation lookups supplied by the caller
+ * Output destinations: Citation lint panel and the lint-citations CLI
+ * Dependencies: lib/types.ts (LintIssue, Chunk, CitationQuote), lib/quotes.ts (checkQuote),
+ *   lib/markdown-utils.ts (parseCitationMarkers), lib/relationships.ts (isRelationshipType)
+ * Key exports: lintReportMarkdown, lintChunkText, lintCitationQuotes
+ * Side effects: None
+ */
+
+import { parseCitationMarkers } from "./markdown-utils";
+import { checkQuote } from "./quotes";
+import { isRelationshipType, RELATIONSHIP_TYPES } from "./relationships";
+import type { Chunk, CitationQuote, LintIssue } from "./types";
+
+// Same entry shape parseCitationMap accepts: [1] chunk_id (optional "quote", optional description)
+const REFERENCE_PATTERN = /\[(\d+)\]\s+([a-zA-Z0-9_]+)(?:\s+"([^"\n]+)")?/g;
+
+/**
+ * Check a report's markers against its References section and the chunks they point to
+ * resolveChunk returns null for chunk_ids that do not exist
+ */
+export function lintReportMarkdown(
+  markdown: string,
+  resolveChunk: (chunkId: string) => Pick<Chunk, "superseded_by" | "text"> | null
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const headerMatch = markdown.match(/##\s+References/);
+  const bodyEnd = headerMatch?.index ?? markdown.length;
+  const sectionStart = headerMatch ? bodyEnd + headerMatch[0].length : -1;
+
+  // References run from the header to the next "##" heading (as in parseCitationMap)
+  const references = new Map<string, string>();
+  if (headerMatch) {
+    const nextHeading = markdown.indexOf("##", sectionStart);
+    const section = markdown.slice(
+      sectionStart,
+      nextHeading === -1 ? markdown.length : nextHeading
+    );
+
+    for (const match of section.matchAll(REFERENCE_PATTERN)) {
+      const marker = `[${match[1]}]`;
+      const chunkId = match[2];
+      const quote = match[3];
+      const at = positionAt(markdown, sectionStart + (match.index ?? 0));
+
+      if (references.has(marker)) {
+        issues.push({
+          rule: "duplicate-reference",
+          severity: "error",
+          message: `${marker} is defined more than once; this entry (${chunkId}) replaces ${references.get(marker)}`,
+          ...at,
+        });
+      }
+      references.set(marker, chunkId);
+
+      const chunk = resolveChunk(chunkId);
+      if (!chunk) {
+        issues.push({
+          rule: "missing-chunk",
+          severity: "error",
+          message: `${marker} references unknown chunk ${chunkId}`,
+          ...at,
+        });
+      } else if (chunk.superseded_by) {
+        issues.push({
+          rule: "superseded-chunk",
+          severity: "warning",
+          message: `${marker} references ${chunkId}, which was superseded by ${chunk.superseded_by}`,
+          ...at,
+        });
+      }
+      if (
+        chunk &&
+        quote !== undefined &&
+        checkQuote(chunk.text, { text: quote, start: null, end: null }).status === "missing"
+      ) {
+        issues.push({
+          rule: "missing-quote",
+          severity: "error",
+          message: `${marker} quotes "${quote}", which is not in ${chunkId}`,
+          ...at,
+        });
+      }
+    }
+  }
+
+  const used = new Set<string>();
+  for (const occurrence of parseCitationMarkers(markdown.slice(0, bodyEnd))) {
+    const { marker, index } = occurrence;
+    used.add(marker);
+    if (!references.has(marker)) {
+      issues.push({
+        rule: "undefined-marker",
+        severity: "error",
+        message: `${marker} has no entry in the References section`,
+        ...positionAt(markdown, index),
+      });
+    }
+    const relationshipIssue = checkRelationship(occurrence);
+    if (relationshipIssue) {
+      issues.push({ ...relationshipIssue, ...positionAt(markdown, index) });
+    }
+  }
+
+  for (const [marker, chunkId] of references) {
+    if (used.has(marker)) continue;
+    issues.push({
+      rule: "unused-reference",
+      severity: "warning",
+      message: `${marker} (${chunkId}) is never cited in the report body`,
+      ...positionAt(markdown, markdown.indexOf(marker, sectionStart)),
+    });
+  }
+
+  return sortIssues(issues);
+}
+
+/**
+ * Flag markers in a chunk's text that have no citations row behind them
+ * citedMarkers are the citation_marker values stored for the chunk
+ */
+export function lintChunkText(
+  chunkId: string,
+  text: string,
+  citedMarkers: string[]
+): LintIssue[] {
+  const cited = new Set(citedMarkers);
+  const issues: LintIssue[] = [];
+
+  for (const occurrence of parseCitationMarkers(text)) {
+    const relationshipIssue = checkRelationship(occurrence);
+    if (relationshipIssue) {
+      issues.push({
+        ...relationshipIssue,
+        ...positionAt(text, occurrence.index),
+        chunk_id: chunkId,
+      });
+    }
+    if (cited.has(occurrence.marker)) continue;
+    issues.push({
+      rule: "uncited-marker",
+      severity: "error",
+      message: `${occurrence.marker} in ${chunkId} has no matching citations row`,
+      ...positionAt(text, occurrence.index),
+      chunk_id: chunkId,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Check the quoted passages of a chunk's span-level citations against the cited chunks' text
+ * Issues point at the marker in the citing chunk's text
+ */
+export function lintCitationQuotes(
+  chunkId: string,
+  text: string,
+  quotes: {
+    citation_marker?: string;
+    target_chunk_id: string;
+    target_text: string;
+    quote: CitationQuote;
+  }[]
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const { citation_marker, target_chunk_id, target_text, quote } of quotes) {
+    const check = checkQuote(target_text, quote);
+    if (check.status === "exact") continue;
+
+    const offset =
+      parseCitationMarkers(text).find(({ marker }) => marker === citation_marker)
+        ?.index ?? 0;
+    const label = citation_marker ?? `Citation of ${target_chunk_id}`;
+    issues.push(
+      check.status === "missing"
+        ? {
+            rule: "missing-quote",
+            severity: "error",
+            message: `${label} in ${chunkId} quotes "${quote.text}", which is not in ${target_chunk_id}`,
+            ...positionAt(text, offset),
+            chunk_id: chunkId,
+          }
+        : {
+            rule: "moved-quote",
+            severity: "warning",
+            message: `${label} in ${chunkId} records offsets ${quote.start}-${quote.end}, but the quote is at ${check.start}-${check.end} in ${target_chunk_id}`,
+            ...positionAt(text, offset),
+            chunk_id: chunkId,
+          }
+    );
+  }
+
+  return issues;
+}
+
+function checkRelationship({
+  raw,
+  relationship,
+}: {
+  raw: string;
+  relationship?: string;
+}): Pick<LintIssue, "rule" | "severity" | "message"> | null {
+  if (relationship === undefined || isRelationshipType(relationship)) return null;
+  return {
+    rule: "unknown-relationship",
+    severity: "error",
+    message: `${raw} uses unknown relationship "${relationship}" (expected ${RELATIONSHIP_TYPES.map((type) => type.value).join(", ")})`,
+  };
+}
+
+function positionAt(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length;
+  const column = offset - before.lastIndexOf("\n");
+  return { line, column };
+}
+
+function sortIssues(issues: LintIssue[]): LintIssue[] {
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { extractFigures, verifyFigures, verifyLineageFigures } from "./claims";
+import { lineageGraph } from "./test-fixtures";
+import type { Chunk } from "./types";
+
+function values(text: string) {
+  return extractFigures(text).map(({ raw, value, kind }) => ({ raw, value, kind }));
+}
+
+describe("extractFigures", () => {
+  it("reads currency with multipliers, percentages and plain numbers", () => {
+    expect(values("$145M revenue, up 24%[2], NPS of 56, €1,200 per seat")).toEqual([
+      { raw: "$145M", value: 145_000_000, kind: "currency" },
+      { raw: "24%", value: 24, kind: "percent" },
+      { raw: "56", value: 56, kind: "number" },
+      { raw: "€1,200", value: 1200, kind: "currency" },
+    ]);
+  });
+
+  it("treats percentage points and signed changes as percentages", () => {
+    expect(values("a -3 pp swing and 26 percentage points")).toEqual([
+      { raw: "-3 pp", value: 3, kind: "percent" },
+      { raw: "26 percentage points", value: 26, kind: "percent" },
+    ]);
+  });
+
+  it("skips citation markers, labels glued to letters and bare years", () => {
+    expect(values("In Q3 2024 AES-256 adoption[12] grew")).toEqual([]);
+  });
+
+  it("records offsets into the text", () => {
+    const [figure] = extractFigures("up 24% overall");
+    expect([figure.start, figure.end]).toEqual([3, 6]);
+  });
+});
+
+describe("verifyFigures", () => {
+  const survey = { chunk_id: "raw_survey", text: "Adoption reached 78% in Q3 2024, up from 52% a year earlier." };
+  const financials = { chunk_id: "raw_financials", text: "Revenue was $145M, with 42 enterprise logos, now 56." };
+
+  it("traces a figure that appears in a source", () => {
+    const [check] = verifyFigures("Adoption hit 78%.", [survey]);
+    expect(check).toMatchObject({ status: "traced", source_chunk_id: "raw_survey" });
+  });
+
+  it("derives a delta between two source figures", () => {
+    const [check] = verifyFigures("Adoption rose 26 points.", [survey]);
+    expect(check).toMatchObject({ status: "derived", source_chunk_id: "raw_survey", explanation: "78% − 52%" });
+  });
+
+  it("derives a relative change quoted as a percentage, within rounding", () => {
+    // 42 → 56 is +33.3%
+    const [check] = verifyFigures("Enterprise logos grew 33%.", [financials]);
+    expect(check).toMatchObject({ status: "derived", explanation: "change from 42 to 56" });
+  });
+
+  it("only pairs figures from the same source", () => {
+    const sources = [
+      { chunk_id: "a", text: "Retention is 90%." },
+      { chunk_id: "b", text: "Churn peers sit at 68%." },
+    ];
+
+    expect(verifyFigures("The gap is 22 points.", sources).map((check) => check.status)).toEqual(["untraced"]);
+    expect(verifyFigures("The gap is 22 points.", [{ chunk_id: "a", text: "Retention is 90%, peers 68%." }])).toMatchObject([
+      { status: "derived", source_chunk_id: "a", explanation: "90% − 68%" },
+    ]);
+  });
+
+  it("never matches currency against percentages or numbers", () => {
+    const [check] = verifyFigures("Budget of $78.", [survey]);
+    expect(check.status).toBe("untraced");
+  });
+
+  it("leaves figures untraced without sources or when nothing matches", () => {
+    expect(verifyFigures("Growth of 17%.", []).map((check) => check.status)).toEqual(["untraced"]);
+    expect(verifyFigures("Growth of 17%.", [survey]).map((check) => check.status)).toEqual(["untraced"]);
+  });
+
+  it("returns no checks for text without figures", () => {
+    expect(verifyFigures("Adoption is accelerating[1].", [survey])).toEqual([]);
+  });
+});
+
+describe("verifyLineageFigures", () => {
+  it("checks the root against the raw chunks below it, not intermediate insights", () => {
+    const checks = verifyLineageFigures(
+      lineageGraph(
+        [
+          { chunk_id: "ins_summary", text: "Adoption hit 78%, revenue $145M.", stage: 2, type: "insight" },
+          { chunk_id: "ins_revenue", text: "Revenue was $145M.", stage: 1, type: "insight" },
+          { chunk_id: "raw_survey", text: "Adoption reached 78% in Q3.", stage: 0, type: "raw" },
+        ],
+        [
+          { source_chunk_id: "ins_summary", target_chunk_id: "ins_revenue", citation_marker: "[1]" },
+          { source_chunk_id: "ins_summary", target_chunk_id: "raw_survey", citation_marker: "[2]" },
+        ]
+      )
+    );
+
+    expect(checks.map(({ figure, status, source_chunk_id }) => [figure.raw, status, source_chunk_id])).toEqual([
+      ["78%", "traced", "raw_survey"],
+      ["$145M", "untraced", undefined],
+    ]);
+  });
+
+  it("leaves out sources reached only through contradicting citations", () => {
+    const chunks: Chunk[] = [
+      { chunk_id: "ins_adoption", text: "Adoption hit 78%, not 41%.", stage: 2, type: "insight" },
+      { chunk_id: "ins_rebuttal", text: "One panel disagrees.", stage: 1, type: "insight" },
+      { chunk_id: "raw_survey", text: "Adoption reached 78% in Q3.", stage: 0, type: "raw" },
+      { chunk_id: "raw_panel", text: "Only 41% of the panel adopted.", stage: 0, type: "raw" },
+    ];
+    const checks = verifyLineageFigures(
+      lineageGraph(chunks, [
+        { source_chunk_id: "ins_adoption", target_chunk_id: "raw_survey", citation_marker: "[1]" },
+        {
+          source_chunk_id: "ins_adoption",
+          target_chunk_id: "ins_rebuttal",
+          citation_marker: "[2]",
+          relationship_type: "contradicts",
+        },
+        { source_chunk_id: "ins_rebuttal", target_chunk_id: "raw_panel", citation_marker: "[1]" },
+      ])
+    );
+
+    expect(checks.map(({ figure, status }) => [figure.raw, status])).toEqual([
+      ["78%", "traced"],
+      ["41%", "untraced"],
+    ]);
+  });
+
+  it("returns nothing for a raw root", () => {
+    expect(
+      verifyLineageFigures(lineageGraph([{ chunk_id: "raw_survey", text: "Adoption reached 78%.", stage: 0, type: "raw" }]))
+    ).toEqual([]);
+  });
+});
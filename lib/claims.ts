@@ -0,0 +1,180 @@
+/**
+ * Utilities for extracting numeric figures from chunk text and tracing them to raw sources
+ *
+ * Input data sources: Chunk text (insight and raw), lineage graphs
+ * Output destinations: Claim checks for the lineage tree and citation popover
+ * Dependencies: lib/relationships.ts (filterLineageGraph), lib/types.ts (Figure, ClaimCheck, LineageGraph)
+ * Key exports: extractFigures, verifyFigures, verifyLineageFigures
+ * Side effects: None
+ */
+
+import { filterLineageGraph } from "./relationships";
+import type { ClaimCheck, Figure, LineageGraph } from "./types";
+
+// Currency, then percent, then bare number; the first alternative that matches wins.
+// Thousands separators need three digits after them, so "56," in a list stays "56"
+const FIGURE_PATTERN =
+  /([$€£])\s?(\d+(?:,\d{3})*(?:\.\d+)?)\s?(thousand|million|billion|[KMB])?(?![A-Za-z])|([+-]?\d+(?:,\d{3})*(?:\.\d+)?)\s?(%|percentage points?|points?|pp)(?![A-Za-z])|(\d+(?:,\d{3})*(?:\.\d+)?)/g;
+
+const MULTIPLIERS: Record<string, number> = {
+  K: 1e3,
+  thousand: 1e3,
+  M: 1e6,
+  million: 1e6,
+  B: 1e9,
+  billion: 1e9,
+};
+
+// Derived figures are usually rounded, e.g. a 240% increase from 10% to 34%
+const ROUNDING_TOLERANCE = 0.5;
+
+/**
+ * Pull percentages, currency amounts and plain numbers out of text
+ * Skips citation markers ([1]), labels glued to letters (Q3, AES-256) and bare years
+ * Example: "$145M revenue, up 24%[2]" -> [$145M (145000000), 24% (24)]
+ */
+export function extractFigures(text: string): Figure[] {
+  const figures: Figure[] = [];
+  const pattern = new RegExp(FIGURE_PATTERN.source, "g");
+
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const [raw, symbol, amount, unit, percent, , number] = match;
+    const start = match.index;
+    const end = start + raw.length;
+
+    if (symbol) {
+      figures.push({
+        raw,
+        value: parseNumber(amount) * (unit ? MULTIPLIERS[unit] : 1),
+        kind: "currency",
+        start,
+        end,
+      });
+      continue;
+    }
+
+    if (isEmbedded(text, start, end)) continue;
+
+    if (percent) {
+      figures.push({
+        raw,
+        value: Math.abs(parseNumber(percent)),
+        kind: "percent",
+        start,
+        end,
+      });
+      continue;
+    }
+
+    const value = parseNumber(number);
+    if (Number.isInteger(value) && value >= 1900 && value <= 2100) continue;
+    figures.push({ raw, value, kind: "number", start, end });
+  }
+
+  return figures;
+}
+
+/**
+ * Mark each figure in text as traced to a source figure, derived from two figures of the
+ * same source (difference or relative change), or untraced. Pairs are not formed across
+ * sources: with a rounding tolerance, some difference of two unrelated figures matches
+ * almost any small number.
+ */
+export function verifyFigures(
+  text: string,
+  sources: { chunk_id: string; text: string }[]
+): ClaimCheck[] {
+  const sourceFigures = sources.flatMap((source) =>
+    extractFigures(source.text).map((figure) => ({
+      figure,
+      chunk_id: source.chunk_id,
+    }))
+  );
+
+  return extractFigures(text).map((figure) => {
+    const exact = sourceFigures.find(
+      (source) =>
+        source.figure.value === figure.value &&
+        compatibleKinds(source.figure, figure)
+    );
+    if (exact) {
+      return { figure, status: "traced", source_chunk_id: exact.chunk_id };
+    }
+
+    for (const a of sourceFigures) {
+      for (const b of sourceFigures) {
+        if (a === b || a.chunk_id !== b.chunk_id || a.figure.kind !== b.figure.kind) continue;
+        if (!compatibleKinds(a.figure, figure)) continue;
+
+        // A delta between two figures, e.g. 78% − 52% = 26 points
+        if (
+          a.figure.value > b.figure.value &&
+          isClose(a.figure.value - b.figure.value, figure.value)
+        ) {
+          return {
+            figure,
+            status: "derived",
+            source_chunk_id: a.chunk_id,
+            explanation: `${a.figure.raw} − ${b.figure.raw}`,
+          };
+        }
+
+        // A relative change quoted as a percentage, e.g. 42 → 56 is +33%
+        if (
+          figure.kind === "percent" &&
+          b.figure.value !== 0 &&
+          isClose(
+            (Math.abs(a.figure.value - b.figure.value) / b.figure.value) * 100,
+            figure.value
+          )
+        ) {
+          return {
+            figure,
+            status: "derived",
+            source_chunk_id: a.chunk_id,
+            explanation: `change from ${b.figure.raw} to ${a.figure.raw}`,
+          };
+        }
+      }
+    }
+
+    return { figure, status: "untraced" };
+  });
+}
+
+function parseNumber(text: string): number {
+  return parseFloat(text.replace(/,/g, ""));
+}
+
+// "Q3", "AES-256" and "[1]" are labels, not figures
+function isEmbedded(text: string, start: number, end: number): boolean {
+  const before = text[start - 1] ?? "";
+  const after = text[end] ?? "";
+  return /[A-Za-z[\-]/.test(before) || /[A-Za-z\]]/.test(after);
+}
+
+// Plain numbers may be quoted as percentages ("NPS of 56") and vice versa
+function compatibleKinds(source: Figure, claim: Figure): boolean {
+  if (source.kind === claim.kind) return true;
+  return source.kind !== "currency" && claim.kind !== "currency";
+}
+
+function isClose(computed: number, claimed: number): boolean {
+  return Math.abs(computed - claimed) <= ROUNDING_TOLERANCE;
+}
+
+/**
+ * Claim checks of a lineage's root chunk against the raw sources below it. Raw chunks are
+ * the ground truth, so a raw root gets none; sources reached only through contradicting
+ * citations are counter-evidence and cannot back a figure.
+ */
+export function verifyLineageFigures(lineage: LineageGraph): ClaimCheck[] {
+  const root = lineage.nodes.find((node) => node.chunk_id === lineage.root_chunk_id)?.chunk;
+  if (!root || root.type === "raw") return [];
+
+  const rawSources = filterLineageGraph(lineage, "supporting").nodes
+    .filter((node) => node.chunk_id !== root.chunk_id && node.chunk.type === "raw")
+    .map((node) => ({ chunk_id: node.chunk_id, text: node.chunk.text }));
+  return verifyFigures(root.text, rawSources);
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { computeConfidence, sourceReliability } from "./confidence";
+import { lineageGraph } from "./test-fixtures";
+import type { Chunk, LineageEdge, RelationshipType } from "./types";
+
+function raw(chunkId: string, sourceType: string, reliability?: number): Chunk {
+  return { chunk_id: chunkId, text: chunkId, stage: 0, type: "raw", source_type: sourceType, reliability };
+}
+
+function insight(chunkId: string): Chunk {
+  return { chunk_id: chunkId, text: chunkId, stage: 1, type: "insight" };
+}
+
+function cite(
+  source: string,
+  target: string,
+  confidence = 1,
+  relationship_type: RelationshipType = "cites"
+): LineageEdge {
+  return { source_chunk_id: source, target_chunk_id: target, confidence, relationship_type };
+}
+
+describe("sourceReliability", () => {
+  it("prefers a manual score, then the source type default, then the fallback", () => {
+    expect(sourceReliability({ reliability: 0.5, source_type: "audit" })).toEqual({ reliability: 0.5, basis: "manual" });
+    expect(sourceReliability({ source_type: "audit" })).toEqual({ reliability: 0.95, basis: "source_type" });
+    expect(sourceReliability({ source_type: "rumour" })).toEqual({ reliability: 0.7, basis: "default" });
+  });
+});
+
+describe("computeConfidence", () => {
+  it("takes the weakest link under min-path", () => {
+    const result = computeConfidence(
+      lineageGraph(
+        [insight("ins"), raw("audit", "audit"), raw("forecast", "forecast")],
+        [cite("ins", "audit", 0.5), cite("ins", "forecast")]
+      ),
+      "min-path"
+    );
+
+    expect(result.score).toBe(0.5);
+    expect(result.explanation).toContain("audit, limited by citation confidence 50%");
+  });
+
+  it("weights reliabilities by path confidence under weighted-mean", () => {
+    const result = computeConfidence(
+      lineageGraph(
+        [insight("ins"), raw("audit", "audit"), raw("forecast", "forecast")],
+        [cite("ins", "audit", 1), cite("ins", "forecast", 0.5)]
+      ),
+      "weighted-mean"
+    );
+
+    // (1 * 0.95 + 0.5 * 0.6) / 1.5
+    expect(result.score).toBeCloseTo(0.8333, 4);
+  });
+
+  it("follows the strongest path to a source reached twice", () => {
+    const result = computeConfidence(
+      lineageGraph(
+        [insight("ins"), insight("weak"), insight("strong"), raw("survey", "survey")],
+        [cite("ins", "weak", 0.4), cite("ins", "strong", 0.9), cite("weak", "survey"), cite("strong", "survey")]
+      ),
+      "min-path"
+    );
+
+    expect(result.sources[0]).toMatchObject({ path: ["ins", "strong", "survey"], path_confidence: 0.9 });
+  });
+
+  describe("contradicting citations", () => {
+    const disputed = lineageGraph(
+      [insight("ins"), raw("survey", "survey"), raw("audit", "audit")],
+      [cite("ins", "survey", 1, "supports"), cite("ins", "audit", 1, "contradicts")]
+    );
+
+    it("do not raise the weighted mean", () => {
+      const result = computeConfidence(disputed, "weighted-mean");
+
+      expect(result.score).toBe(0.85);
+      expect(result.sources.map((source) => source.chunk_id)).toEqual(["survey"]);
+      expect(result.contradicting_sources).toEqual(["audit"]);
+      expect(result.explanation).toContain("1 source reached only through contradicting citations is left out");
+    });
+
+    it("are left out under min-path too", () => {
+      const result = computeConfidence(disputed, "min-path");
+
+      expect(result.score).toBe(0.85);
+      expect(result.contradicting_sources).toEqual(["audit"]);
+    });
+
+    it("also exclude sources further down the contradicting branch", () => {
+      const result = computeConfidence(
+        lineageGraph(
+          [insight("ins"), insight("rebuttal"), raw("survey", "survey"), raw("audit", "audit")],
+          [cite("ins", "survey"), cite("ins", "rebuttal", 1, "contradicts"), cite("rebuttal", "audit")]
+        ),
+        "weighted-mean"
+      );
+
+      expect(result.sources.map((source) => source.chunk_id)).toEqual(["survey"]);
+      expect(result.contradicting_sources).toEqual(["audit"]);
+    });
+
+    it("still count a source that is also reached through a supporting path", () => {
+      const result = computeConfidence(
+        lineageGraph(
+          [insight("ins"), insight("summary"), raw("audit", "audit")],
+          [cite("ins", "audit", 1, "contradicts"), cite("ins", "summary", 0.8), cite("summary", "audit", 1, "supports")]
+        ),
+        "min-path"
+      );
+
+      expect(result.sources[0]).toMatchObject({ chunk_id: "audit", path: ["ins", "summary", "audit"] });
+      expect(result.contradicting_sources).toEqual([]);
+      expect(result.score).toBe(0.8);
+    });
+
+    it("leave no score when every source contradicts the claim", () => {
+      const result = computeConfidence(
+        lineageGraph([insight("ins"), raw("audit", "audit")], [cite("ins", "audit", 1, "contradicts")]),
+        "weighted-mean"
+      );
+
+      expect(result.score).toBeNull();
+      expect(result.contradicting_sources).toEqual(["audit"]);
+      expect(result.explanation).toContain("nothing supports the claim");
+    });
+  });
+
+  it("scores a raw chunk by its own reliability", () => {
+    const result = computeConfidence(lineageGraph([raw("survey", "survey")], []), "min-path");
+
+    expect(result.score).toBe(0.85);
+    expect(result.contradicting_sources).toEqual([]);
+  });
+
+  it("has no score without raw sources, and terminates on cycles", () => {
+    const result = computeConfidence(
+      lineageGraph([insight("a"), insight("b")], [cite("a", "b"), cite("b", "a")]),
+      "weighted-mean"
+    );
+
+    expect(result.score).toBeNull();
+    expect(result.explanation).toContain("No raw sources");
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Confidence scoring: raw source reliability propagated through citation lineage
+ *
+ * Input data sources: LineageGraph (citations direction) with per-edge confidence and relationship type
+ * Output destinations: Confidence scores next to citation markers, breakdowns in popovers and the lineage tree
+ * Dependencies: lib/types.ts (LineageGraph, Chunk, Confidence types)
+ * Key exports: CONFIDENCE_RULES, DEFAULT_CONFIDENCE_RULE, SOURCE_TYPE_RELIABILITY, DEFAULT_RELIABILITY,
+ *   sourceReliability, computeConfidence, formatConfidence, describeReliabilityBasis
+ * Side effects: None
+ */
+
+import type {
+  Chunk,
+  ConfidenceResult,
+  ConfidenceRule,
+  ConfidenceSource,
+  LineageGraph,
+} from "./types";
+
+export const CONFIDENCE_RULES: { value: ConfidenceRule; label: string; description: string }[] = [
+  {
+    value: "min-path",
+    label: "Weakest link",
+    description:
+      "Lowest of every supporting source's reliability and the weakest citation on its strongest path",
+  },
+  {
+    value: "weighted-mean",
+    label: "Weighted mean",
+    description:
+      "Mean reliability of supporting sources, each weighted by the product of citation confidences on its path",
+  },
+];
+
+export const DEFAULT_CONFIDENCE_RULE: ConfidenceRule = "min-path";
+
+// Default reliability by raw source type; a manual content.reliability score overrides these
+export const SOURCE_TYPE_RELIABILITY: Record<string, number> = {
+  audit: 0.95,
+  financial_statement: 0.95,
+  internal_analytics: 0.9,
+  survey: 0.85,
+  analyst_report: 0.75,
+  forecast: 0.6,
+};
+
+export const DEFAULT_RELIABILITY = 0.7;
+
+export function sourceReliability(
+  chunk: Pick<Chunk, "reliability" | "source_type">
+): { reliability: number; basis: ConfidenceSource["reliability_basis"] } {
+  if (chunk.reliability !== null && chunk.reliability !== undefined) {
+    return { reliability: chunk.reliability, basis: "manual" };
+  }
+  if (chunk.source_type && chunk.source_type in SOURCE_TYPE_RELIABILITY) {
+    return {
+      reliability: SOURCE_TYPE_RELIABILITY[chunk.source_type],
+      basis: "source_type",
+    };
+  }
+  return { reliability: DEFAULT_RELIABILITY, basis: "default" };
+}
+
+/**
+ * Score graph.root_chunk_id from the raw chunks its lineage reaches
+ * min-path: min over sources of min(reliability, weakest edge on the strongest path)
+ * weighted-mean: sum(path product * reliability) / sum(path product)
+ * Paths never cross a `contradicts` citation: evidence disputing a claim must not raise its
+ * score, so sources reached only that way are listed in contradicting_sources instead.
+ */
+export function computeConfidence(
+  graph: LineageGraph,
+  rule: ConfidenceRule
+): ConfidenceResult {
+  const rootId = graph.root_chunk_id;
+  const chunks = new Map(graph.nodes.map((node) => [node.chunk_id, node.chunk]));
+  const root = chunks.get(rootId);
+
+  if (root?.type === "raw") {
+    const { reliability, basis } = sourceReliability(root);
+    return {
+      chunk_id: rootId,
+      rule,
+      score: reliability,
+      sources: [toSource(root, reliability, basis, [rootId], 1)],
+      contradicting_sources: [],
+      explanation: `Raw source, reliability ${formatConfidence(reliability)} (${describeReliabilityBasis(basis, root)})`,
+    };
+  }
+
+  const { strength, previous } = strongestPaths(graph, rule);
+  const sources = graph.nodes
+    .filter((node) => node.chunk.type === "raw" && strength.has(node.chunk_id))
+    .map((node) => {
+      const { reliability, basis } = sourceReliability(node.chunk);
+      return toSource(
+        node.chunk,
+        reliability,
+        basis,
+        pathTo(node.chunk_id, previous),
+        strength.get(node.chunk_id) ?? 0
+      );
+    })
+    .sort((a, b) => a.chunk_id.localeCompare(b.chunk_id));
+  const contradicting = graph.nodes
+    .filter((node) => node.chunk.type === "raw" && !strength.has(node.chunk_id))
+    .map((node) => node.chunk_id)
+    .sort();
+  const leftOut =
+    contradicting.length === 0
+      ? ""
+      : `; ${contradicting.length} source${contradicting.length !== 1 ? "s" : ""} reached only through contradicting citations ${contradicting.length !== 1 ? "are" : "is"} left out`;
+
+  if (sources.length === 0) {
+    return {
+      chunk_id: rootId,
+      rule,
+      score: null,
+      sources,
+      contradicting_sources: contradicting,
+      explanation:
+        contradicting.length === 0
+          ? "No raw sources in this lineage, so there is nothing to score"
+          : "Every raw source in this lineage is reached through a contradicting citation, so nothing supports the claim",
+    };
+  }
+
+  if (rule === "min-path") {
+    const scored = sources.map((source) => ({
+      source,
+      score: Math.min(source.reliability, source.path_confidence),
+    }));
+    const weakest = scored.reduce((min, entry) => (entry.score < min.score ? entry : min));
+    const limitedBy =
+      weakest.source.path_confidence < weakest.source.reliability
+        ? `citation confidence ${formatConfidence(weakest.source.path_confidence)} on ${weakest.source.path.join(" → ")}`
+        : `its reliability ${formatConfidence(weakest.source.reliability)}`;
+    return {
+      chunk_id: rootId,
+      rule,
+      score: weakest.score,
+      sources,
+      contradicting_sources: contradicting,
+      explanation: `Weakest link of ${sources.length} supporting source${sources.length !== 1 ? "s" : ""}: ${weakest.source.chunk_id}, limited by ${limitedBy}${leftOut}`,
+    };
+  }
+
+  const totalWeight = sources.reduce((sum, source) => sum + source.path_confidence, 0);
+  const score =
+    totalWeight === 0
+      ? 0
+      : sources.reduce(
+          (sum, source) => sum + source.path_confidence * source.reliability,
+          0
+        ) / totalWeight;
+  return {
+    chunk_id: rootId,
+    rule,
+    score,
+    sources,
+    contradicting_sources: contradicting,
+    explanation: `Mean reliability of ${sources.length} supporting source${sources.length !== 1 ? "s" : ""}, weighted by citation confidence along each path${leftOut}`,
+  };
+}
+
+/**
+ * "0.823" -> "82%"
+ */
+export function formatConfidence(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/**
+ * Where a source's reliability came from, e.g. "survey default"
+ */
+export function describeReliabilityBasis(
+  basis: ConfidenceSource["reliability_basis"],
+  chunk: Pick<Chunk, "source_type">
+): string {
+  switch (basis) {
+    case "manual":
+      return "manual rating";
+    case "source_type":
+      return `${chunk.source_type} default`;
+    case "default":
+      return "unrated source";
+  }
+}
+
+/**
+ * Best path strength from the root to every chunk reachable without crossing a
+ * contradicts edge, by repeated relaxation.
+ * Strengths never grow around a loop (confidences are at most 1), so cycles terminate.
+ */
+function strongestPaths(
+  graph: LineageGraph,
+  rule: ConfidenceRule
+): { strength: Map<string, number>; previous: Map<string, string> } {
+  const strength = new Map<string, number>([[graph.root_chunk_id, 1]]);
+  const previous = new Map<string, string>();
+  const combine = (path: number, edge: number) =>
+    rule === "min-path" ? Math.min(path, edge) : path * edge;
+
+  for (let pass = 0; pass < graph.nodes.length; pass++) {
+    let changed = false;
+    for (const edge of graph.edges) {
+      const from = strength.get(edge.source_chunk_id);
+      if (
+        from === undefined ||
+        edge.target_chunk_id === graph.root_chunk_id ||
+        edge.relationship_type === "contradicts"
+      ) {
+        continue;
+      }
+
+      const candidate = combine(from, edge.confidence ?? 1);
+      if (candidate > (strength.get(edge.target_chunk_id) ?? -1)) {
+        strength.set(edge.target_chunk_id, candidate);
+        previous.set(edge.target_chunk_id, edge.source_chunk_id);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return { strength, previous };
+}
+
+function pathTo(chunkId: string, previous: Map<string, string>): string[] {
+  const path = [chunkId];
+  let current = previous.get(chunkId);
+  while (current !== undefined && !path.includes(current)) {
+    path.unshift(current);
+    current = previous.get(current);
+  }
+  return path;
+}
+
+function toSource(
+  chunk: Chunk,
+  reliability: number,
+  basis: ConfidenceSource["reliability_basis"],
+  path: string[],
+  pathConfidence: number
+): ConfidenceSource {
+  return {
+    chunk_id: chunk.chunk_id,
+    source_title: chunk.source_title,
+    reliability,
+    reliability_basis: basis,
+    source_type: chunk.source_type,
+    path,
+    path_confidence: pathConfidence,
+  };
+}
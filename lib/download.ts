@@ -0,0 +1,24 @@
+/**
+ * Browser helper for saving generated text (exports) as a file
+ *
+ * Input data sources: File content produced by export server actions
+ * Output destinations: Browser download
+ * Dependencies: DOM (Blob, URL.createObjectURL)
+ * Key exports: downloadFile
+ * Side effects: Creates a temporary object URL and clicks a hidden link
+ */
+
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildLineageTree,
+  clampDepth,
+  compareCitationMarkers,
+  DEFAULT_MAX_DEPTH,
+  getTopLevelDependents,
+  MAX_DEPTH_LIMIT,
+} from "./lineage-graph";
+import { lineageGraph, outline } from "./test-fixtures";
+import type { LineageEdge } from "./types";
+
+function edge(source: string, target: string, marker: string): LineageEdge {
+  return { source_chunk_id: source, target_chunk_id: target, citation_marker: marker };
+}
+
+describe("buildLineageTree", () => {
+  it("expands a shared source once and shows later citations of it as repeats", () => {
+    const tree = buildLineageTree(
+      lineageGraph(["root", "a", "b", "raw"], [
+        edge("root", "a", "[1]"),
+        edge("root", "b", "[2]"),
+        edge("a", "raw", "[1]"),
+        edge("b", "raw", "[1]"),
+      ])
+    );
+
+    expect(outline(tree)).toEqual(["a[raw]", "b[raw*]"]);
+  });
+
+  it("orders children by numeric marker, then chunk_id", () => {
+    const tree = buildLineageTree(
+      lineageGraph(["root", "x", "y", "z"], [
+        edge("root", "z", "[10]"),
+        edge("root", "y", "[2]"),
+        edge("root", "x", "[2]"),
+      ])
+    );
+
+    expect(tree.map((node) => [node.citation_marker, node.chunk_id])).toEqual([
+      ["[2]", "x"],
+      ["[2]", "y"],
+      ["[10]", "z"],
+    ]);
+  });
+
+  it("stops at a citation cycle back to the root with a repeat leaf", () => {
+    const tree = buildLineageTree(
+      lineageGraph(["a", "b"], [edge("a", "b", "[1]"), edge("b", "a", "[1]")])
+    );
+
+    expect(outline(tree)).toEqual(["b[a*]"]);
+  });
+
+  it("handles a self-citation and a cycle between non-root chunks", () => {
+    const tree = buildLineageTree(
+      lineageGraph(["root", "a", "b"], [
+        edge("root", "a", "[1]"),
+        edge("a", "a", "[1]"),
+        edge("a", "b", "[2]"),
+        edge("b", "a", "[1]"),
+      ])
+    );
+
+    expect(outline(tree)).toEqual(["a[a*,b[a*]]"]);
+  });
+
+  it("assigns depth by position in the tree", () => {
+    const [a] = buildLineageTree(
+      lineageGraph(["root", "a", "raw"], [edge("root", "a", "[1]"), edge("a", "raw", "[1]")])
+    );
+
+    expect(a.depth).toBe(1);
+    expect(a.children[0].depth).toBe(2);
+  });
+
+  it("walks dependents from the cited chunk up to the chunks citing it", () => {
+    const tree = buildLineageTree(
+      lineageGraph(
+        ["raw", "insight", "report"],
+        [edge("insight", "raw", "[1]"), edge("report", "insight", "[3]")],
+        "dependents"
+      )
+    );
+
+    expect(outline(tree)).toEqual(["insight[report]"]);
+    expect(tree[0].children[0].citation_marker).toBe("[3]");
+  });
+
+  it("skips edges to chunks missing from the node list", () => {
+    const tree = buildLineageTree(lineageGraph(["root", "a"], [edge("root", "a", "[1]"), edge("root", "gone", "[2]")]));
+
+    expect(outline(tree)).toEqual(["a"]);
+  });
+
+  it("returns no nodes for a chunk without citations", () => {
+    expect(buildLineageTree(lineageGraph(["root"], []))).toEqual([]);
+  });
+
+  it("only passes quotes down in the citations direction", () => {
+    const quote = { text: "78%", start: 0, end: 3 };
+    const citations = buildLineageTree(
+      lineageGraph(["root", "raw"], [{ ...edge("root", "raw", "[1]"), quote }])
+    );
+    const dependents = buildLineageTree(
+      lineageGraph(["raw", "root"], [{ ...edge("root", "raw", "[1]"), quote }], "dependents")
+    );
+
+    expect(citations[0].quote).toEqual(quote);
+    expect(dependents[0].quote).toBeUndefined();
+  });
+});
+
+describe("getTopLevelDependents", () => {
+  it("returns the dependents nothing else cites", () => {
+    const dependents = lineageGraph(
+      ["raw", "a", "b", "report"],
+      [edge("a", "raw", "[1]"), edge("b", "raw", "[1]"), edge("report", "a", "[1]")],
+      "dependents"
+    );
+
+    expect(getTopLevelDependents(dependents)).toEqual(["b", "report"]);
+  });
+});
+
+describe("clampDepth", () => {
+  it("defaults missing or non-finite depths and clamps the rest to 1..MAX_DEPTH_LIMIT", () => {
+    expect(clampDepth()).toBe(DEFAULT_MAX_DEPTH);
+    expect(clampDepth(Number.NaN)).toBe(DEFAULT_MAX_DEPTH);
+    expect(clampDepth(0)).toBe(1);
+    expect(clampDepth(2.7)).toBe(2);
+    expect(clampDepth(1000)).toBe(MAX_DEPTH_LIMIT);
+  });
+});
+
+describe("compareCitationMarkers", () => {
+  it("compares markers by number and treats missing markers as equal", () => {
+    expect(compareCitationMarkers("[2]", "[10]")).toBeLessThan(0);
+    expect(compareCitationMarkers(undefined, "[1]")).toBe(0);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Utilities for turning a lineage graph (DAG of chunks and citation edges) into tree views
+ *
+ * Input data sources: LineageGraph from server actions
+ * Output destinations: LineageNode trees for LineageTree, counts for LineageSheet
+ * Dependencies: lib/types.ts
+ * Key exports: DEFAULT_MAX_DEPTH, MAX_DEPTH_LIMIT, clampDepth, buildLineageTree,
+ *   compareCitationMarkers, getTopLevelDependents
+ * Side effects: None
+ */
+
+import type { LineageEdge, LineageGraph, LineageNode } from "./types";
+
+export const DEFAULT_MAX_DEPTH = 10;
+export const MAX_DEPTH_LIMIT = 100;
+
+/**
+ * Normalize a caller-supplied traversal depth to 1..MAX_DEPTH_LIMIT
+ */
+export function clampDepth(maxDepth?: number): number {
+  if (maxDepth === undefined || !Number.isFinite(maxDepth)) {
+    return DEFAULT_MAX_DEPTH;
+  }
+  return Math.min(Math.max(Math.floor(maxDepth), 1), MAX_DEPTH_LIMIT);
+}
+
+/**
+ * Order citation markers numerically: "[2]" before "[10]"
+ */
+export function compareCitationMarkers(a?: string, b?: string): number {
+  if (!a || !b) return 0;
+  return parseInt(a.replace(/\D/g, ""), 10) - parseInt(b.replace(/\D/g, ""), 10);
+}
+
+/**
+ * Build a tree rooted below graph.root_chunk_id
+ * Each chunk is expanded at its first (depth-first, marker-ordered) occurrence;
+ * later occurrences become leaf repeats so shared sources are neither dropped nor duplicated
+ */
+export function buildLineageTree(graph: LineageGraph): LineageNode[] {
+  const nodesById = new Map(graph.nodes.map((node) => [node.chunk_id, node]));
+  const edgesByParent = new Map<string, LineageEdge[]>();
+
+  for (const edge of graph.edges) {
+    const parentId =
+      graph.direction === "citations" ? edge.source_chunk_id : edge.target_chunk_id;
+    const list = edgesByParent.get(parentId) ?? [];
+    list.push(edge);
+    edgesByParent.set(parentId, list);
+  }
+
+  const expanded = new Set<string>([graph.root_chunk_id]);
+
+  function build(parentId: string, depth: number): LineageNode[] {
+    const edges = [...(edgesByParent.get(parentId) ?? [])].sort(
+      (a, b) =>
+        compareCitationMarkers(a.citation_marker, b.citation_marker) ||
+        childId(a).localeCompare(childId(b))
+    );
+
+    const children: LineageNode[] = [];
+    for (const edge of edges) {
+      const id = childId(edge);
+      const graphNode = nodesById.get(id);
+      if (!graphNode) continue;
+
+      if (expanded.has(id)) {
+        children.push({
+          chunk_id: id,
+          depth,
+          chunk: graphNode.chunk,
+          citation_marker: edge.citation_marker,
+          quote: graph.direction === "citations" ? edge.quote : undefined,
+          relationship_type: edge.relationship_type,
+          is_repeat: true,
+          children: [],
+        });
+        continue;
+      }
+
+      expanded.add(id);
+      children.push({
+        chunk_id: id,
+        depth,
+        chunk: graphNode.chunk,
+        citation_marker: edge.citation_marker,
+        quote: graph.direction === "citations" ? edge.quote : undefined,
+        relationship_type: edge.relationship_type,
+        children: build(id, depth + 1),
+      });
+    }
+    return children;
+  }
+
+  function childId(edge: LineageEdge): string {
+    return graph.direction === "citations"
+      ? edge.target_chunk_id
+      : edge.source_chunk_id;
+  }
+
+  return build(graph.root_chunk_id, 1);
+}
+
+/**
+ * In a dependents graph, the chunks nothing else cites: report-level insights
+ */
+export function getTopLevelDependents(graph: LineageGraph): string[] {
+  const cited = new Set(graph.edges.map((edge) => edge.target_chunk_id));
+  return graph.nodes
+    .filter((node) => node.chunk_id !== graph.root_chunk_id)
+    .filter((node) => !cited.has(node.chunk_id))
+    .map((node) => node.chunk_id);
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractCitationMarkers,
+  getNextCitationNumber,
+  insertCitation,
+  parseCitationMap,
+  parseCitationQuotes,
+  splitReportIntoParagraphs,
+  toChunkIdPrefix,
+} from "./markdown-utils";
+
+const REPORT = `# Growth Review
+
+Adoption reached 78%[1].
+
+---
+
+## References
+
+[1] raw_market_survey_chunk_1 - Market Survey Q3 2024
+`;
+
+describe("insertCitation", () => {
+  it("inserts at the very start of the document", () => {
+    const result = insertCitation(REPORT, 0, "raw_financial_chunk_1");
+
+    expect(result.markdown.startsWith("[2]# Growth Review")).toBe(true);
+    expect(result.marker).toBe("[2]");
+    expect(result.position).toBe(3);
+  });
+
+  it("clamps negative positions to the start", () => {
+    expect(insertCitation(REPORT, -5, "raw_financial_chunk_1").markdown.startsWith("[2]#")).toBe(true);
+  });
+
+  it("moves positions past the body to its end, before the rule and References", () => {
+    const result = insertCitation(REPORT, REPORT.length, "raw_financial_chunk_1");
+
+    expect(result.markdown).toContain("Adoption reached 78%[1].[2]\n\n---\n\n## References");
+    expect(result.position).toBe(result.markdown.indexOf("[2]") + 3);
+  });
+
+  it("appends a new References entry after the existing ones", () => {
+    const result = insertCitation(REPORT, 0, "raw_financial_chunk_1", "Financials Q3");
+
+    expect(result.markdown.endsWith(
+      "[1] raw_market_survey_chunk_1 - Market Survey Q3 2024\n[2] raw_financial_chunk_1 - Financials Q3\n"
+    )).toBe(true);
+    expect(parseCitationMap(result.markdown)).toEqual({
+      "[1]": "raw_market_survey_chunk_1",
+      "[2]": "raw_financial_chunk_1",
+    });
+  });
+
+  it("reuses the marker of an already referenced chunk without a new entry", () => {
+    const result = insertCitation(REPORT, 0, "raw_market_survey_chunk_1");
+
+    expect(result.marker).toBe("[1]");
+    expect(result.markdown.match(/raw_market_survey_chunk_1/g)).toHaveLength(1);
+  });
+
+  it("writes relationships other than cites as a marker suffix", () => {
+    const contradicts = insertCitation(REPORT, 0, "raw_financial_chunk_1", undefined, "contradicts");
+    const cites = insertCitation(REPORT, 0, "raw_financial_chunk_1", undefined, "cites");
+
+    expect(contradicts.markdown.startsWith("[2:contradicts]")).toBe(true);
+    expect(contradicts.marker).toBe("[2]");
+    expect(cites.markdown.startsWith("[2]#")).toBe(true);
+  });
+
+  it("creates the References section in an empty document", () => {
+    const result = insertCitation("", 0, "raw_market_survey_chunk_1");
+
+    expect(result.markdown).toBe("[1]\n\n---\n\n## References\n\n[1] raw_market_survey_chunk_1\n");
+    expect(result.position).toBe(3);
+  });
+
+  it("creates the References section after a body without one", () => {
+    const result = insertCitation("Revenue grew 24%.\n", 17, "raw_financial_chunk_1");
+
+    expect(result.markdown).toBe(
+      "Revenue grew 24%.[1]\n\n---\n\n## References\n\n[1] raw_financial_chunk_1\n"
+    );
+  });
+
+  it("adds the first entry to an empty References section", () => {
+    const result = insertCitation("Text.\n\n## References\n", 5, "raw_financial_chunk_1");
+
+    expect(result.markdown).toBe("Text.[1]\n\n## References\n\n[1] raw_financial_chunk_1\n");
+  });
+});
+
+describe("getNextCitationNumber", () => {
+  it("starts at 1 and continues past the highest marker, suffixes included", () => {
+    expect(getNextCitationNumber("")).toBe(1);
+    expect(getNextCitationNumber("a[1] b[7:supports] c[3]")).toBe(8);
+  });
+});
+
+describe("extractCitationMarkers", () => {
+  it("returns each marker once in order of appearance, without relationship suffixes", () => {
+    expect(extractCitationMarkers("x[2] y[1:contradicts] z[2]")).toEqual(["[2]", "[1]"]);
+  });
+});
+
+describe("parseCitationQuotes", () => {
+  it("returns quoted passages and omits entries without one", () => {
+    const markdown = `Body[1][2]
+
+## References
+
+[1] raw_a "reached 78%" - Survey
+[2] raw_b - Financials
+`;
+
+    expect(parseCitationQuotes(markdown)).toEqual({ "[1]": "reached 78%" });
+  });
+});
+
+describe("splitReportIntoParagraphs", () => {
+  it("drops headings, rules, metadata lines and References", () => {
+    const markdown = `# Title
+Author: a@example.com
+
+First line
+second line.
+
+---
+
+## References
+
+[1] raw_a
+`;
+
+    expect(splitReportIntoParagraphs(markdown)).toEqual(["First line second line."]);
+  });
+});
+
+describe("toChunkIdPrefix", () => {
+  it("slugs the first six words and falls back to report", () => {
+    expect(toChunkIdPrefix("Survey Analysis: Q3 2024 — Enterprise AI Adoption Trends")).toBe(
+      "ins_survey_analysis_q3_2024_enterprise_ai"
+    );
+    expect(toChunkIdPrefix("!!!")).toBe("ins_report");
+  });
+});
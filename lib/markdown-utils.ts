@@ -4,10 +4,15 @@
  * Input data sources: Markdown strings with citation references
  * Output destinations: Citation maps and marker arrays
  * Dependencies: None (pure functions)
- * Key exports: parseCitationMap, extractCitationMarkers
+ * Key exports: CITATION_MARKER_PATTERN, parseCitationMap, parseCitationQuotes, parseCitationMarkers,
+ *   extractCitationMarkers, extractReportMetadata, splitReportIntoParagraphs, toChunkIdPrefix,
+ *   getNextCitationNumber, insertCitation
  * Side effects: None
  */
 
+// "[1]" or "[1:contradicts]": the optional suffix names the citation's relationship type
+export const CITATION_MARKER_PATTERN = /\[(\d+)(?::([a-zA-Z]+))?\]/g;
+
 /**
  * Parse citation references from markdown content
  * Expects format: [1] chunk_id - description
@@ -37,15 +42,52 @@ export function parseCitationMap(markdown: string): Record<string, string> {
 }
 
 /**
- * Extract all citation markers from text (e.g., [1], [2], [3])
+ * Parse quoted passages from References entries
+ * Expects format: [1] chunk_id "quoted passage of the chunk" - description
+ * Returns map: { "[1]": "quoted passage of the chunk" } (entries without a quote are omitted)
+ */
+export function parseCitationQuotes(markdown: string): Record<string, string> {
+  const quotes: Record<string, string> = {};
+
+  const referencesMatch = markdown.match(/##\s+References\s+([\s\S]*?)($|##)/);
+  if (!referencesMatch) return quotes;
+
+  const quoteRegex = /\[(\d+)\]\s+[a-zA-Z0-9_]+\s+"([^"\n]+)"/g;
+
+  let match;
+  while ((match = quoteRegex.exec(referencesMatch[1])) !== null) {
+    const [, number, quote] = match;
+    quotes[`[${number}]`] = quote;
+  }
+
+  return quotes;
+}
+
+/**
+ * Every citation marker occurrence in text, with its relationship suffix split off
+ * Example: "up 24%[2], though[3:contradicts]" ->
+ *   [{ raw: "[2]", marker: "[2]", index: 6 }, { raw: "[3:contradicts]", marker: "[3]", relationship: "contradicts", index: 17 }]
+ */
+export function parseCitationMarkers(
+  text: string
+): { raw: string; marker: string; relationship?: string; index: number }[] {
+  return [...text.matchAll(new RegExp(CITATION_MARKER_PATTERN.source, "g"))].map(
+    (match) => ({
+      raw: match[0],
+      marker: `[${match[1]}]`,
+      relationship: match[2]?.toLowerCase(),
+      index: match.index ?? 0,
+    })
+  );
+}
+
+/**
+ * Extract all citation markers from text (e.g., [1], [2], [3]); "[3:contradicts]" counts as [3]
  */
 export function extractCitationMarkers(text: string): string[] {
   const markers: string[] = [];
-  const regex = /\[(\d+)\]/g;
 
-  let match;
-  while ((match = regex.exec(text)) !== null) {
-    const marker = match[0]; // e.g., "[1]"
+  for (const { marker } of parseCitationMarkers(text)) {
     if (!markers.includes(marker)) {
       markers.push(marker);
     }
@@ -53,3 +95,138 @@ export function extractCitationMarkers(text: string): string[] {
 
   return markers;
 }
+
+/**
+ * Extract report-level metadata from the header block
+ * Title comes from the first "# " heading, author/date from "Author:" and "Date:" lines
+ */
+export function extractReportMetadata(markdown: string): {
+  title?: string;
+  author?: string;
+  date?: string;
+} {
+  const body = markdown.split(/##\s+References/)[0];
+
+  const titleMatch = body.match(/^#\s+(.+)$/m);
+  const authorMatch = body.match(/^Author:\s*(.+)$/m);
+  const dateMatch = body.match(/^Date:\s*(.+)$/m);
+
+  return {
+    title: titleMatch?.[1].trim(),
+    author: authorMatch?.[1].trim(),
+    date: dateMatch?.[1].trim(),
+  };
+}
+
+/**
+ * Split report body into paragraph-level chunks (References section excluded)
+ * Headings, horizontal rules and Author/Date metadata lines are dropped,
+ * remaining lines of a paragraph are joined with a single space
+ */
+export function splitReportIntoParagraphs(markdown: string): string[] {
+  const body = markdown.split(/##\s+References/)[0];
+  const paragraphs: string[] = [];
+
+  for (const block of body.split(/\n\s*\n/)) {
+    const lines = block
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(
+        (line) =>
+          line.length > 0 &&
+          !/^#{1,6}\s/.test(line) &&
+          !/^(-{3,}|\*{3,}|_{3,})$/.test(line) &&
+          !/^(Author|Date):/.test(line)
+      );
+
+    if (lines.length > 0) {
+      paragraphs.push(lines.join(" "));
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Build a chunk_id prefix from a report title
+ * Example: "Survey Analysis Q3 2024" -> "ins_survey_analysis_q3_2024"
+ */
+export function toChunkIdPrefix(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .split("_")
+    .slice(0, 6)
+    .join("_");
+
+  return `ins_${slug || "report"}`;
+}
+
+/**
+ * Next free citation number, past every marker in the text and every reference entry
+ */
+export function getNextCitationNumber(markdown: string): number {
+  const numbers = [
+    ...markdown.matchAll(new RegExp(CITATION_MARKER_PATTERN.source, "g")),
+  ].map((match) => parseInt(match[1], 10));
+  return numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+}
+
+/**
+ * Insert a citation marker at `position` and register its chunk in the References section
+ * Re-citing an already referenced chunk reuses its marker; otherwise the next free number
+ * is used and "[n] chunk_id - description" is appended (creating the section if needed).
+ * A relationship other than "cites" is written as a marker suffix, e.g. "[2:supports]".
+ * Positions inside the References section are moved to the end of the body.
+ */
+export function insertCitation(
+  markdown: string,
+  position: number,
+  chunkId: string,
+  description?: string,
+  relationship?: string
+): { markdown: string; marker: string; position: number } {
+  const existing = Object.entries(parseCitationMap(markdown)).find(
+    ([, id]) => id === chunkId
+  );
+  const marker = existing ? existing[0] : `[${getNextCitationNumber(markdown)}]`;
+  const inlineMarker =
+    relationship && relationship !== "cites"
+      ? `${marker.slice(0, -1)}:${relationship}]`
+      : marker;
+
+  const referencesIndex = markdown.search(/##\s+References/);
+  // Body ends at the last text before References (and the "---" rule that usually precedes it)
+  const bodyEnd = markdown
+    .slice(0, referencesIndex === -1 ? markdown.length : referencesIndex)
+    .replace(/\n-{3,}\s*$/, "")
+    .replace(/\s+$/, "").length;
+  const insertAt = Math.min(Math.max(position, 0), bodyEnd);
+
+  let result = markdown.slice(0, insertAt) + inlineMarker + markdown.slice(insertAt);
+  const cursor = insertAt + inlineMarker.length;
+
+  if (!existing) {
+    const entry = `${marker} ${chunkId}${description ? ` - ${description}` : ""}`;
+    const headerMatch = result.match(/##\s+References[^\n]*\n?/);
+
+    if (headerMatch && headerMatch.index !== undefined) {
+      // Append after the last line of the section (before any following "##" heading)
+      const sectionStart = headerMatch.index + headerMatch[0].length;
+      const nextHeading = result.slice(sectionStart).search(/\n##\s/);
+      const sectionEnd =
+        nextHeading === -1 ? result.length : sectionStart + nextHeading;
+      const section = result.slice(sectionStart, sectionEnd).replace(/\s+$/, "");
+      result =
+        result.slice(0, sectionStart) +
+        (section ? `${section}\n` : "\n") +
+        `${entry}\n` +
+        result.slice(sectionEnd);
+    } else {
+      result = `${result.replace(/\s+$/, "")}\n\n---\n\n## References\n\n${entry}\n`;
+    }
+  }
+
+  return { markdown: result, marker, position: cursor };
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { buildProvDocument, localName, toProvJson, toProvTurtle, type ProvInput } from "./prov";
+
+const INPUT: ProvInput = {
+  chunks: [
+    {
+      chunk_id: "ins_growth",
+      text: "Adoption hit 78%[1].",
+      stage: 1,
+      type: "insight",
+      author: "ana@consulting.com",
+      created_at: "2024-11-02T10:00:00Z",
+    },
+    {
+      chunk_id: "raw_survey",
+      text: 'The "headline" figure:\n78% \\ Q3',
+      stage: 0,
+      type: "raw",
+      author: "ana@consulting.com",
+      source_title: "Market Survey Q3 2024",
+      locator_page: 12,
+    },
+  ],
+  edges: [
+    {
+      source_chunk_id: "ins_growth",
+      target_chunk_id: "raw_survey",
+      citation_marker: "[1]",
+      relationship_type: "quotes",
+      quote: { text: "78%", start: 23, end: 26 },
+    },
+  ],
+};
+
+describe("localName", () => {
+  it("percent-encodes reserved characters so different ids never collide", () => {
+    expect(localName("raw_survey-1")).toBe("raw_survey-1");
+    expect(localName("a.b")).toBe("a%2Eb");
+    expect(localName("a_b")).toBe("a_b");
+    expect(localName("100%")).toBe("100%25");
+    expect(localName("-x é")).toBe("%2Dx%20%C3%A9");
+  });
+
+  it("round-trips through decodeURIComponent", () => {
+    for (const id of ["a.b", "a_b", "ana@consulting.com", "50% off", "-lead"]) {
+      expect(decodeURIComponent(localName(id))).toBe(id);
+    }
+  });
+});
+
+describe("buildProvDocument", () => {
+  const doc = buildProvDocument(INPUT);
+
+  it("makes each chunk an entity generated by its own authoring activity", () => {
+    expect(doc.entities[1]).toEqual({
+      id: "chunk:raw_survey",
+      label: "Market Survey Q3 2024",
+      value: INPUT.chunks[1].text,
+      attributes: {
+        "trace:chunkId": "raw_survey",
+        "trace:stage": 0,
+        "trace:chunkType": "raw",
+        "trace:sourceTitle": "Market Survey Q3 2024",
+        "trace:locator": "p. 12",
+      },
+      generated_by: "activity:author_raw_survey",
+      generated_at: undefined,
+      attributed_to: "agent:ana%40consulting%2Ecom",
+    });
+  });
+
+  it("lets an activity use the chunks its chunk cites", () => {
+    expect(doc.activities[0]).toEqual({
+      id: "activity:author_ins_growth",
+      label: "Authoring of ins_growth",
+      ended_at: "2024-11-02T10:00:00Z",
+      used: ["chunk:raw_survey"],
+      associated_with: "agent:ana%40consulting%2Ecom",
+    });
+  });
+
+  it("creates one agent per author", () => {
+    expect(doc.agents).toEqual([{ id: "agent:ana%40consulting%2Ecom", label: "ana@consulting.com" }]);
+  });
+
+  it("turns every citation into a derivation with its marker, quote and relationship", () => {
+    expect(doc.derivations).toEqual([
+      { generated: "chunk:ins_growth", used: "chunk:raw_survey", marker: "[1]", quote: "78%", relationship: "quotes" },
+    ]);
+  });
+
+  it("keeps chunks whose ids only differ in reserved characters apart", () => {
+    const { entities } = buildProvDocument({
+      chunks: [
+        { chunk_id: "a.b", text: "x", stage: 0, type: "raw" },
+        { chunk_id: "a_b", text: "y", stage: 0, type: "raw" },
+      ],
+      edges: [],
+    });
+
+    expect(new Set(entities.map((entity) => entity.id)).size).toBe(2);
+  });
+
+  it("adds the report as an entity derived from each References entry", () => {
+    const withReport = buildProvDocument({
+      ...INPUT,
+      report: { id: 7, title: "Growth Review", citations: [{ marker: "[1]", chunk_id: "ins_growth" }] },
+    });
+
+    expect(withReport.entities.at(-1)).toMatchObject({ id: "report:7", label: "Growth Review" });
+    expect(withReport.derivations.at(-1)).toEqual({
+      generated: "report:7",
+      used: "chunk:ins_growth",
+      marker: "[1]",
+    });
+  });
+});
+
+describe("toProvJson", () => {
+  const json = toProvJson(buildProvDocument(INPUT)) as Record<string, Record<string, Record<string, unknown>>>;
+
+  it("keys entities, activities and agents by qualified name", () => {
+    expect(Object.keys(json.entity)).toEqual(["chunk:ins_growth", "chunk:raw_survey"]);
+    expect(json.activity["activity:author_ins_growth"]).toEqual({
+      "prov:label": "Authoring of ins_growth",
+      "prov:endTime": "2024-11-02T10:00:00Z",
+    });
+    expect(json.agent["agent:ana%40consulting%2Ecom"]).toEqual({
+      "prov:type": { $: "prov:Person", type: "prov:QUALIFIED_NAME" },
+      "prov:label": "ana@consulting.com",
+    });
+    expect(json.prefix).not.toHaveProperty("prov");
+  });
+
+  it("writes wasDerivedFrom with the citation details", () => {
+    expect(Object.values(json.wasDerivedFrom)).toEqual([
+      {
+        "prov:generatedEntity": "chunk:ins_growth",
+        "prov:usedEntity": "chunk:raw_survey",
+        "trace:citationMarker": "[1]",
+        "trace:quote": "78%",
+        "trace:relationshipType": "quotes",
+      },
+    ]);
+  });
+});
+
+describe("toProvTurtle", () => {
+  const turtle = toProvTurtle(buildProvDocument(INPUT));
+
+  it("escapes quotes, backslashes and newlines in literals", () => {
+    expect(turtle).toContain('prov:value "The \\"headline\\" figure:\\n78% \\\\ Q3"');
+  });
+
+  it("types ISO timestamps as xsd:dateTime", () => {
+    expect(turtle).toContain('prov:generatedAtTime "2024-11-02T10:00:00Z"^^xsd:dateTime');
+  });
+
+  it("qualifies each derivation and adds wasQuotedFrom for quotes", () => {
+    expect(turtle).toContain("prov:wasDerivedFrom chunk:raw_survey");
+    expect(turtle).toContain(
+      'prov:qualifiedDerivation [ a prov:Derivation ; prov:entity chunk:raw_survey ; trace:citationMarker "[1]" ; trace:quote "78%" ; trace:relationshipType "quotes" ]'
+    );
+    expect(turtle).toContain("prov:wasQuotedFrom chunk:raw_survey");
+  });
+
+  it("declares every prefix it uses", () => {
+    expect(turtle.startsWith("@prefix prov: <http://www.w3.org/ns/prov#> .")).toBe(true);
+    expect(turtle).toContain("agent:ana%40consulting%2Ecom\n    a prov:Agent, prov:Person");
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Conversion of citation lineage into W3C PROV (PROV-JSON and PROV-O Turtle)
+ *
+ * Input data sources: Lineage graph chunks and edges, optionally a report and its References
+ * Output destinations: Provenance exports downloaded from the lineage sheet
+ * Dependencies: lib/types.ts (Chunk, LineageEdge), lib/source-reference.ts (formatLocator)
+ * Key exports: PROV_NAMESPACES, buildProvDocument, toProvJson, toProvTurtle, localName, ProvDocument
+ * Side effects: None
+ */
+
+import { formatLocator } from "./source-reference";
+import type { Chunk, LineageEdge } from "./types";
+
+export const PROV_NAMESPACES = {
+  prov: "http://www.w3.org/ns/prov#",
+  xsd: "http://www.w3.org/2001/XMLSchema#",
+  rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+  trace: "urn:trace-demo:ns#",
+  chunk: "urn:trace-demo:chunk:",
+  report: "urn:trace-demo:report:",
+  activity: "urn:trace-demo:activity:",
+  agent: "urn:trace-demo:agent:",
+} as const;
+
+export interface ProvInput {
+  chunks: Chunk[];
+  edges: LineageEdge[];
+  report?: {
+    id: number;
+    title: string;
+    author?: string;
+    created_at?: string;
+    citations: { marker: string; chunk_id: string }[];
+  };
+}
+
+// Every id below is a prefixed name, e.g. "chunk:raw_market_survey_chunk_1"
+interface ProvEntity {
+  id: string;
+  label: string;
+  value?: string; // Chunk text
+  attributes: Record<string, string | number>; // trace:* attributes
+  generated_by: string;
+  generated_at?: string;
+  attributed_to?: string;
+}
+
+interface ProvActivity {
+  id: string;
+  label: string;
+  ended_at?: string;
+  used: string[];
+  associated_with?: string;
+}
+
+interface ProvDerivation {
+  generated: string;
+  used: string;
+  marker?: string;
+  quote?: string; // Passage of the used entity, for span-level citations
+  relationship?: string; // Citation relationship type other than 'cites'
+}
+
+export interface ProvDocument {
+  entities: ProvEntity[];
+  activities: ProvActivity[];
+  agents: { id: string; label: string }[];
+  derivations: ProvDerivation[];
+}
+
+/**
+ * Chunks (and the report) become entities, authoring each one becomes an activity,
+ * authors become agents and every citation becomes a wasDerivedFrom relation
+ */
+export function buildProvDocument({ chunks, edges, report }: ProvInput): ProvDocument {
+  const doc: ProvDocument = { entities: [], activities: [], agents: [], derivations: [] };
+  const agents = new Map<string, string>();
+
+  const agentFor = (author?: string): string | undefined => {
+    if (!author) return undefined;
+    if (!agents.has(author)) {
+      const id = `agent:${localName(author)}`;
+      agents.set(author, id);
+      doc.agents.push({ id, label: author });
+    }
+    return agents.get(author);
+  };
+
+  for (const chunk of chunks) {
+    const id = `chunk:${localName(chunk.chunk_id)}`;
+    const activityId = `activity:author_${localName(chunk.chunk_id)}`;
+    const agent = agentFor(chunk.author);
+    const attributes: Record<string, string | number> = {
+      "trace:chunkId": chunk.chunk_id,
+      "trace:stage": chunk.stage,
+      "trace:chunkType": chunk.type,
+    };
+    if (chunk.source_title) attributes["trace:sourceTitle"] = chunk.source_title;
+    if (chunk.document) {
+      attributes["trace:documentId"] = chunk.document.document_id;
+      attributes["trace:documentTitle"] = chunk.document.title;
+      if (chunk.document.url) attributes["trace:documentUrl"] = chunk.document.url;
+      if (chunk.document.file_hash) attributes["trace:fileHash"] = chunk.document.file_hash;
+    }
+    const locator = formatLocator(chunk);
+    if (locator) attributes["trace:locator"] = locator;
+    if (chunk.status) attributes["trace:status"] = chunk.status;
+    if (chunk.superseded_by) {
+      attributes["trace:supersededBy"] = chunk.superseded_by;
+    }
+
+    doc.entities.push({
+      id,
+      label: chunk.source_title ?? chunk.chunk_id,
+      value: chunk.text,
+      attributes,
+      generated_by: activityId,
+      generated_at: chunk.created_at,
+      attributed_to: agent,
+    });
+    doc.activities.push({
+      id: activityId,
+      label: `Authoring of ${chunk.chunk_id}`,
+      ended_at: chunk.created_at,
+      used: edges
+        .filter((edge) => edge.source_chunk_id === chunk.chunk_id)
+        .map((edge) => `chunk:${localName(edge.target_chunk_id)}`),
+      associated_with: agent,
+    });
+  }
+
+  for (const edge of edges) {
+    doc.derivations.push({
+      generated: `chunk:${localName(edge.source_chunk_id)}`,
+      used: `chunk:${localName(edge.target_chunk_id)}`,
+      marker: edge.citation_marker,
+      quote: edge.quote?.text,
+      relationship:
+        edge.relationship_type && edge.relationship_type !== "cites"
+          ? edge.relationship_type
+          : undefined,
+    });
+  }
+
+  if (report) {
+    const id = `report:${report.id}`;
+    const activityId = `activity:author_report_${report.id}`;
+    const agent = agentFor(report.author);
+    const used = report.citations.map(
+      (citation) => `chunk:${localName(citation.chunk_id)}`
+    );
+
+    doc.entities.push({
+      id,
+      label: report.title,
+      attributes: { "trace:reportId": report.id },
+      generated_by: activityId,
+      generated_at: report.created_at,
+      attributed_to: agent,
+    });
+    doc.activities.push({
+      id: activityId,
+      label: `Authoring of ${report.title}`,
+      ended_at: report.created_at,
+      used,
+      associated_with: agent,
+    });
+    report.citations.forEach((citation, index) => {
+      doc.derivations.push({ generated: id, used: used[index], marker: citation.marker });
+    });
+  }
+
+  return doc;
+}
+
+/**
+ * PROV-JSON (https://www.w3.org/submissions/prov-json/)
+ */
+export function toProvJson(doc: ProvDocument): Record<string, unknown> {
+  const entity: Record<string, Record<string, unknown>> = {};
+  const activity: Record<string, Record<string, unknown>> = {};
+  const agent: Record<string, Record<string, unknown>> = {};
+  const wasGeneratedBy: Record<string, Record<string, unknown>> = {};
+  const used: Record<string, Record<string, unknown>> = {};
+  const wasAssociatedWith: Record<string, Record<string, unknown>> = {};
+  const wasAttributedTo: Record<string, Record<string, unknown>> = {};
+  const wasDerivedFrom: Record<string, Record<string, unknown>> = {};
+  let blank = 0;
+  const nextId = () => `_:n${++blank}`;
+
+  for (const item of doc.entities) {
+    entity[item.id] = {
+      "prov:label": item.label,
+      ...(item.value !== undefined && { "prov:value": item.value }),
+      ...item.attributes,
+    };
+    wasGeneratedBy[nextId()] = {
+      "prov:entity": item.id,
+      "prov:activity": item.generated_by,
+      ...(item.generated_at && { "prov:time": item.generated_at }),
+    };
+    if (item.attributed_to) {
+      wasAttributedTo[nextId()] = {
+        "prov:entity": item.id,
+        "prov:agent": item.attributed_to,
+      };
+    }
+  }
+
+  for (const item of doc.activities) {
+    activity[item.id] = {
+      "prov:label": item.label,
+      ...(item.ended_at && { "prov:endTime": item.ended_at }),
+    };
+    for (const usedEntity of item.used) {
+      used[nextId()] = { "prov:activity": item.id, "prov:entity": usedEntity };
+    }
+    if (item.associated_with) {
+      wasAssociatedWith[nextId()] = {
+        "prov:activity": item.id,
+        "prov:agent": item.associated_with,
+      };
+    }
+  }
+
+  for (const item of doc.agents) {
+    agent[item.id] = {
+      "prov:type": { $: "prov:Person", type: "prov:QUALIFIED_NAME" },
+      "prov:label": item.label,
+    };
+  }
+
+  for (const item of doc.derivations) {
+    wasDerivedFrom[nextId()] = {
+      "prov:generatedEntity": item.generated,
+      "prov:usedEntity": item.used,
+      ...(item.marker && { "trace:citationMarker": item.marker }),
+      ...(item.quote && { "trace:quote": item.quote }),
+      ...(item.relationship && { "trace:relationshipType": item.relationship }),
+    };
+  }
+
+  return {
+    prefix: Object.fromEntries(
+      Object.entries(PROV_NAMESPACES).filter(([name]) => name !== "prov")
+    ),
+    entity,
+    activity,
+    agent,
+    wasGeneratedBy,
+    used,
+    wasAssociatedWith,
+    wasAttributedTo,
+    wasDerivedFrom,
+  };
+}
+
+/**
+ * PROV-O in Turtle, with a qualified derivation carrying each citation marker
+ */
+export function toProvTurtle(doc: ProvDocument): string {
+  const lines = Object.entries(PROV_NAMESPACES).map(
+    ([name, iri]) => `@prefix ${name}: <${iri}> .`
+  );
+
+  for (const item of doc.entities) {
+    const statements = [
+      "a prov:Entity",
+      `rdfs:label ${literal(item.label)}`,
+      ...(item.value !== undefined ? [`prov:value ${literal(item.value)}`] : []),
+      ...Object.entries(item.attributes).map(
+        ([name, value]) => `${name} ${literal(value)}`
+      ),
+      `prov:wasGeneratedBy ${item.generated_by}`,
+      ...(item.generated_at
+        ? [`prov:generatedAtTime ${literal(item.generated_at)}`]
+        : []),
+      ...(item.attributed_to ? [`prov:wasAttributedTo ${item.attributed_to}`] : []),
+      ...doc.derivations
+        .filter((derivation) => derivation.generated === item.id)
+        .flatMap((derivation) => [
+          `prov:wasDerivedFrom ${derivation.used}`,
+          `prov:qualifiedDerivation [ a prov:Derivation ; prov:entity ${derivation.used}${
+            derivation.marker
+              ? ` ; trace:citationMarker ${literal(derivation.marker)}`
+              : ""
+          }${derivation.quote ? ` ; trace:quote ${literal(derivation.quote)}` : ""}${
+            derivation.relationship
+              ? ` ; trace:relationshipType ${literal(derivation.relationship)}`
+              : ""
+          } ]`,
+          // PROV's own subproperty of wasDerivedFrom for quotation
+          ...(derivation.relationship === "quotes"
+            ? [`prov:wasQuotedFrom ${derivation.used}`]
+            : []),
+        ]),
+    ];
+    lines.push("", subject(item.id, statements));
+  }
+
+  for (const item of doc.activities) {
+    const statements = [
+      "a prov:Activity",
+      `rdfs:label ${literal(item.label)}`,
+      ...(item.ended_at ? [`prov:endedAtTime ${literal(item.ended_at)}`] : []),
+      ...item.used.map((usedEntity) => `prov:used ${usedEntity}`),
+      ...(item.associated_with
+        ? [`prov:wasAssociatedWith ${item.associated_with}`]
+        : []),
+    ];
+    lines.push("", subject(item.id, statements));
+  }
+
+  for (const item of doc.agents) {
+    lines.push(
+      "",
+      subject(item.id, ["a prov:Agent, prov:Person", `rdfs:label ${literal(item.label)}`])
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Prefixed-name local part for an id: every character outside [A-Za-z0-9_-] (and a leading "-")
+ * is percent-encoded, which Turtle allows in local names and which keeps distinct ids such as
+ * "a.b" and "a_b" distinct
+ */
+export function localName(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]|^-/gu, (char) =>
+    Array.from(
+      new TextEncoder().encode(char),
+      (byte) => `%${byte.toString(16).toUpperCase().padStart(2, "0")}`
+    ).join("")
+  );
+}
+
+function subject(id: string, statements: string[]): string {
+  return `${id}\n    ${statements.join(" ;\n    ")} .`;
+}
+
+function literal(value: string | number): string {
+  if (typeof value === "number") return String(value);
+
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r");
+  // ISO timestamps are typed so PROV tools can order them
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value)
+    ? `"${escaped}"^^xsd:dateTime`
+    : `"${escaped}"`;
+}
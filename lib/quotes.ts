@@ -0,0 +1,59 @@
+/**
+ * Span-level citation helpers: locate a quoted passage in the cited chunk's text
+ *
+ * Input data sources: Chunk text, CitationQuote from a citations row or a References entry
+ * Output destinations: Quote checks for ingest, citation lint, LineageTree and CitationPopover highlighting
+ * Dependencies: lib/types.ts (CitationQuote, QuoteCheck)
+ * Key exports: checkQuote, describeQuoteCheck
+ * Side effects: None
+ */
+
+import type { CitationQuote, QuoteCheck } from "./types";
+
+/**
+ * Is the quote still at its recorded offsets? If not, is it anywhere else in the text?
+ * A relocated quote resolves to the occurrence closest to the recorded start.
+ */
+export function checkQuote(text: string, quote: CitationQuote): QuoteCheck {
+  const { start, end } = quote;
+  if (
+    start !== null &&
+    end !== null &&
+    text.slice(start, end) === quote.text &&
+    quote.text.length > 0
+  ) {
+    return { status: "exact", start, end };
+  }
+
+  const occurrences: number[] = [];
+  for (
+    let index = text.indexOf(quote.text);
+    index !== -1 && quote.text.length > 0;
+    index = text.indexOf(quote.text, index + 1)
+  ) {
+    occurrences.push(index);
+  }
+  if (occurrences.length === 0) {
+    return { status: "missing" };
+  }
+
+  const closest = occurrences.reduce((best, index) =>
+    Math.abs(index - (start ?? 0)) < Math.abs(best - (start ?? 0)) ? index : best
+  );
+  return {
+    status: start === null ? "exact" : "relocated",
+    start: closest,
+    end: closest + quote.text.length,
+  };
+}
+
+export function describeQuoteCheck(check: QuoteCheck): string {
+  switch (check.status) {
+    case "exact":
+      return "Quoted passage";
+    case "relocated":
+      return "Quoted passage (found away from its recorded offsets)";
+    case "missing":
+      return "Quoted passage is no longer in this chunk's text";
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { buildLineageTree } from "./lineage-graph";
+import {
+  filterLineageGraph,
+  parseMarkerRelationships,
+  relationshipPolarity,
+} from "./relationships";
+import { lineageGraph, outline } from "./test-fixtures";
+import type { LineageEdge, RelationshipType } from "./types";
+
+function edge(
+  source: string,
+  target: string,
+  marker: string,
+  relationship_type: RelationshipType = "cites"
+): LineageEdge {
+  return { source_chunk_id: source, target_chunk_id: target, citation_marker: marker, relationship_type };
+}
+
+describe("parseMarkerRelationships", () => {
+  it("reads suffixes and leaves plain markers out", () => {
+    expect(parseMarkerRelationships("a[1:supports] b[2] c[3:CONTRADICTS]")).toEqual({
+      relationships: { "[1]": "supports", "[3]": "contradicts" },
+      errors: [],
+    });
+  });
+
+  it("rejects unknown types and a marker given two types", () => {
+    const { relationships, errors } = parseMarkerRelationships("a[1:refutes] b[2:supports] c[2:extends]");
+
+    expect(relationships).toEqual({ "[2]": "supports" });
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('unknown relationship "refutes"');
+    expect(errors[1]).toBe("[2] is marked both supports and extends in the same chunk");
+  });
+});
+
+describe("relationshipPolarity", () => {
+  it("maps types to polarity, treating a missing type as neutral", () => {
+    expect(relationshipPolarity("extends")).toBe("supporting");
+    expect(relationshipPolarity("contradicts")).toBe("contradicting");
+    expect(relationshipPolarity(undefined)).toBe("neutral");
+  });
+});
+
+describe("filterLineageGraph", () => {
+  // root cites a and b, both of which cite raw; only root -> b is contradicting
+  const shared = lineageGraph(
+    ["root", "a", "b", "raw"],
+    [
+      edge("root", "a", "[1]"),
+      edge("root", "b", "[2]", "contradicts"),
+      edge("a", "raw", "[1]"),
+      edge("b", "raw", "[1]"),
+    ]
+  );
+
+  it("returns the graph unchanged for all", () => {
+    expect(filterLineageGraph(shared, "all")).toBe(shared);
+  });
+
+  it("expands a shared chunk under the surviving branch instead of leaving a dangling repeat", () => {
+    // Unfiltered, raw is expanded under a and only repeated under b
+    expect(outline(buildLineageTree(shared))).toEqual(["a[raw]", "b[raw*]"]);
+
+    const filtered = filterLineageGraph(shared, "contradicting");
+    expect(outline(buildLineageTree(filtered))).toEqual(["b[raw]"]);
+    expect(filtered.nodes.map((node) => node.chunk_id)).toEqual(["root", "b", "raw"]);
+  });
+
+  it("keeps the path to a deeper matching edge and everything below it", () => {
+    const deep = lineageGraph(
+      ["root", "a", "b", "c", "d", "x"],
+      [
+        edge("root", "a", "[1]"),
+        edge("a", "b", "[1]", "supports"),
+        edge("b", "c", "[1]"),
+        edge("c", "d", "[1]", "contradicts"),
+        edge("root", "x", "[2]"),
+      ]
+    );
+
+    expect(outline(buildLineageTree(filterLineageGraph(deep, "contradicting")))).toEqual(["a[b[c[d]]]"]);
+  });
+
+  it("counts neutral citations as support and cuts a branch at any contradicting edge on it", () => {
+    const deep = lineageGraph(
+      ["root", "a", "b", "c", "d", "x"],
+      [
+        edge("root", "a", "[1]"),
+        edge("a", "b", "[1]", "supports"),
+        edge("b", "c", "[1]"),
+        edge("c", "d", "[1]", "contradicts"),
+        edge("root", "x", "[2]"),
+      ]
+    );
+
+    expect(outline(buildLineageTree(filterLineageGraph(deep, "supporting")))).toEqual(["a[b[c]]", "x"]);
+    expect(outline(buildLineageTree(filterLineageGraph(shared, "supporting")))).toEqual(["a[raw]"]);
+  });
+
+  it("drops everything when no edge contradicts", () => {
+    const agreeing = lineageGraph(["root", "a"], [edge("root", "a", "[1]", "supports")]);
+    const filtered = filterLineageGraph(agreeing, "contradicting");
+
+    expect(filtered.edges).toEqual([]);
+    expect(filtered.nodes.map((node) => node.chunk_id)).toEqual(["root"]);
+  });
+
+  it("terminates on cycles", () => {
+    const cyclic = lineageGraph(
+      ["root", "a", "b"],
+      [edge("root", "a", "[1]"), edge("a", "b", "[1]"), edge("b", "a", "[1]", "supports")]
+    );
+
+    expect(outline(buildLineageTree(filterLineageGraph(cyclic, "supporting")))).toEqual(["a[b[a*]]"]);
+  });
+
+  it("follows the dependents direction", () => {
+    const dependents = lineageGraph(
+      ["raw", "a", "report"],
+      [edge("a", "raw", "[1]", "contradicts"), edge("report", "a", "[1]"), edge("report", "raw", "[2]")],
+      "dependents"
+    );
+
+    expect(outline(buildLineageTree(filterLineageGraph(dependents, "contradicting")))).toEqual(["a[report]"]);
+  });
+});
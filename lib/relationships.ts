@@ -0,0 +1,183 @@
+/**
+ * Citation relationship vocabulary and evidence filtering over lineage graphs
+ *
+ * Input data sources: relationship_type of citations rows, "[1:contradicts]" marker suffixes
+ * Output destinations: Ingest validation, citation lint, citation picker, LineageTree styling and filter
+ * Dependencies: lib/types.ts (RelationshipType, LineageGraph), lib/markdown-utils.ts (parseCitationMarkers)
+ * Key exports: RELATIONSHIP_TYPES, DEFAULT_RELATIONSHIP_TYPE, EVIDENCE_FILTERS, isRelationshipType,
+ *   parseMarkerRelationships, relationshipPolarity, filterLineageGraph, EvidenceFilter
+ * Side effects: None
+ */
+
+import { parseCitationMarkers } from "./markdown-utils";
+import type { LineageEdge, LineageGraph, RelationshipType } from "./types";
+
+export const RELATIONSHIP_TYPES: {
+  value: RelationshipType;
+  label: string;
+  description: string;
+  polarity: "supporting" | "contradicting" | "neutral";
+}[] = [
+  {
+    value: "cites",
+    label: "Cites",
+    description: "Refers to the source without saying how it bears on the claim",
+    polarity: "neutral",
+  },
+  {
+    value: "supports",
+    label: "Supports",
+    description: "The source backs the claim",
+    polarity: "supporting",
+  },
+  {
+    value: "contradicts",
+    label: "Contradicts",
+    description: "The source runs against the claim (counter-evidence)",
+    polarity: "contradicting",
+  },
+  {
+    value: "extends",
+    label: "Extends",
+    description: "The claim builds on the source's finding",
+    polarity: "supporting",
+  },
+  {
+    value: "quotes",
+    label: "Quotes",
+    description: "The claim reproduces the source's wording",
+    polarity: "supporting",
+  },
+];
+
+export const DEFAULT_RELATIONSHIP_TYPE: RelationshipType = "cites";
+
+export type EvidenceFilter = "all" | "supporting" | "contradicting";
+
+export const EVIDENCE_FILTERS: { value: EvidenceFilter; label: string }[] = [
+  { value: "all", label: "All evidence" },
+  { value: "supporting", label: "Supporting & neutral" },
+  { value: "contradicting", label: "Contradicting" },
+];
+
+export function isRelationshipType(value: string): value is RelationshipType {
+  return RELATIONSHIP_TYPES.some((type) => type.value === value);
+}
+
+/**
+ * Relationship named by each marker's suffix in text ("[1:contradicts]" -> { "[1]": "contradicts" })
+ * Unknown types and a marker given two different types are errors; unsuffixed markers are omitted
+ */
+export function parseMarkerRelationships(text: string): {
+  relationships: Record<string, RelationshipType>;
+  errors: string[];
+} {
+  const relationships: Record<string, RelationshipType> = {};
+  const errors: string[] = [];
+
+  for (const { raw, marker, relationship } of parseCitationMarkers(text)) {
+    if (relationship === undefined) continue;
+    if (!isRelationshipType(relationship)) {
+      errors.push(
+        `${raw} uses unknown relationship "${relationship}" (expected ${RELATIONSHIP_TYPES.map((type) => type.value).join(", ")})`
+      );
+    } else if (relationships[marker] && relationships[marker] !== relationship) {
+      errors.push(
+        `${marker} is marked both ${relationships[marker]} and ${relationship} in the same chunk`
+      );
+    } else {
+      relationships[marker] = relationship;
+    }
+  }
+
+  return { relationships, errors };
+}
+
+export function relationshipPolarity(
+  type: RelationshipType | undefined
+): (typeof RELATIONSHIP_TYPES)[number]["polarity"] {
+  return (
+    RELATIONSHIP_TYPES.find((entry) => entry.value === type)?.polarity ?? "neutral"
+  );
+}
+
+/**
+ * "supporting" keeps the paths on which no edge contradicts (a neutral "cites" counts as support, and
+ * a contradicting edge anywhere below a supporting one still cuts its branch). "contradicting" keeps
+ * every contradicting edge with everything below it, plus the edges on the way to one.
+ * Filtering the graph before buildLineageTree (rather than the finished tree) means a chunk's first
+ * surviving occurrence is the one that gets expanded.
+ */
+export function filterLineageGraph(
+  graph: LineageGraph,
+  filter: EvidenceFilter
+): LineageGraph {
+  if (filter === "all") return graph;
+
+  // Tree direction: parent -> child, whichever way the graph was walked
+  const parentOf = (edge: LineageEdge) =>
+    graph.direction === "citations" ? edge.source_chunk_id : edge.target_chunk_id;
+  const childOf = (edge: LineageEdge) =>
+    graph.direction === "citations" ? edge.target_chunk_id : edge.source_chunk_id;
+  const contradicts = (edge: LineageEdge) =>
+    relationshipPolarity(edge.relationship_type) === "contradicting";
+
+  const kept =
+    filter === "supporting"
+      ? graph.edges.filter((edge) => !contradicts(edge))
+      : contradictingBranches(graph.edges, parentOf, childOf, contradicts);
+
+  // Only what the root still reaches through kept edges
+  const reached = new Set([graph.root_chunk_id]);
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const edge of kept) {
+      if (reached.has(parentOf(edge)) && !reached.has(childOf(edge))) {
+        reached.add(childOf(edge));
+        grew = true;
+      }
+    }
+  }
+
+  return {
+    ...graph,
+    nodes: graph.nodes.filter((node) => reached.has(node.chunk_id)),
+    edges: kept.filter((edge) => reached.has(parentOf(edge))),
+  };
+}
+
+// Contradicting edges, everything below them and the edges from which one can be reached
+function contradictingBranches(
+  edges: LineageEdge[],
+  parentOf: (edge: LineageEdge) => string,
+  childOf: (edge: LineageEdge) => string,
+  contradicts: (edge: LineageEdge) => boolean
+): LineageEdge[] {
+  const matching = edges.filter(contradicts);
+
+  const below = new Set(matching.map(childOf));
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const edge of edges) {
+      if (below.has(parentOf(edge)) && !below.has(childOf(edge))) {
+        below.add(childOf(edge));
+        grew = true;
+      }
+    }
+  }
+
+  const leadsToMatch = new Set(matching.map(parentOf));
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const edge of edges) {
+      if (leadsToMatch.has(childOf(edge)) && !leadsToMatch.has(parentOf(edge))) {
+        leadsToMatch.add(parentOf(edge));
+        grew = true;
+      }
+    }
+  }
+
+  return edges.filter(
+    (edge) => contradicts(edge) || below.has(parentOf(edge)) || leadsToMatch.has(childOf(edge))
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Citation-aware diffs between two report revisions: text lines, References entries and raw sources
+ *
+ * Input data sources: Markdown of two report revisions, raw chunk ids reached by each revision's lineage
+ * Output destinations: ReportDiff assembled by actions/reports.ts for /reports/[id]/history
+ * Dependencies: lib/markdown-utils.ts (References and marker parsing), lib/types.ts (diff types)
+ * Key exports: diffLines, diffCitations, diffRawSources, citedMarkers
+ * Side effects: None
+ */
+
+import {
+  extractCitationMarkers,
+  parseCitationMap,
+  splitReportIntoParagraphs,
+} from "./markdown-utils";
+import type { CitationChange, RawSourceChange, ReportDiffLine } from "./types";
+
+/**
+ * Line diff from the longest common subsequence; removals come before additions in each changed run
+ */
+export function diffLines(from: string, to: string): ReportDiffLine[] {
+  const a = from.split("\n");
+  const b = to.split("\n");
+
+  // common[i][j]: LCS length of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] =
+        a[i] === b[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: ReportDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: "unchanged", text: a[i], from_line: i + 1, to_line: j + 1 });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && common[i + 1][j] >= common[i][j + 1])) {
+      lines.push({ kind: "removed", text: a[i], from_line: i + 1 });
+      i++;
+    } else {
+      lines.push({ kind: "added", text: b[j], to_line: j + 1 });
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Marker -> chunk_id for every marker a revision uses, in the body or in References
+ * (a body marker without a References entry maps to null)
+ */
+export function citedMarkers(markdown: string): Map<string, string | null> {
+  const references = parseCitationMap(markdown);
+  const markers = new Map<string, string | null>(Object.entries(references));
+  for (const marker of splitReportIntoParagraphs(markdown).flatMap(extractCitationMarkers)) {
+    if (!markers.has(marker)) markers.set(marker, null);
+  }
+  return markers;
+}
+
+/**
+ * Markers added or removed between two revisions, and markers whose reference now points
+ * to a different chunk_id; sorted by marker number
+ */
+export function diffCitations(fromMarkdown: string, toMarkdown: string): CitationChange[] {
+  const from = citedMarkers(fromMarkdown);
+  const to = citedMarkers(toMarkdown);
+  const changes: CitationChange[] = [];
+
+  for (const marker of new Set([...from.keys(), ...to.keys()])) {
+    const fromChunkId = from.get(marker);
+    const toChunkId = to.get(marker);
+    if (fromChunkId === undefined) {
+      changes.push({ marker, kind: "added", to_chunk_id: toChunkId ?? undefined });
+    } else if (toChunkId === undefined) {
+      changes.push({ marker, kind: "removed", from_chunk_id: fromChunkId ?? undefined });
+    } else if (fromChunkId !== toChunkId) {
+      changes.push({
+        marker,
+        kind: "repointed",
+        from_chunk_id: fromChunkId ?? undefined,
+        to_chunk_id: toChunkId ?? undefined,
+      });
+    }
+  }
+
+  return changes.sort((a, b) => markerNumber(a.marker) - markerNumber(b.marker));
+}
+
+/**
+ * Raw chunks only the newer revision reaches (added), only the older one reaches (removed),
+ * and both reach (unchanged); references label each chunk
+ */
+export function diffRawSources(
+  fromSources: string[],
+  toSources: string[],
+  references: Map<string, string | null>
+): RawSourceChange[] {
+  const from = new Set(fromSources);
+  const to = new Set(toSources);
+  const order: Record<RawSourceChange["kind"], number> = {
+    added: 0,
+    removed: 1,
+    unchanged: 2,
+  };
+
+  return [...new Set([...from, ...to])]
+    .map((chunkId): RawSourceChange => ({
+      chunk_id: chunkId,
+      kind: !from.has(chunkId) ? "added" : !to.has(chunkId) ? "removed" : "unchanged",
+      reference: references.get(chunkId) ?? null,
+    }))
+    .sort((a, b) => order[a.kind] - order[b.kind] || a.chunk_id.localeCompare(b.chunk_id));
+}
+
+function markerNumber(marker: string): number {
+  return parseInt(marker.slice(1), 10);
+}
@@ -0,0 +1,49 @@
+/**
+ * Utilities for building full-text queries and rendering highlighted search snippets
+ *
+ * Input data sources: User search text, snippets returned by the FTS5 index
+ * Output destinations: FTS5 MATCH expressions, highlight segments for rendering
+ * Dependencies: None (pure functions)
+ * Key exports: HIGHLIGHT_START, HIGHLIGHT_END, toFtsQuery, splitHighlights
+ * Side effects: None
+ */
+
+// Control characters wrap matched terms in snippets, so no HTML ever needs to be injected
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+/**
+ * Turn free text into a safe FTS5 expression: every word must match (prefix match)
+ * Example: 'cloud "adoption' -> '"cloud"* "adoption"*'
+ * Returns null when the text has no searchable words
+ */
+export function toFtsQuery(text: string): string | null {
+  const terms = text.match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+/**
+ * Split a snippet into plain and highlighted segments
+ */
+export function splitHighlights(
+  snippet: string
+): { text: string; highlighted: boolean }[] {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}([\\s\\S]*?)${HIGHLIGHT_END}`, "g");
+
+  let lastIndex = 0;
+  let match;
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: snippet.slice(lastIndex, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return segments;
+}
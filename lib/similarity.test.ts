@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { buildTermWeights, tokenize, type CorpusStats } from "./similarity";
+
+const CORPUS = [
+  { chunk_id: "a", text: "Enterprise adoption reached 78% in Q3." },
+  { chunk_id: "b", text: "Revenue grew 24%, driven by enterprise adoption[1]." },
+  { chunk_id: "c", text: "Churn fell as enterprise renewals rose." },
+];
+
+function byChunk(weights: { chunk_id: string; term: string; weight: number }[]) {
+  const vectors = new Map<string, Map<string, number>>();
+  for (const { chunk_id, term, weight } of weights) {
+    vectors.set(chunk_id, (vectors.get(chunk_id) ?? new Map()).set(term, weight));
+  }
+  return vectors;
+}
+
+// What the index would report for the given chunks, as getTermStats does for chunk_terms
+function statsOf(chunks: { chunk_id: string; text: string }[]): (terms: string[]) => CorpusStats {
+  return (terms) => ({
+    size: chunks.length,
+    documentFrequency: Object.fromEntries(
+      terms.map((term) => [term, chunks.filter((chunk) => tokenize(chunk.text).includes(term)).length])
+    ),
+  });
+}
+
+describe("tokenize", () => {
+  it("drops citation markers, stopwords and single characters and keeps numbers", () => {
+    expect(tokenize("The Revenue grew 24% in Q3[1:supports], a record.")).toEqual([
+      "revenue",
+      "grew",
+      "24",
+      "q3",
+      "record",
+    ]);
+  });
+
+  it("returns nothing for text without indexable words", () => {
+    expect(tokenize("")).toEqual([]);
+    expect(tokenize("It is what it is[1].")).toEqual([]);
+  });
+});
+
+describe("buildTermWeights", () => {
+  it("returns no weights for an empty corpus", () => {
+    expect(buildTermWeights([])).toEqual([]);
+    expect(buildTermWeights([], statsOf(CORPUS))).toEqual([]);
+  });
+
+  it("leaves out chunks without indexable terms instead of dividing by zero", () => {
+    const weights = buildTermWeights([{ chunk_id: "empty", text: "[1]" }, ...CORPUS]);
+
+    expect(weights.some((row) => row.chunk_id === "empty")).toBe(false);
+    expect(weights.every((row) => Number.isFinite(row.weight))).toBe(true);
+  });
+
+  it("scales each chunk to unit length", () => {
+    for (const vector of byChunk(buildTermWeights(CORPUS)).values()) {
+      const length = Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+      expect(length).toBeCloseTo(1, 10);
+    }
+  });
+
+  it("weights terms shared by every chunk below rarer ones", () => {
+    const a = byChunk(buildTermWeights(CORPUS)).get("a")!;
+
+    expect(a.get("enterprise")!).toBeLessThan(a.get("78")!);
+  });
+
+  it("weights a chunk joining an index as a full rebuild would", () => {
+    const full = byChunk(buildTermWeights(CORPUS)).get("c");
+    const added = byChunk(buildTermWeights([CORPUS[2]], statsOf(CORPUS.slice(0, 2)))).get("c");
+
+    expect(added).toEqual(full);
+  });
+
+  it("asks the index only about the new chunks' terms", () => {
+    const asked: string[][] = [];
+    buildTermWeights([CORPUS[2]], (terms) => {
+      asked.push(terms);
+      return { size: 0, documentFrequency: {} };
+    });
+
+    expect(asked).toEqual([["churn", "fell", "enterprise", "renewals", "rose"]]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Local TF-IDF similarity index over chunk text: tokenizing and term weighting, no network or model
+ *
+ * Input data sources: chunk_id and text of every chunk in the knowledge base, or of new chunks plus index statistics
+ * Output destinations: chunk_terms rows (db/index.ts#replaceChunkTerms and #insertChunkTerms), related-chunk settings
+ *   for actions/related.ts
+ * Dependencies: lib/markdown-utils.ts (CITATION_MARKER_PATTERN)
+ * Key exports: DEFAULT_RELATED_LIMIT, MIN_RELATED_SCORE, CorpusStats, tokenize, buildTermWeights
+ * Side effects: None
+ */
+
+import { CITATION_MARKER_PATTERN } from "./markdown-utils";
+
+export const DEFAULT_RELATED_LIMIT = 5;
+// Cosine similarity below this is treated as unrelated
+export const MIN_RELATED_SCORE = 0.1;
+
+const STOPWORDS = new Set(
+  (
+    "a about above after again against all also am an and any are as at be because been before being " +
+    "below between both but by can could did do does doing down during each few for from further had " +
+    "has have having he her here hers him his how i if in into is it its itself just me more most my " +
+    "no nor not now of off on once only or other our ours out over own same she should so some such " +
+    "than that the their theirs them then there these they this those through to too under until up " +
+    "very was we were what when where which while who whom why will with would you your yours " +
+    // Reporting verbs and connectives common to every insight
+    "however indicates indicate shows show suggests suggest reveals reveal demonstrates demonstrate"
+  ).split(" ")
+);
+
+/**
+ * Lowercase words and numbers of a chunk's text, without citation markers, stopwords or single characters
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .replace(CITATION_MARKER_PATTERN, " ")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu);
+  return (words ?? []).filter((word) => word.length > 1 && !STOPWORDS.has(word));
+}
+
+/**
+ * Chunks already in the index, for weighting new chunks without recomputing the old ones
+ */
+export interface CorpusStats {
+  size: number;
+  documentFrequency: Record<string, number>;
+}
+
+/**
+ * TF-IDF weight of every term in every chunk, with each chunk's vector scaled to unit
+ * length so the dot product of two chunks is their cosine similarity.
+ * Term frequency is sublinear (1 + ln tf) and idf is smoothed: ln((1 + n) / (1 + df)) + 1.
+ * Without corpusStats the chunks are the whole corpus; with it they join an existing index,
+ * which is asked only about the terms the chunks contain.
+ */
+export function buildTermWeights(
+  chunks: { chunk_id: string; text: string }[],
+  corpusStats?: (terms: string[]) => CorpusStats
+): { chunk_id: string; term: string; weight: number }[] {
+  const counts = chunks.map((chunk) => {
+    const termCounts = new Map<string, number>();
+    for (const term of tokenize(chunk.text)) {
+      termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+    }
+    return { chunk_id: chunk.chunk_id, termCounts };
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const { termCounts } of counts) {
+    for (const term of termCounts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const corpus = corpusStats?.([...documentFrequency.keys()]) ?? { size: 0, documentFrequency: {} };
+  const size = corpus.size + chunks.length;
+
+  return counts.flatMap(({ chunk_id, termCounts }) => {
+    const weights = [...termCounts].map(([term, count]) => {
+      const df = documentFrequency.get(term)! + (corpus.documentFrequency[term] ?? 0);
+      const idf = Math.log((1 + size) / (1 + df)) + 1;
+      return { term, weight: (1 + Math.log(count)) * idf };
+    });
+    const norm = Math.sqrt(weights.reduce((sum, { weight }) => sum + weight * weight, 0));
+    return weights.map(({ term, weight }) => ({ chunk_id, term, weight: weight / norm }));
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Formatted source references for raw chunks: document metadata plus where in it the excerpt sits
+ *
+ * Input data sources: Chunk locator columns and its joined SourceDocument
+ * Output destinations: Source lines in CitationPopover, LineageTree and the HTML audit export
+ * Dependencies: lib/types.ts (Chunk)
+ * Key exports: formatLocator, formatSourceReference
+ * Side effects: None
+ */
+
+import type { Chunk } from "./types";
+
+type LocatedChunk = Pick<
+  Chunk,
+  "source_title" | "document" | "locator_page" | "locator_section" | "locator_question"
+>;
+
+/**
+ * "p. 12, § 3.2 Regional Revenue, Q7" (null when the chunk has no locator)
+ */
+export function formatLocator(chunk: LocatedChunk): string | null {
+  const parts = [
+    chunk.locator_page != null && `p. ${chunk.locator_page}`,
+    chunk.locator_section && `§ ${chunk.locator_section}`,
+    chunk.locator_question && chunk.locator_question,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+/**
+ * Publisher. "Title" (Mon D, YYYY), locator
+ * Falls back to the chunk's free-text source_title when it has no document.
+ */
+export function formatSourceReference(chunk: LocatedChunk): string | null {
+  const locator = formatLocator(chunk);
+  const document = chunk.document;
+  if (!document) {
+    if (!chunk.source_title) return null;
+    return locator ? `${chunk.source_title}, ${locator}` : chunk.source_title;
+  }
+
+  const published = document.published_at ? formatPublished(document.published_at) : null;
+  return [
+    document.publisher && `${document.publisher}.`,
+    `"${document.title}"${published ? ` (${published})` : ""}${locator ? "," : "."}`,
+    locator && `${locator}.`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function formatPublished(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        timeZone: "UTC",
+      });
+}
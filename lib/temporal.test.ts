@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkTemporalIntegrity,
+  findOutOfOrderCitations,
+  formatAge,
+  parseTimestamp,
+} from "./temporal";
+import { lineageGraph, testChunk } from "./test-fixtures";
+import type { Chunk, LineageEdge } from "./types";
+
+function insight(chunkId: string, created_at?: string): Chunk {
+  return testChunk(chunkId, { created_at });
+}
+
+function raw(chunkId: string, created_at?: string): Chunk {
+  return testChunk(chunkId, { stage: 0, type: "raw", created_at });
+}
+
+// One edge per [source, target] pair, numbered [1], [2], ... in order
+function cites(pairs: [string, string][]): LineageEdge[] {
+  return pairs.map(([source, target], index) => ({
+    source_chunk_id: source,
+    target_chunk_id: target,
+    citation_marker: `[${index + 1}]`,
+  }));
+}
+
+describe("parseTimestamp", () => {
+  it("parses ISO dates and returns null for missing or invalid values", () => {
+    expect(parseTimestamp("2024-10-01T00:00:00Z")).toBe(Date.UTC(2024, 9, 1));
+    expect(parseTimestamp(undefined)).toBeNull();
+    expect(parseTimestamp("")).toBeNull();
+    expect(parseTimestamp("last week")).toBeNull();
+  });
+});
+
+describe("findOutOfOrderCitations", () => {
+  it("flags a citation of a chunk created after the citing chunk", () => {
+    const lineage = lineageGraph(
+      [
+        insight("insight", "2024-10-01T00:00:00Z"),
+        raw("raw_newer", "2024-10-02T00:00:00Z"),
+        raw("raw_older", "2024-09-01T00:00:00Z"),
+      ],
+      cites([["insight", "raw_newer"], ["insight", "raw_older"]])
+    );
+
+    expect(findOutOfOrderCitations(lineage)).toEqual([
+      {
+        source_chunk_id: "insight",
+        target_chunk_id: "raw_newer",
+        citation_marker: "[1]",
+        source_created_at: "2024-10-01T00:00:00Z",
+        target_created_at: "2024-10-02T00:00:00Z",
+      },
+    ]);
+  });
+
+  it("accepts equal timestamps and skips undated ends", () => {
+    const lineage = lineageGraph(
+      [
+        insight("insight", "2024-10-01T00:00:00Z"),
+        insight("same", "2024-10-01T00:00:00Z"),
+        raw("undated"),
+      ],
+      cites([["insight", "same"], ["insight", "undated"]])
+    );
+
+    expect(findOutOfOrderCitations(lineage)).toEqual([]);
+  });
+
+  it("compares instants, not strings, across time zones", () => {
+    const lineage = lineageGraph(
+      [
+        insight("insight", "2024-10-01T10:00:00+02:00"),
+        raw("raw", "2024-10-01T09:00:00Z"),
+      ],
+      cites([["insight", "raw"]])
+    );
+
+    expect(findOutOfOrderCitations(lineage)).toHaveLength(1);
+  });
+});
+
+describe("checkTemporalIntegrity", () => {
+  const now = new Date("2025-10-01T00:00:00Z");
+
+  it("ages the lineage by its newest raw source", () => {
+    const check = checkTemporalIntegrity(
+      lineageGraph(
+        [
+          insight("insight", "2025-09-01T00:00:00Z"),
+          raw("raw_a", "2024-06-01T00:00:00Z"),
+          raw("raw_b", "2024-09-01T00:00:00Z"),
+        ],
+        cites([["insight", "raw_a"], ["insight", "raw_b"]])
+      ),
+      365,
+      now
+    );
+
+    expect(check.newest_source).toEqual({
+      chunk_id: "raw_b",
+      date: "2024-09-01T00:00:00Z",
+      date_basis: "created_at",
+    });
+    expect(check.newest_source_age_days).toBe(395);
+    expect(check.stale).toBe(true);
+  });
+
+  it("dates a raw source by its document's publication, not when it was entered", () => {
+    const published = (chunkId: string, publishedAt: string | null) =>
+      testChunk(chunkId, {
+        stage: 0,
+        type: "raw",
+        created_at: "2025-09-15T00:00:00Z",
+        document: { document_id: `doc_${chunkId}`, title: chunkId, published_at: publishedAt },
+      });
+    const check = checkTemporalIntegrity(
+      lineageGraph(
+        [
+          insight("insight", "2025-09-20T00:00:00Z"),
+          published("raw_report", "2023-03-01"),
+          published("raw_memo", "n/a"),
+        ],
+        cites([["insight", "raw_report"], ["insight", "raw_memo"]])
+      ),
+      365,
+      now
+    );
+
+    // raw_memo's publication date does not parse, so it falls back to created_at
+    expect(check.newest_source).toEqual({ chunk_id: "raw_memo", date: "2025-09-15T00:00:00Z", date_basis: "created_at" });
+    expect(
+      checkTemporalIntegrity(
+        lineageGraph([insight("insight"), published("raw_report", "2023-03-01")], cites([["insight", "raw_report"]])),
+        365,
+        now
+      )
+    ).toMatchObject({
+      newest_source: { chunk_id: "raw_report", date: "2023-03-01", date_basis: "published_at" },
+      stale: true,
+    });
+  });
+
+  it("is not stale at exactly the threshold", () => {
+    const check = checkTemporalIntegrity(
+      lineageGraph(
+        [insight("insight"), raw("raw", "2025-07-03T00:00:00Z")],
+        cites([["insight", "raw"]])
+      ),
+      90,
+      now
+    );
+
+    expect(check.newest_source_age_days).toBe(90);
+    expect(check.stale).toBe(false);
+  });
+
+  it("reports undated chunks and no age when no raw source is dated", () => {
+    const check = checkTemporalIntegrity(
+      lineageGraph([insight("insight"), raw("raw_b"), raw("raw_a")], []),
+      365,
+      now
+    );
+
+    expect(check.undated).toEqual(["insight", "raw_a", "raw_b"]);
+    expect(check.newest_source).toBeNull();
+    expect(check.newest_source_age_days).toBeNull();
+    expect(check.stale).toBe(false);
+  });
+});
+
+describe("formatAge", () => {
+  it("splits days into years and days", () => {
+    expect(formatAge(1)).toBe("1 day");
+    expect(formatAge(45)).toBe("45 days");
+    expect(formatAge(365)).toBe("1 year");
+    expect(formatAge(731)).toBe("2 years, 1 day");
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Temporal integrity checks on citation lineage: cited chunks must predate their citers, and
+ * lineages should rest on reasonably recent raw sources
+ *
+ * Input data sources: LineageGraph (either direction) with created_at on every node's chunk and the
+ *   joined document (published_at) on raw chunks
+ * Output destinations: Temporal warnings in LineageSheet, out-of-order edges in LineageTimeline
+ * Dependencies: lib/types.ts (LineageGraph, OutOfOrderCitation, TemporalCheck)
+ * Key exports: STALENESS_THRESHOLDS, DEFAULT_MAX_SOURCE_AGE_DAYS, parseTimestamp, findOutOfOrderCitations,
+ *   checkTemporalIntegrity, formatAge
+ * Side effects: None
+ */
+
+import type { LineageGraph, OutOfOrderCitation, TemporalCheck } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const STALENESS_THRESHOLDS: { value: number; label: string }[] = [
+  { value: 90, label: "90 days" },
+  { value: 180, label: "6 months" },
+  { value: 365, label: "1 year" },
+  { value: 730, label: "2 years" },
+  { value: 1825, label: "5 years" },
+];
+
+export const DEFAULT_MAX_SOURCE_AGE_DAYS = 365;
+
+/**
+ * Milliseconds since the epoch, or null for a missing or unparseable created_at
+ */
+export function parseTimestamp(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Edges whose cited chunk was created after the chunk citing it; undated ends are skipped
+ */
+export function findOutOfOrderCitations(graph: LineageGraph): OutOfOrderCitation[] {
+  const created = new Map(
+    graph.nodes.flatMap((node) => {
+      const dated = datedAt(node.chunk.created_at);
+      return dated ? [[node.chunk_id, dated] as const] : [];
+    })
+  );
+
+  return graph.edges.flatMap((edge) => {
+    const source = created.get(edge.source_chunk_id);
+    const target = created.get(edge.target_chunk_id);
+    if (!source || !target || target.time <= source.time) {
+      return [];
+    }
+    return [
+      {
+        source_chunk_id: edge.source_chunk_id,
+        target_chunk_id: edge.target_chunk_id,
+        citation_marker: edge.citation_marker,
+        source_created_at: source.value,
+        target_created_at: target.value,
+      },
+    ];
+  });
+}
+
+/**
+ * Out-of-order citations anywhere in the lineage, plus whether its newest raw source
+ * is older than maxSourceAgeDays as of `now`. A raw source is dated by its document's
+ * published_at when that parses, otherwise by the chunk's created_at (when it was entered).
+ */
+export function checkTemporalIntegrity(
+  graph: LineageGraph,
+  maxSourceAgeDays: number = DEFAULT_MAX_SOURCE_AGE_DAYS,
+  now: Date = new Date()
+): TemporalCheck {
+  const undated = graph.nodes
+    .filter((node) => parseTimestamp(node.chunk.created_at) === null)
+    .map((node) => node.chunk_id)
+    .sort();
+
+  const sources = graph.nodes.flatMap((node) => {
+    if (node.chunk.type !== "raw") return [];
+    const published = datedAt(node.chunk.document?.published_at);
+    const dated = published ?? datedAt(node.chunk.created_at);
+    return dated
+      ? [
+          {
+            chunk_id: node.chunk_id,
+            date: dated.value,
+            date_basis: published ? ("published_at" as const) : ("created_at" as const),
+            time: dated.time,
+          },
+        ]
+      : [];
+  });
+  const newest =
+    sources.length === 0
+      ? null
+      : sources.reduce((best, source) => (source.time > best.time ? source : best));
+  const ageDays =
+    newest === null ? null : Math.floor((now.getTime() - newest.time) / DAY_MS);
+
+  return {
+    chunk_id: graph.root_chunk_id,
+    max_source_age_days: maxSourceAgeDays,
+    out_of_order: findOutOfOrderCitations(graph),
+    newest_source: newest && {
+      chunk_id: newest.chunk_id,
+      date: newest.date,
+      date_basis: newest.date_basis,
+    },
+    newest_source_age_days: ageDays,
+    stale: ageDays !== null && ageDays > maxSourceAgeDays,
+    undated,
+  };
+}
+
+// A timestamp together with its parsed time, or null when it is missing or unparseable
+function datedAt(value: string | null | undefined): { value: string; time: number } | null {
+  const time = parseTimestamp(value);
+  return value && time !== null ? { value, time } : null;
+}
+
+/**
+ * 45 -> "45 days", 400 -> "1 year, 35 days"
+ */
+export function formatAge(days: number): string {
+  const years = Math.floor(days / 365);
+  const rest = days % 365;
+  const dayText = `${rest} day${rest !== 1 ? "s" : ""}`;
+  if (years === 0) return dayText;
+  const yearText = `${years} year${years !== 1 ? "s" : ""}`;
+  return rest === 0 ? yearText : `${yearText}, ${dayText}`;
+}
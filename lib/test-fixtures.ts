@@ -0,0 +1,49 @@
+/**
+ * Lineage graph fixtures shared by the lib/*.test.ts suites
+ *
+ * Input data sources: Chunk ids or rows and citation edges written inline in tests
+ * Output destinations: LineageGraph values for the graph utilities under test, tree outlines for assertions
+ * Dependencies: lib/lineage-graph.ts (DEFAULT_MAX_DEPTH), lib/types.ts
+ * Key exports: testChunk, lineageGraph, outline
+ * Side effects: None
+ */
+
+import { DEFAULT_MAX_DEPTH } from "./lineage-graph";
+import type { Chunk, LineageEdge, LineageGraph, LineageNode } from "./types";
+
+/**
+ * A stage 1 insight whose text is its id, with any field overridden
+ */
+export function testChunk(chunkId: string, fields: Partial<Chunk> = {}): Chunk {
+  return { chunk_id: chunkId, text: chunkId, stage: 1, type: "insight", ...fields };
+}
+
+/**
+ * A graph rooted at the first chunk with every other chunk one level below it; ids become testChunk rows
+ */
+export function lineageGraph(
+  chunks: (Chunk | string)[],
+  edges: LineageEdge[] = [],
+  direction: LineageGraph["direction"] = "citations"
+): LineageGraph {
+  const rows = chunks.map((chunk) => (typeof chunk === "string" ? testChunk(chunk) : chunk));
+  return {
+    root_chunk_id: rows[0].chunk_id,
+    direction,
+    nodes: rows.map((chunk, index) => ({ chunk_id: chunk.chunk_id, depth: index === 0 ? 0 : 1, chunk })),
+    edges,
+    max_depth: DEFAULT_MAX_DEPTH,
+    truncated: false,
+    cycles: [],
+  };
+}
+
+/**
+ * "id" for expanded nodes, "id*" for repeats, children in brackets
+ */
+export function outline(nodes: LineageNode[]): string[] {
+  return nodes.map((node) => {
+    const label = node.is_repeat ? `${node.chunk_id}*` : node.chunk_id;
+    return node.children.length > 0 ? `${label}[${outline(node.children).join(",")}]` : label;
+  });
+}
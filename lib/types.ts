@@ -4,7 +4,13 @@
  * Input data sources: Database schema (content and citations tables)
  * Output destinations: Used throughout components and server actions
  * Dependencies: None (pure type definitions)
- * Key exports: Chunk, Citation, LineageNode, CitationMap
+ * Key exports: Chunk, SourceDocument, Citation, LineageEdge, RelationshipType, CitationQuote, QuoteCheck, LineageGraphNode,
+ *   LineageGraph, LineageNode, CitationMap, IngestReportInput, IngestReportResult, SupersedeChunkInput, SupersedeChunkResult,
+ *   SearchFilters, SearchResult, RelatedChunk, Report, ReportSummary, ReportRevision, ReportDiff, ReportDiffLine, CitationChange,
+ *   RawSourceChange, Figure, ClaimCheck, LintIssue, ProvFormat, FileExportResult,
+ *   ConfidenceRule, ConfidenceSource, ConfidenceResult, CitedChunkData, OutOfOrderCitation, TemporalCheck, ChunkListFilters,
+ *   ResolvedCitation, Pagination, ApiErrorCode, ApiErrorBody, ChunkResponse, ChunkListResponse, CitationListResponse,
+ *   LineageResponse
  * Side effects: None
  */
 
@@ -16,24 +22,340 @@ export interface Chunk {
   author?: string;
   created_at?: string;
   source_title?: string;
-  status?: string;
+  status?: string; // 'published' or 'superseded'
+  source_type?: string | null; // Raw chunks: 'survey', 'audit', 'forecast', ...
+  reliability?: number | null; // Manual 0..1 score; overrides the source_type default
+  document_id?: string | null; // Raw chunks: the source document they are excerpted from
+  locator_page?: number | null; // Where in that document the excerpt sits
+  locator_section?: string | null;
+  locator_question?: string | null; // Survey question number, e.g. "Q12"
+  superseded_by?: string | null; // Replacement chunk_id when status is 'superseded'
+  document?: SourceDocument | null; // Joined from documents when document_id is set
+}
+
+export interface SourceDocument {
+  document_id: string;
+  title: string;
+  publisher?: string | null;
+  url?: string | null;
+  published_at?: string | null; // ISO 8601 date
+  file_hash?: string | null; // e.g. "sha256:9f2c..."
+  document_type?: string | null;
 }
 
 export interface Citation {
   source_chunk_id: string;
   target_chunk_id: string;
   citation_marker?: string;
-  relationship_type: string;
+  relationship_type: RelationshipType;
+  confidence: number; // 0..1
+  quote?: string | null; // Supporting passage of the target chunk
+  quote_start?: number | null; // Its character offsets in the target chunk's text
+  quote_end?: number | null;
+}
+
+export interface LineageEdge {
+  source_chunk_id: string; // Citing chunk
+  target_chunk_id: string; // Cited chunk
+  citation_marker?: string; // Marker used on this specific edge
+  confidence?: number; // Citation confidence 0..1 (1 when unset)
+  quote?: CitationQuote; // Set for span-level citations
+  relationship_type?: RelationshipType; // 'cites' when unset
+}
+
+// How a citing chunk uses the chunk it cites; set with "[1:contradicts]" markers or the citation picker
+export type RelationshipType = "cites" | "supports" | "contradicts" | "extends" | "quotes";
+
+// The passage of a cited chunk a span-level citation points at
+export interface CitationQuote {
+  text: string;
+  start: number | null; // Offsets recorded when the citation was written
+  end: number | null;
+}
+
+export interface QuoteCheck {
+  status: "exact" | "relocated" | "missing"; // At the recorded offsets, elsewhere in the text, or gone
+  start?: number; // Where the quote actually is (unless missing)
+  end?: number;
+}
+
+export interface LineageGraphNode {
+  chunk_id: string;
+  depth: number; // Shortest hop distance from the root (root = 0)
+  chunk: Chunk;
+}
+
+export interface LineageGraph {
+  root_chunk_id: string;
+  direction: "citations" | "dependents"; // Walked down to sources or up to dependents
+  nodes: LineageGraphNode[]; // Each chunk exactly once, root included
+  edges: LineageEdge[]; // Each citation exactly once
+  max_depth: number; // Hop limit used for the traversal
+  truncated: boolean; // More levels exist beyond max_depth
+  cycles: string[][]; // Integrity errors: citation loops such as [a, b, a]
 }
 
+// Tree view of a LineageGraph: shared nodes are expanded once, later occurrences are repeats
 export interface LineageNode {
   chunk_id: string;
   depth: number;
   chunk: Chunk;
   citation_marker?: string;
+  quote?: CitationQuote; // Passage of this chunk quoted by its parent (citations direction only)
+  relationship_type?: RelationshipType; // Of the edge from the parent
+  is_repeat?: boolean; // Already shown above; rendered as "also cited above"
   children: LineageNode[];
 }
 
 export interface CitationMap {
   [citationNumber: string]: string; // e.g., "[1]" -> "raw_market_survey_chunk_1"
 }
+
+export interface IngestReportInput {
+  markdown: string; // Full report with inline markers and a References section
+  author?: string; // Falls back to the report's "Author:" line
+  chunkIdPrefix?: string; // Defaults to a prefix derived from the report title
+  reportId?: number; // Save as a new revision of this report instead of a new report
+}
+
+export interface IngestedChunk {
+  chunk_id: string;
+  text: string;
+  stage: number;
+  // Revisions only: "unchanged" reuses the previous revision's chunk, "revised" supersedes it
+  status: "new" | "unchanged" | "revised";
+  supersedes?: string; // chunk_id of the previous revision's chunk, when revised
+  citations: { marker: string; target_chunk_id: string; relationship_type: RelationshipType }[];
+}
+
+export type IngestReportResult =
+  | { success: true; report_id: number; revision: number; chunks: IngestedChunk[] }
+  | { success: false; errors: string[] };
+
+export interface SupersedeChunkInput {
+  chunkId: string; // Published chunk being corrected
+  text: string; // Corrected text with inline markers
+  author?: string; // Defaults to the original chunk's author
+  reason?: string;
+  citationMap?: CitationMap; // Defaults to the original chunk's citations
+}
+
+export type SupersedeChunkResult =
+  | { success: true; chunk_id: string }
+  | { success: false; errors: string[] };
+
+export interface SearchFilters {
+  stage?: number;
+  type?: "raw" | "insight";
+  author?: string; // Substring match, e.g. "sarah"
+  from?: string; // Inclusive ISO date (YYYY-MM-DD)
+  to?: string; // Inclusive ISO date (YYYY-MM-DD)
+}
+
+export interface SearchResult {
+  chunk: Chunk;
+  snippet: string; // Matched terms wrapped in HIGHLIGHT_START/HIGHLIGHT_END (lib/search-utils.ts)
+}
+
+export interface RelatedChunk {
+  chunk: Chunk;
+  score: number; // Cosine similarity of TF-IDF vectors, 0..1
+  shared_terms: string[]; // Terms contributing most to the score, strongest first
+}
+
+export interface Report {
+  id: number;
+  title: string;
+  author?: string;
+  status: string; // 'draft' or 'published'
+  markdown: string; // Body with inline markers and a References section
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ReportSummary extends Omit<Report, "markdown"> {
+  citation_count: number;
+  revision_count: number;
+}
+
+// One saved version of a report; reports holds the latest one
+export interface ReportRevision {
+  report_id: number;
+  revision: number; // 1 for the first save
+  title: string;
+  author?: string;
+  markdown: string;
+  created_at?: string;
+}
+
+export interface ReportDiffLine {
+  kind: "added" | "removed" | "unchanged";
+  text: string;
+  from_line?: number; // 1-based line in the older revision (unchanged and removed lines)
+  to_line?: number; // 1-based line in the newer revision (unchanged and added lines)
+}
+
+// A References entry that differs between two revisions
+export interface CitationChange {
+  marker: string; // e.g. "[3]"
+  kind: "added" | "removed" | "repointed";
+  from_chunk_id?: string;
+  to_chunk_id?: string;
+}
+
+// A raw chunk that one revision's lineage reaches and the other's does not (or both do)
+export interface RawSourceChange {
+  chunk_id: string;
+  kind: "added" | "removed" | "unchanged";
+  reference: string | null; // Formatted source reference
+}
+
+export interface ReportDiff {
+  report_id: number;
+  from: Omit<ReportRevision, "markdown">;
+  to: Omit<ReportRevision, "markdown">;
+  lines: ReportDiffLine[];
+  citations: CitationChange[];
+  raw_sources: RawSourceChange[];
+}
+
+export interface Figure {
+  raw: string; // As written, e.g. "$145M" or "+89%"
+  value: number; // Normalized: currency multipliers applied, percent sign dropped
+  kind: "percent" | "currency" | "number";
+  start: number; // Offset into the chunk text
+  end: number;
+}
+
+export interface ClaimCheck {
+  figure: Figure;
+  status: "traced" | "derived" | "untraced";
+  source_chunk_id?: string; // Raw chunk the figure (or both operands) came from
+  explanation?: string; // e.g. "78% − 52%" for a derived delta
+}
+
+export interface LintIssue {
+  rule:
+    | "undefined-marker"
+    | "unused-reference"
+    | "duplicate-reference"
+    | "missing-chunk"
+    | "superseded-chunk"
+    | "uncited-marker"
+    | "missing-quote"
+    | "moved-quote"
+    | "unknown-relationship";
+  severity: "error" | "warning";
+  message: string;
+  line: number; // 1-based, within the report markdown or the chunk text
+  column: number; // 1-based
+  chunk_id?: string; // Set for issues inside a chunk's text (otherwise the issue is in the report)
+}
+
+export type ProvFormat = "prov-json" | "turtle";
+
+// A generated file for the browser to download (PROV, HTML audit export)
+export type FileExportResult =
+  | { success: true; filename: string; mime_type: string; content: string }
+  | { success: false; errors: string[] };
+
+export type ConfidenceRule = "min-path" | "weighted-mean";
+
+export interface ConfidenceSource {
+  chunk_id: string; // Raw chunk supporting the scored chunk
+  source_title?: string;
+  reliability: number; // 0..1
+  reliability_basis: "manual" | "source_type" | "default";
+  source_type?: string | null;
+  path: string[]; // Strongest citation path, scored chunk first
+  path_confidence: number; // Edge confidences along the path, combined per the rule
+}
+
+export interface ConfidenceResult {
+  chunk_id: string;
+  rule: ConfidenceRule;
+  score: number | null; // 0..1, null when no raw source is reachable
+  sources: ConfidenceSource[]; // Raw chunks reached through supporting (non-contradicts) citations
+  contradicting_sources: string[]; // Raw chunks reached only through a contradicts citation, not scored
+  explanation: string;
+}
+
+// Everything a rendered report needs about the chunks it cites, from one lineage traversal
+export interface CitedChunkData {
+  chunks: Chunk[]; // Known chunks, in the order requested
+  claims: Record<string, ClaimCheck[]>; // As getClaimChecks
+  confidence: Record<string, ConfidenceResult>; // As getConfidence
+}
+
+// A citation whose target was created after the chunk that cites it
+export interface OutOfOrderCitation {
+  source_chunk_id: string; // Citing chunk
+  target_chunk_id: string; // Cited chunk, newer than the citing one
+  citation_marker?: string | null;
+  source_created_at: string;
+  target_created_at: string;
+}
+
+export interface TemporalCheck {
+  chunk_id: string;
+  max_source_age_days: number; // Staleness threshold the check ran with
+  out_of_order: OutOfOrderCitation[];
+  // Newest dated raw chunk in the lineage, dated by its document's published_at or else its created_at
+  newest_source: {
+    chunk_id: string;
+    date: string;
+    date_basis: "published_at" | "created_at";
+  } | null;
+  newest_source_age_days: number | null;
+  stale: boolean; // Newest raw source is older than max_source_age_days
+  undated: string[]; // Chunks without created_at: left out of the order check, and of staleness unless published_at is set
+}
+
+// ===== REST API (app/api/v1) =====
+// These shapes are the API's public contract; scripts/generate-openapi.ts turns them into the OpenAPI document.
+
+// Query filters of GET /api/v1/chunks
+export interface ChunkListFilters extends SearchFilters {
+  status?: string; // 'draft', 'published' or 'superseded'
+  document_id?: string; // Raw chunks excerpted from this source document
+}
+
+// A citation of the requested chunk together with the chunk it cites
+export interface ResolvedCitation extends Citation {
+  target: Chunk | null; // Null only if the cited row is missing
+}
+
+export interface Pagination {
+  limit: number; // Page size used
+  offset: number; // Index of the first item on this page
+  total: number; // Items matching the filters across all pages
+  next_offset: number | null; // Offset of the next page, null on the last page
+}
+
+export type ApiErrorCode = "not_found" | "invalid_parameter" | "internal_error";
+
+// Body of every non-2xx API response
+export interface ApiErrorBody {
+  error: {
+    status: number; // Same as the HTTP status
+    code: ApiErrorCode;
+    message: string;
+  };
+}
+
+export interface ChunkResponse {
+  data: Chunk;
+}
+
+export interface ChunkListResponse {
+  data: Chunk[];
+  pagination: Pagination;
+}
+
+export interface CitationListResponse {
+  data: ResolvedCitation[];
+}
+
+export interface LineageResponse {
+  data: LineageGraph;
+}
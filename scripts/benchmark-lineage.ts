@@ -0,0 +1,238 @@
+/**
+ * Benchmark of report and lineage loading: a lookup per chunk (the old pattern) against the batched APIs.
+ *
+ * Input data sources: The synthetic dataset from db/seed-large.ts (data/trace-large.db unless LINEAGE_DB_PATH is set),
+ *   optional --runs <n> (default 5)
+ * Output destinations: Table of median time, SQL statements and server-action round trips per scenario on stdout
+ * Dependencies: db/index.ts (per-chunk baseline queries), actions/lineage.ts, actions/claims.ts,
+ *   actions/cited-chunks.ts, db/seed-large.ts (dataset location and report title), lib/markdown-utils.ts,
+ *   lib/claims.ts and lib/confidence.ts (baselines)
+ * Key exports: None (script)
+ * Side effects: Wraps the database handle's prepare() to count statements; exits 1 when the two
+ *   approaches return different data, 2 when the dataset is missing
+ */
+
+import { existsSync } from "fs";
+import {
+  getChunk,
+  getDb,
+  getFullLineage as dbGetFullLineage,
+  getReport,
+  listReports,
+  type Chunk,
+} from "../db/index";
+import { getChunks, getFullLineage, getFullLineages } from "../actions/lineage";
+import { getClaimChecks } from "../actions/claims";
+import { getCitedChunkData } from "../actions/cited-chunks";
+import { LARGE_DB_PATH, LARGE_REPORT_TITLE } from "../db/seed-large";
+import { computeConfidence, DEFAULT_CONFIDENCE_RULE } from "../lib/confidence";
+import { DEFAULT_MAX_DEPTH, MAX_DEPTH_LIMIT } from "../lib/lineage-graph";
+import { parseCitationMap } from "../lib/markdown-utils";
+import { verifyFigures } from "../lib/claims";
+import type { ConfidenceResult } from "../lib/types";
+
+interface Scenario {
+  name: string;
+  roundTrips: number; // Server actions a browser would call
+  run: () => Promise<unknown>;
+}
+
+let statements = 0;
+
+async function main(): Promise<void> {
+  process.env.LINEAGE_DB_PATH ||= LARGE_DB_PATH;
+  if (!existsSync(process.env.LINEAGE_DB_PATH)) {
+    console.error(`${process.env.LINEAGE_DB_PATH} not found; run \`bun run seed:large\` first`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const runsFlag = process.argv.indexOf("--runs");
+  const runs = runsFlag === -1 ? 5 : Math.max(1, Number(process.argv[runsFlag + 1]) || 1);
+
+  const db = getDb();
+  const prepare = db.prepare.bind(db);
+  db.prepare = ((source: string) => {
+    statements++;
+    return prepare(source);
+  }) as typeof db.prepare;
+
+  const summary = listReports().find((report) => report.title === LARGE_REPORT_TITLE);
+  const report = summary && getReport(summary.id);
+  if (!report) {
+    console.error(`No "${LARGE_REPORT_TITLE}" report; run \`bun run seed:large\` first`);
+    process.exitCode = 2;
+    return;
+  }
+  const chunkIds = [...new Set(Object.values(parseCitationMap(report.markdown)))];
+
+  const pairs: [Scenario, Scenario][] = [
+    [
+      {
+        name: "Cited chunks: getChunk per citation",
+        roundTrips: chunkIds.length,
+        run: async () => chunkIds.map((id) => getChunk(id)),
+      },
+      {
+        name: "Cited chunks: getChunks",
+        roundTrips: 1,
+        run: () => getChunks(chunkIds),
+      },
+    ],
+    [
+      {
+        name: "Lineage of each citation: getChunk per row",
+        roundTrips: chunkIds.length,
+        run: async () => chunkIds.map((id) => lineageNodesPerRow(id)),
+      },
+      {
+        name: "Lineage of each citation: multi-root traversal",
+        roundTrips: 1,
+        run: async () =>
+          Object.values(await getFullLineages(chunkIds, DEFAULT_MAX_DEPTH)).map((lineage) =>
+            lineage.nodes.map((node) => node.chunk)
+          ),
+      },
+    ],
+    [
+      {
+        name: "Claim checks: getChunk per row",
+        roundTrips: 1,
+        run: async () => claimChecksPerRow(chunkIds),
+      },
+      {
+        name: "Claim checks: multi-root traversal",
+        roundTrips: 1,
+        run: () => getClaimChecks(chunkIds),
+      },
+    ],
+    [
+      {
+        name: "Report render: traversal per citation",
+        roundTrips: 3,
+        run: () => citedChunkDataPerCitation(chunkIds),
+      },
+      {
+        name: "Report render: getCitedChunkData",
+        roundTrips: 1,
+        run: () => getCitedChunkData(chunkIds),
+      },
+    ],
+  ];
+
+  console.log(`${report.title}: ${chunkIds.length} citations, median of ${runs} runs\n`);
+  console.log(
+    `${"Scenario".padEnd(46)}${"ms".padStart(10)}${"SQL".padStart(8)}${"Round trips".padStart(13)}`
+  );
+
+  for (const [before, after] of pairs) {
+    const baseline = await measure(before, runs);
+    const batched = await measure(after, runs);
+    if (JSON.stringify(sortDeep(baseline.result)) !== JSON.stringify(sortDeep(batched.result))) {
+      console.error(`"${before.name}" and "${after.name}" returned different data`);
+      process.exitCode = 1;
+    }
+  }
+}
+
+async function measure(
+  scenario: Scenario,
+  runs: number
+): Promise<{ result: unknown }> {
+  const timings: number[] = [];
+  let result: unknown;
+  let runStatements = 0;
+
+  for (let i = 0; i < runs; i++) {
+    statements = 0;
+    const start = performance.now();
+    result = await scenario.run();
+    timings.push(performance.now() - start);
+    runStatements = statements;
+  }
+
+  timings.sort((a, b) => a - b);
+  const median = timings[Math.floor(timings.length / 2)];
+  console.log(
+    `${scenario.name.padEnd(46)}${median.toFixed(1).padStart(10)}${String(runStatements).padStart(8)}${String(scenario.roundTrips).padStart(13)}`
+  );
+  return { result };
+}
+
+/**
+ * Lineage chunks the way buildGraph loaded them before the traversal joined content
+ */
+function lineageNodesPerRow(chunkId: string): Chunk[] {
+  const { rows } = dbGetFullLineage(chunkId, DEFAULT_MAX_DEPTH);
+  return [chunkId, ...new Set(rows.map((row) => row.target_chunk_id))].flatMap(
+    (id) => getChunk(id) ?? []
+  );
+}
+
+/**
+ * getClaimChecks as it was before: a chunk lookup for every lineage row
+ */
+function claimChecksPerRow(chunkIds: string[]): Record<string, unknown> {
+  const checks: Record<string, unknown> = {};
+  for (const chunkId of chunkIds) {
+    const chunk = getChunk(chunkId);
+    if (!chunk || chunk.type === "raw") continue;
+
+    const { rows } = dbGetFullLineage(chunkId, MAX_DEPTH_LIMIT);
+    const rawSources = [...new Set(rows.map((row) => row.target_chunk_id))].flatMap((id) => {
+      const source = getChunk(id);
+      return source?.type === "raw" ? [{ chunk_id: source.chunk_id, text: source.text }] : [];
+    });
+    const chunkChecks = verifyFigures(chunk.text, rawSources);
+    if (chunkChecks.length > 0) {
+      checks[chunkId] = chunkChecks;
+    }
+  }
+  return checks;
+}
+
+/**
+ * What InsightReport loaded before getCitedChunkData: getChunks, then getClaimChecks and
+ * getConfidence with a lineage traversal per cited chunk each
+ */
+async function citedChunkDataPerCitation(chunkIds: string[]): Promise<unknown> {
+  const chunks = await getChunks(chunkIds);
+
+  const claims: Record<string, unknown> = {};
+  for (const chunk of chunks) {
+    if (chunk.type === "raw") continue;
+    const rawSources = dbGetFullLineage(chunk.chunk_id, MAX_DEPTH_LIMIT)
+      .chunks.filter((source) => source.type === "raw")
+      .map((source) => ({ chunk_id: source.chunk_id, text: source.text }));
+    const chunkChecks = verifyFigures(chunk.text, rawSources);
+    if (chunkChecks.length > 0) {
+      claims[chunk.chunk_id] = chunkChecks;
+    }
+  }
+
+  const confidence: Record<string, ConfidenceResult> = {};
+  for (const chunkId of new Set(chunkIds)) {
+    const lineage = await getFullLineage(chunkId, MAX_DEPTH_LIMIT);
+    if (lineage.nodes.length === 0) continue;
+    confidence[chunkId] = computeConfidence(lineage, DEFAULT_CONFIDENCE_RULE);
+  }
+
+  return { chunks, claims, confidence };
+}
+
+/**
+ * Order-insensitive form for comparing results: arrays of objects sorted by their JSON
+ */
+function sortDeep(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortDeep).sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).sort(([a], [b]) => a.localeCompare(b)).map(([k, v]) => [k, sortDeep(v)])
+    );
+  }
+  return value;
+}
+
+main();
@@ -0,0 +1,391 @@
+/**
+ * Generates the OpenAPI 3.1 document of the /api/v1 REST API from the interfaces in lib/types.ts.
+ *
+ * Input data sources: lib/types.ts parsed with the TypeScript compiler API (declarations, trailing comments),
+ *   route constants from lib/api.ts and lib/lineage-graph.ts
+ * Output destinations: app/api/v1/openapi.json/openapi.generated.json (served at GET /api/v1/openapi.json)
+ * Dependencies: typescript, fs, path
+ * Key exports: None (script; `--check` only verifies the committed document is current)
+ * Side effects: Writes the generated document, or sets a non-zero exit code when --check finds it stale
+ */
+
+import ts from "typescript";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { CHUNK_STATUSES, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../lib/api";
+import { DEFAULT_MAX_DEPTH, MAX_DEPTH_LIMIT } from "../lib/lineage-graph";
+
+type Schema = Record<string, unknown>;
+type Declaration = ts.InterfaceDeclaration | ts.TypeAliasDeclaration;
+
+const TYPES_PATH = join(process.cwd(), "lib", "types.ts");
+const OUTPUT_PATH = join(
+  process.cwd(),
+  "app",
+  "api",
+  "v1",
+  "openapi.json",
+  "openapi.generated.json"
+);
+
+const sourceText = readFileSync(TYPES_PATH, "utf-8");
+const source = ts.createSourceFile(TYPES_PATH, sourceText, ts.ScriptTarget.Latest, true);
+
+const declarations = new Map<string, Declaration>();
+source.forEachChild((node) => {
+  if (
+    (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) &&
+    node.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword)
+  ) {
+    declarations.set(node.name.text, node);
+  }
+});
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * The `//` or doc comment directly above a declaration, or after a property on the same line
+ */
+function commentText(range: ts.CommentRange | undefined): string | undefined {
+  if (!range) return undefined;
+  const text = sourceText.slice(range.pos, range.end);
+  return text
+    .replace(/^\/\*\*?|\*\/$/g, "")
+    .replace(/^\s*(\/\/|\*)\s?/gm, "")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+function leadingComment(node: ts.Node): string | undefined {
+  const ranges = ts.getLeadingCommentRanges(sourceText, node.getFullStart());
+  const last = ranges?.[ranges.length - 1];
+  // A blank line in between means the comment belongs to a section, not this declaration
+  if (!last || /\n\s*\n/.test(sourceText.slice(last.end, node.getStart()))) return undefined;
+  return commentText(last);
+}
+
+function trailingComment(node: ts.Node): string | undefined {
+  return commentText(ts.getTrailingCommentRanges(sourceText, node.getEnd())?.[0]);
+}
+
+/**
+ * JSON Schema for a type annotation; named types become $refs collected in `refs`
+ */
+function typeSchema(node: ts.TypeNode, refs: Set<string>): Schema {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { type: "string" };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: "number" };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: "boolean" };
+  }
+
+  if (ts.isParenthesizedTypeNode(node)) {
+    return typeSchema(node.type, refs);
+  }
+  if (ts.isLiteralTypeNode(node)) {
+    if (node.literal.kind === ts.SyntaxKind.NullKeyword) return { type: "null" };
+    if (ts.isStringLiteral(node.literal)) return { type: "string", const: node.literal.text };
+  }
+  if (ts.isArrayTypeNode(node)) {
+    return { type: "array", items: typeSchema(node.elementType, refs) };
+  }
+  if (ts.isTypeLiteralNode(node)) {
+    return objectSchema(node.members, refs);
+  }
+  if (ts.isUnionTypeNode(node)) {
+    return unionSchema(node, refs);
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText(source);
+    if (declarations.has(name)) {
+      refs.add(name);
+      return ref(name);
+    }
+    if (name === "Record" && node.typeArguments?.length === 2) {
+      return {
+        type: "object",
+        additionalProperties: typeSchema(node.typeArguments[1], refs),
+      };
+    }
+  }
+
+  throw new Error(
+    `Unsupported type in lib/types.ts: ${node.getText(source)} (line ${
+      source.getLineAndCharacterOfPosition(node.getStart()).line + 1
+    })`
+  );
+}
+
+/**
+ * String literal unions become enums; "| null" makes the rest nullable
+ */
+function unionSchema(node: ts.UnionTypeNode, refs: Set<string>): Schema {
+  const members = node.types.map((member) => typeSchema(member, refs));
+  const isNullable = members.some((member) => member.type === "null");
+  const rest = members.filter((member) => member.type !== "null");
+
+  const base: Schema = rest.every((member) => "const" in member)
+    ? { type: "string", enum: rest.map((member) => member.const) }
+    : rest.length === 1
+      ? rest[0]
+      : { anyOf: rest };
+  return isNullable ? nullable(base) : base;
+}
+
+function nullable(schema: Schema): Schema {
+  if (Array.isArray(schema.type)) return schema;
+  if (typeof schema.type === "string") {
+    return {
+      ...schema,
+      type: [schema.type, "null"],
+      ...(Array.isArray(schema.enum) ? { enum: [...schema.enum, null] } : {}),
+    };
+  }
+  if (Array.isArray(schema.anyOf) && schema.anyOf.some((member: Schema) => member.type === "null")) {
+    return schema;
+  }
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+function objectSchema(members: ts.NodeArray<ts.TypeElement>, refs: Set<string>): Schema {
+  const properties: Record<string, Schema> = {};
+  const required: string[] = [];
+
+  for (const member of members) {
+    if (ts.isIndexSignatureDeclaration(member)) {
+      return { type: "object", additionalProperties: typeSchema(member.type, refs) };
+    }
+    if (!ts.isPropertySignature(member) || !member.type) continue;
+
+    const name = member.name.getText(source);
+    const description = trailingComment(member);
+    // Optional properties come back as null when their SQLite column is empty
+    const schema = member.questionToken
+      ? nullable(typeSchema(member.type, refs))
+      : typeSchema(member.type, refs);
+    properties[name] = { ...schema, ...(description ? { description } : {}) };
+    if (!member.questionToken) required.push(name);
+  }
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+function declarationSchema(declaration: Declaration, refs: Set<string>): Schema {
+  const description = leadingComment(declaration);
+  let schema: Schema;
+
+  if (ts.isTypeAliasDeclaration(declaration)) {
+    schema = typeSchema(declaration.type, refs);
+  } else {
+    const own = objectSchema(declaration.members, refs);
+    const bases = (declaration.heritageClauses ?? []).flatMap((clause) =>
+      clause.types.map((base) => {
+        const name = base.expression.getText(source);
+        refs.add(name);
+        return ref(name);
+      })
+    );
+    schema = bases.length > 0 ? { allOf: [...bases, own] } : own;
+  }
+
+  return description ? { description, ...schema } : schema;
+}
+
+/**
+ * Every property of an interface, inherited ones first
+ */
+function interfaceMembers(name: string): ts.PropertySignature[] {
+  const declaration = declarations.get(name);
+  if (!declaration || !ts.isInterfaceDeclaration(declaration)) {
+    throw new Error(`${name} is not an interface in lib/types.ts`);
+  }
+  const inherited = (declaration.heritageClauses ?? []).flatMap((clause) =>
+    clause.types.flatMap((base) => interfaceMembers(base.expression.getText(source)))
+  );
+  return [...inherited, ...declaration.members.filter(ts.isPropertySignature)];
+}
+
+/**
+ * Query parameters from an interface's properties, with route-specific constraints merged in
+ */
+function queryParameters(name: string, constraints: Record<string, Schema>): Schema[] {
+  return interfaceMembers(name).map((member) => {
+    const parameter = member.name.getText(source);
+    const description = trailingComment(member);
+    return {
+      name: parameter,
+      in: "query",
+      required: false,
+      schema: { ...typeSchema(member.type!, new Set()), ...constraints[parameter] },
+      ...(description ? { description } : {}),
+    };
+  });
+}
+
+// ===== DOCUMENT =====
+
+const CHUNK_ID_PARAMETER = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+  description: "chunk_id, e.g. raw_market_survey_chunk_1",
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: ref("ApiErrorBody") } },
+});
+
+const okResponse = (schemaName: string) => ({
+  description: "OK",
+  content: { "application/json": { schema: ref(schemaName) } },
+});
+
+const paths = {
+  "/chunks": {
+    get: {
+      operationId: "listChunks",
+      summary: "List chunks, filtered and paginated (ordered by chunk_id)",
+      parameters: [
+        ...queryParameters("ChunkListFilters", {
+          stage: { type: "integer", minimum: 0, maximum: 3 },
+          status: { enum: [...CHUNK_STATUSES] },
+          from: { format: "date" },
+          to: { format: "date" },
+        }),
+        {
+          name: "limit",
+          in: "query",
+          required: false,
+          schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+        },
+        {
+          name: "offset",
+          in: "query",
+          required: false,
+          schema: { type: "integer", minimum: 0, default: 0 },
+        },
+      ],
+      responses: {
+        "200": okResponse("ChunkListResponse"),
+        "400": errorResponse("A filter or pagination parameter is invalid"),
+        "500": errorResponse("Unexpected server error"),
+      },
+    },
+  },
+  "/chunks/{id}": {
+    get: {
+      operationId: "getChunk",
+      summary: "Get one chunk with its source document",
+      parameters: [CHUNK_ID_PARAMETER],
+      responses: {
+        "200": okResponse("ChunkResponse"),
+        "404": errorResponse("No chunk has this id"),
+        "500": errorResponse("Unexpected server error"),
+      },
+    },
+  },
+  "/chunks/{id}/citations": {
+    get: {
+      operationId: "listChunkCitations",
+      summary: "List the chunk's outgoing citations with the chunks they cite",
+      parameters: [CHUNK_ID_PARAMETER],
+      responses: {
+        "200": okResponse("CitationListResponse"),
+        "404": errorResponse("No chunk has this id"),
+        "500": errorResponse("Unexpected server error"),
+      },
+    },
+  },
+  "/chunks/{id}/lineage": {
+    get: {
+      operationId: "getChunkLineage",
+      summary: "Get the lineage graph below the chunk (citations) or above it (dependents)",
+      parameters: [
+        CHUNK_ID_PARAMETER,
+        {
+          name: "depth",
+          in: "query",
+          required: false,
+          schema: { type: "integer", minimum: 1, maximum: MAX_DEPTH_LIMIT, default: DEFAULT_MAX_DEPTH },
+          description: "Hop limit of the traversal",
+        },
+        {
+          name: "direction",
+          in: "query",
+          required: false,
+          schema: { type: "string", enum: ["citations", "dependents"], default: "citations" },
+        },
+      ],
+      responses: {
+        "200": okResponse("LineageResponse"),
+        "400": errorResponse("depth or direction is invalid"),
+        "404": errorResponse("No chunk has this id"),
+        "500": errorResponse("Unexpected server error"),
+      },
+    },
+  },
+};
+
+function buildDocument(): Schema {
+  const schemas: Record<string, Schema> = {};
+  const pending = [
+    "ChunkListResponse",
+    "ChunkResponse",
+    "CitationListResponse",
+    "LineageResponse",
+    "ApiErrorBody",
+  ];
+
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (schemas[name]) continue;
+    const refs = new Set<string>();
+    schemas[name] = declarationSchema(declarations.get(name)!, refs);
+    pending.push(...[...refs].filter((next) => !schemas[next]));
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Trace Demo Lineage API",
+      version: "1.0.0",
+      description:
+        "Read-only access to chunks, citations and lineage. Optional fields may be omitted or null. Generated from lib/types.ts by scripts/generate-openapi.ts; do not edit by hand.",
+    },
+    servers: [{ url: "/api/v1" }],
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(schemas).sort(([a], [b]) => a.localeCompare(b))
+      ),
+    },
+  };
+}
+
+function main(): void {
+  const output = `${JSON.stringify(buildDocument(), null, 2)}\n`;
+
+  if (process.argv.includes("--check")) {
+    const current = existsSync(OUTPUT_PATH) ? readFileSync(OUTPUT_PATH, "utf-8") : "";
+    if (current !== output) {
+      console.error("OpenAPI document is out of date; run npx tsx scripts/generate-openapi.ts");
+      process.exitCode = 1;
+    } else {
+      console.log("OpenAPI document is up to date");
+    }
+    return;
+  }
+
+  writeFileSync(OUTPUT_PATH, output);
+  console.log(`✅ Wrote ${OUTPUT_PATH}`);
+}
+
+main();
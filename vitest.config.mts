@@ -0,0 +1,16 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    // Database tests open their own in-memory SQLite (LINEAGE_DB_PATH=":memory:")
+    env: { LINEAGE_DB_PATH: ":memory:" },
+  },
+});